@@ -1,8 +1,23 @@
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Canvas } from "@react-three/fiber";
 import rapierWasmUrl from "@rapier-wasm-url";
-import { createEngine, createKeyboardInput, createRapierPhysics, EngineLoop } from "react-three-eris";
-import { BasicCharacterScene, registerBasicCharacterSystems } from "./scene/BasicCharacterScene";
+import {
+  createEngine,
+  createGamepadInput,
+  createKeyboardInput,
+  createLocalStorage,
+  createRapierPhysics,
+  EngineLoop,
+  useSystem
+} from "react-three-eris";
+import {
+  BasicCharacterScene,
+  createBasicCharacterSaves,
+  createBasicCharacterSystems
+} from "./scene/BasicCharacterScene";
+
+const AUTOSAVE_SLOT = "autosave";
+const AUTOSAVE_INTERVAL_MS = 2000;
 
 export function App() {
   const engine = useMemo(
@@ -14,16 +29,43 @@ export function App() {
     []
   );
 
+  // Systems follow the component lifecycle (StrictMode remounts unregister + re-register).
+  useSystem(engine, createBasicCharacterSystems);
+
+  const saves = useMemo(
+    () => createBasicCharacterSaves(engine.world, createLocalStorage({ prefix: "basic-character." })),
+    [engine]
+  );
+  const [restored, setRestored] = useState(false);
+
   useEffect(() => {
-    // Register systems once per engine instance (StrictMode can remount components in dev).
-    if (!engine.world.has("basicCharacter.systemsInstalled")) {
-      registerBasicCharacterSystems(engine);
-      engine.world.set("basicCharacter.systemsInstalled", true);
-    }
+    let cancelled = false;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const autosave = () => void saves.save(AUTOSAVE_SLOT).catch(() => {});
 
+    // An unreadable save (corrupt, or from a newer build) starts a fresh game. Autosaving only
+    // starts once loading is done, so it can't overwrite the save before it was read.
+    void saves
+      .load(AUTOSAVE_SLOT)
+      .catch(() => null)
+      .then(() => {
+        if (cancelled) return;
+        setRestored(true);
+        timer = setInterval(autosave, AUTOSAVE_INTERVAL_MS);
+        window.addEventListener("pagehide", autosave);
+      });
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      window.removeEventListener("pagehide", autosave);
+    };
+  }, [saves]);
+
+  useEffect(() => {
     // Input is mounted/unmounted with the React tree.
-    const kb = createKeyboardInput();
-    engine.world.set("input.keyboard", kb);
+    const devices = [createKeyboardInput(), createGamepadInput()];
+    const detach = devices.map((d) => engine.world.input.add(d));
 
     // Ensure physics/net init happens even if an app forgets to mount <EngineLoop />.
     void engine.init();
@@ -35,8 +77,8 @@ export function App() {
     }
 
     return () => {
-      kb.dispose();
-      engine.world.delete("input.keyboard");
+      for (const off of detach) off();
+      for (const d of devices) d.dispose();
     };
   }, [engine]);
 
@@ -52,7 +94,7 @@ export function App() {
       <directionalLight position={[6, 8, 3]} intensity={1.1} castShadow />
 
       <EngineLoop engine={engine} />
-      <BasicCharacterScene engine={engine} />
+      {restored && <BasicCharacterScene engine={engine} />}
     </Canvas>
   );
 }
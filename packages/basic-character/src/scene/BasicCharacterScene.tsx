@@ -1,115 +1,150 @@
-import { useEffect, useLayoutEffect, useRef } from "react";
-import * as THREE from "three";
-import type { Engine, KeyboardInput, System } from "react-three-eris";
+import { useMemo } from "react";
+import {
+  ErisBody,
+  createCharacterControllerSystem,
+  createInputMap,
+  createSaveManager,
+  isRapierPhysics,
+  type BodyHandle,
+  type CharacterIntent,
+  type Engine,
+  type InputMap,
+  type SaveManager,
+  type SaveStorage,
+  type System,
+  type SystemHandle,
+  type Vec3
+} from "react-three-eris";
+
+export type BasicCharacterAction = "jump";
+export type BasicCharacterAxis = "moveX" | "moveZ";
+
+export function createBasicCharacterInputMap(): InputMap<BasicCharacterAction, BasicCharacterAxis> {
+  return createInputMap({
+    actions: {
+      jump: ["Space", "GamepadA"]
+    },
+    axes: {
+      moveX: { negative: ["KeyA", "GamepadLeftStickLeft"], positive: ["KeyD", "GamepadLeftStickRight"] },
+      moveZ: { negative: ["KeyW", "GamepadLeftStickUp"], positive: ["KeyS", "GamepadLeftStickDown"] }
+    }
+  });
+}
+
+function getOrInitInputMap(world: Engine["world"]): InputMap<BasicCharacterAction, BasicCharacterAxis> {
+  const existing = world.get<InputMap<BasicCharacterAction, BasicCharacterAxis>>("player.input.map");
+  if (existing) return existing;
 
-type MoveIntent = { x: number; z: number };
+  const map = createBasicCharacterInputMap();
+  world.set("player.input.map", map);
+  world.markTransient("player.input.map");
+  return map;
+}
+
+function writeIntent(world: Engine["world"], map: InputMap<BasicCharacterAction, BasicCharacterAxis>): void {
+  const x = map.axis("moveX");
+  const z = map.axis("moveZ");
+
+  // Keys give diagonals of length sqrt(2); sticks stay analog below full deflection.
+  const len = Math.hypot(x, z);
+  const move: CharacterIntent = len > 1 ? { x: x / len, z: z / len } : { x, z };
+  move.jump = map.pressed("jump");
+  world.set("player.intent.move", move);
+}
 
-export function registerBasicCharacterSystems(engine: Engine) {
-  const systems: System[] = [
+export function createBasicCharacterSystems(): System[] {
+  return [
     {
       name: "basicCharacter.input",
       phase: "preFrame",
       run(world) {
-        const kb = world.get<KeyboardInput>("input.keyboard");
-        if (!kb) return;
-
-        const x = (kb.isDown("KeyD") ? 1 : 0) - (kb.isDown("KeyA") ? 1 : 0);
-        const z = (kb.isDown("KeyS") ? 1 : 0) - (kb.isDown("KeyW") ? 1 : 0);
-
-        const len = Math.hypot(x, z);
-        const move: MoveIntent = len > 0 ? { x: x / len, z: z / len } : { x: 0, z: 0 };
-        world.set("player.intent.move", move);
+        const map = getOrInitInputMap(world);
+        map.update(world.input);
+        writeIntent(world, map);
       }
     },
     {
-      name: "basicCharacter.fixedMove",
-      phase: "fixed",
-      run(world, dt) {
-        const move = world.get<MoveIntent>("player.intent.move") ?? { x: 0, z: 0 };
-        const speed = world.get<number>("player.speed") ?? 4;
-
-        const body = world.get<any>("player.body");
-        if (!body) return;
+      // The jump edge is consumed by exactly one fixed tick.
+      name: "basicCharacter.input.endTick",
+      phase: "postPhysicsFixed",
+      order: Number.MAX_SAFE_INTEGER,
+      run(world) {
+        const map = world.get<InputMap<BasicCharacterAction, BasicCharacterAxis>>("player.input.map");
+        if (!map) return;
 
-        const t = body.translation();
-        const next = { x: t.x + move.x * speed * dt, y: t.y, z: t.z + move.z * speed * dt };
-        if (typeof body.setNextKinematicTranslation === "function") {
-          body.setNextKinematicTranslation(next);
-        }
+        map.endTick();
+        writeIntent(world, map);
       }
     },
+    // Walks, climbs steps and slopes, collides with walls, falls and jumps; publishes `player.character`.
+    createCharacterControllerSystem({
+      name: "basicCharacter.fixedMove",
+      bodyKey: "player.body",
+      intentKey: "player.intent.move",
+      stateKey: "player.character",
+      speed: 5,
+      jumpSpeed: 5
+    }),
     {
-      name: "basicCharacter.renderApply",
-      phase: "renderApply",
+      // Plain-data copy of the body position, so saves can carry it.
+      name: "basicCharacter.trackPosition",
+      phase: "postPhysicsFixed",
+      after: ["basicCharacter.fixedMove"],
       run(world) {
-        const body = world.get<any>("player.body");
-        const mesh = world.get<THREE.Object3D>("player.mesh");
-        if (!body || !mesh) return;
-
-        const t = body.translation();
-        mesh.position.set(t.x, t.y, t.z);
+        const body = world.get<BodyHandle>("player.body");
+        const physics = world.physics;
+        if (body === undefined || !isRapierPhysics(physics) || !physics.ready) return;
+        world.set("player.position", physics.getPosition(body));
       }
     }
   ];
-
-  engine.registerSystems(systems);
 }
 
-export function BasicCharacterScene(props: { engine: Engine }) {
-  const { engine } = props;
-  const playerRef = useRef<THREE.Mesh>(null);
-
-  useLayoutEffect(() => {
-    if (!playerRef.current) return;
-    engine.world.set("player.mesh", playerRef.current);
-  }, [engine]);
-
-  useEffect(() => {
-    let cancelled = false;
-
-    void engine.init().then(() => {
-      if (cancelled) return;
-
-      if (engine.world.has("player.body")) return;
+/** Bump (and add a migration) when the saved keys change shape. */
+export const BASIC_CHARACTER_SAVE_VERSION = 1;
 
-      const physics: any = engine.world.physics;
-      if (physics?.kind !== "rapier") return;
-
-      const RAPIER = physics.rapier;
-      const world = physics.world;
-      if (!RAPIER || !world) return;
-
-      // Ground: a simple static collider.
-      world.createCollider(
-        RAPIER.ColliderDesc.cuboid(20, 0.1, 20).setTranslation(0, -0.1, 0)
-      );
+/** Saves the player position (`player.position`). */
+export function createBasicCharacterSaves(world: Engine["world"], storage: SaveStorage): SaveManager {
+  return createSaveManager(world, {
+    storage,
+    version: BASIC_CHARACTER_SAVE_VERSION,
+    keys: ["player.position"]
+  });
+}
 
-      // Player: kinematic body that we'll move by setting the next translation each fixed tick.
-      const rb = world.createRigidBody(
-        RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(0, 1, 0)
-      );
-      world.createCollider(RAPIER.ColliderDesc.capsule(0.45, 0.25), rb);
+export function registerBasicCharacterSystems(engine: Engine): SystemHandle[] {
+  return engine.registerSystems(createBasicCharacterSystems());
+}
 
-      engine.world.set("player.body", rb);
-      engine.world.set("player.speed", 5);
-    });
+const SPAWN: Vec3 = { x: 0, y: 1, z: 0 };
 
-    return () => {
-      cancelled = true;
-    };
-  }, [engine]);
+export function BasicCharacterScene(props: { engine: Engine }) {
+  const { engine } = props;
+  // Mount after a save was loaded to resume where the player left off.
+  const spawn = useMemo(() => engine.world.get<Vec3>("player.position") ?? SPAWN, [engine]);
 
   return (
     <>
-      <mesh receiveShadow rotation-x={-Math.PI / 2} position={[0, 0, 0]}>
-        <planeGeometry args={[40, 40]} />
-        <meshStandardMaterial color="#222833" />
-      </mesh>
-
-      <mesh ref={playerRef} castShadow>
-        <boxGeometry args={[1, 1, 1]} />
-        <meshStandardMaterial color="#f6b73c" />
-      </mesh>
+      <ErisBody engine={engine} type="fixed" collider={{ shape: "box", halfExtents: { x: 20, y: 0.1, z: 20 }, position: { x: 0, y: -0.1, z: 0 } }}>
+        <mesh receiveShadow rotation-x={-Math.PI / 2}>
+          <planeGeometry args={[40, 40]} />
+          <meshStandardMaterial color="#222833" />
+        </mesh>
+      </ErisBody>
+
+      {/* Kinematic body driven by the character controller each fixed tick. */}
+      <ErisBody
+        engine={engine}
+        type="kinematicPosition"
+        position={spawn}
+        collider={{ shape: "capsule", halfHeight: 0.45, radius: 0.25 }}
+        stateKey="player.body"
+      >
+        <mesh castShadow>
+          <boxGeometry args={[1, 1, 1]} />
+          <meshStandardMaterial color="#f6b73c" />
+        </mesh>
+      </ErisBody>
     </>
   );
 }
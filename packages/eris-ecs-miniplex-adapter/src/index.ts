@@ -50,6 +50,9 @@ export function ecsSystem<E extends MiniplexEntity>(opts: {
   name: string;
   phase: Phase;
   order?: number;
+  before?: readonly string[];
+  after?: readonly string[];
+  groups?: readonly string[];
   key?: string | StateKey<MiniWorld<E>>;
   run(ctx: { world: ErisWorld; ecs: MiniWorld<E>; dt: number; eris?: SystemContext }): void;
 }): System {
@@ -59,6 +62,9 @@ export function ecsSystem<E extends MiniplexEntity>(opts: {
     name: opts.name,
     phase: opts.phase,
     order: opts.order,
+    before: opts.before,
+    after: opts.after,
+    groups: opts.groups,
     run(world, dt, eris) {
       const ecs = getEcs<E>(world, key);
       opts.run({ world, ecs, dt, eris });
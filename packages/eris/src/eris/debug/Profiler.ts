@@ -0,0 +1,361 @@
+import type { Phase } from "../engine/phases";
+
+export interface ProfilerOptions {
+  /** Number of frames kept in the ring buffer. Defaults to 240 (~4s at 60 fps). */
+  capacity?: number;
+  /** High-resolution clock in milliseconds. Defaults to `performance.now()`. */
+  clock?: () => number;
+}
+
+/** All times are milliseconds on the profiler clock. */
+export interface PhaseTiming {
+  phase: Phase;
+  start: number;
+  duration: number;
+  /** Fixed sub-step index, for `fixed` / `postPhysicsFixed`. */
+  subStep?: number;
+}
+
+export interface SystemTiming {
+  name: string;
+  phase: Phase;
+  start: number;
+  duration: number;
+  subStep?: number;
+}
+
+/** One fixed tick: fixed -> physics.step -> postPhysicsFixed. */
+export interface FixedStepTiming {
+  subStep: number;
+  tick: number;
+  start: number;
+  duration: number;
+  /** Time spent in `physics.step` alone. */
+  physics: number;
+}
+
+export interface FrameProfile {
+  /** Sequence number of the frame (counts every profiled frame, including evicted ones). */
+  frame: number;
+  /** World tick when the frame started. */
+  tick: number;
+  start: number;
+  duration: number;
+  /** Frame dt handed to systems (seconds). */
+  frameDt: number;
+  subSteps: number;
+  droppedTime: number;
+  paused: boolean;
+  stepping: boolean;
+  phases: PhaseTiming[];
+  systems: SystemTiming[];
+  fixedSteps: FixedStepTiming[];
+}
+
+export interface TimingStats {
+  count: number;
+  avg: number;
+  min: number;
+  max: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface ProfilerStats {
+  frames: number;
+  /** Whole-frame duration. */
+  frame: TimingStats;
+  /** Per-frame time spent in each phase (fixed phases are summed over sub-steps). */
+  phases: Partial<Record<Phase, TimingStats>>;
+  /** Per-frame time spent in each system (summed over sub-steps), keyed by system name. */
+  systems: Record<string, TimingStats & { phase: Phase }>;
+  /** Duration of individual fixed ticks. */
+  fixedStep: TimingStats;
+  /** Time spent in `physics.step` per fixed tick. */
+  physicsStep: TimingStats;
+  /** Fixed sub-steps per frame. */
+  subSteps: TimingStats;
+  droppedTime: { total: number; frames: number };
+}
+
+/** Chrome trace-event format ("complete" and "counter" events). */
+export interface ChromeTraceEvent {
+  name: string;
+  cat: string;
+  ph: "X" | "C";
+  /** Microseconds. */
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: Record<string, unknown>;
+}
+
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: "ms";
+}
+
+function percentile(sorted: readonly number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[idx]!;
+}
+
+export function computeTimingStats(values: readonly number[]): TimingStats {
+  if (values.length === 0) return { count: 0, avg: 0, min: 0, max: 0, p50: 0, p95: 0, p99: 0 };
+
+  const sorted = [...values].sort((a, b) => a - b);
+  let sum = 0;
+  for (const v of sorted) sum += v;
+
+  return {
+    count: sorted.length,
+    avg: sum / sorted.length,
+    min: sorted[0]!,
+    max: sorted[sorted.length - 1]!,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99)
+  };
+}
+
+function defaultClock(): number {
+  return performance.now();
+}
+
+/**
+ * Opt-in frame profiler. Attach via `EngineConfig.profiler` or `engine.setProfiler()`;
+ * the Engine only reads the clock when a profiler is attached and enabled.
+ *
+ * Keeps the last `capacity` frames in a ring buffer.
+ */
+export class FrameProfiler {
+  readonly capacity: number;
+  readonly clock: () => number;
+  enabled = true;
+
+  private buffer: FrameProfile[] = [];
+  private head = 0;
+  private frameSeq = 0;
+  private current: FrameProfile | null = null;
+
+  constructor(opts: ProfilerOptions = {}) {
+    this.capacity = opts.capacity ?? 240;
+    this.clock = opts.clock ?? defaultClock;
+
+    if (!Number.isInteger(this.capacity) || this.capacity < 1) {
+      throw new Error(`FrameProfiler.capacity must be an integer >= 1 (got: ${this.capacity})`);
+    }
+  }
+
+  /** True between `beginFrame` and `endFrame`. */
+  get recording(): boolean {
+    return this.current !== null;
+  }
+
+  beginFrame(info: { tick: number; frameDt: number; paused: boolean; stepping: boolean }): void {
+    this.current = {
+      frame: this.frameSeq,
+      tick: info.tick,
+      start: this.clock(),
+      duration: 0,
+      frameDt: info.frameDt,
+      subSteps: 0,
+      droppedTime: 0,
+      paused: info.paused,
+      stepping: info.stepping,
+      phases: [],
+      systems: [],
+      fixedSteps: []
+    };
+    this.frameSeq += 1;
+  }
+
+  recordPhase(timing: PhaseTiming): void {
+    this.current?.phases.push(timing);
+  }
+
+  recordSystem(timing: SystemTiming): void {
+    this.current?.systems.push(timing);
+  }
+
+  recordFixedStep(timing: FixedStepTiming): void {
+    this.current?.fixedSteps.push(timing);
+  }
+
+  endFrame(info: { subSteps: number; droppedTime: number }): void {
+    const frame = this.current;
+    if (!frame) return;
+    this.current = null;
+
+    frame.duration = this.clock() - frame.start;
+    frame.subSteps = info.subSteps;
+    frame.droppedTime = info.droppedTime;
+
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(frame);
+    } else {
+      this.buffer[this.head] = frame;
+      this.head = (this.head + 1) % this.capacity;
+    }
+  }
+
+  /** Recorded frames, oldest first. */
+  frames(): FrameProfile[] {
+    if (this.buffer.length < this.capacity) return [...this.buffer];
+    return [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)];
+  }
+
+  latest(): FrameProfile | undefined {
+    if (this.buffer.length === 0) return undefined;
+    const idx = this.buffer.length < this.capacity ? this.buffer.length - 1 : (this.head + this.capacity - 1) % this.capacity;
+    return this.buffer[idx];
+  }
+
+  clear(): void {
+    this.buffer = [];
+    this.head = 0;
+    this.current = null;
+  }
+
+  /** Rolling statistics over the frames currently in the ring buffer. */
+  stats(): ProfilerStats {
+    const frames = this.frames();
+
+    const phaseTotals = new Map<Phase, number[]>();
+    const systemTotals = new Map<string, { phase: Phase; values: number[] }>();
+    const fixedSteps: number[] = [];
+    const physicsSteps: number[] = [];
+    let droppedTotal = 0;
+    let droppedFrames = 0;
+
+    for (const f of frames) {
+      const perPhase = new Map<Phase, number>();
+      for (const p of f.phases) perPhase.set(p.phase, (perPhase.get(p.phase) ?? 0) + p.duration);
+      for (const [phase, total] of perPhase) {
+        const list = phaseTotals.get(phase);
+        if (list) list.push(total);
+        else phaseTotals.set(phase, [total]);
+      }
+
+      const perSystem = new Map<string, { phase: Phase; total: number }>();
+      for (const s of f.systems) {
+        const entry = perSystem.get(s.name);
+        if (entry) entry.total += s.duration;
+        else perSystem.set(s.name, { phase: s.phase, total: s.duration });
+      }
+      for (const [name, { phase, total }] of perSystem) {
+        const entry = systemTotals.get(name);
+        if (entry) entry.values.push(total);
+        else systemTotals.set(name, { phase, values: [total] });
+      }
+
+      for (const step of f.fixedSteps) {
+        fixedSteps.push(step.duration);
+        physicsSteps.push(step.physics);
+      }
+
+      if (f.droppedTime > 0) {
+        droppedTotal += f.droppedTime;
+        droppedFrames += 1;
+      }
+    }
+
+    const phases: Partial<Record<Phase, TimingStats>> = {};
+    for (const [phase, values] of phaseTotals) phases[phase] = computeTimingStats(values);
+
+    const systems: Record<string, TimingStats & { phase: Phase }> = {};
+    for (const [name, { phase, values }] of systemTotals) {
+      systems[name] = { ...computeTimingStats(values), phase };
+    }
+
+    return {
+      frames: frames.length,
+      frame: computeTimingStats(frames.map((f) => f.duration)),
+      phases,
+      systems,
+      fixedStep: computeTimingStats(fixedSteps),
+      physicsStep: computeTimingStats(physicsSteps),
+      subSteps: computeTimingStats(frames.map((f) => f.subSteps)),
+      droppedTime: { total: droppedTotal, frames: droppedFrames }
+    };
+  }
+
+  /**
+   * Export the buffered frames as Chrome trace events (open in `chrome://tracing` or Perfetto).
+   *
+   * Frames, phases, fixed ticks and systems become nested "complete" events on one thread;
+   * sub-step counts and dropped time are emitted as counters.
+   */
+  toChromeTrace(): ChromeTrace {
+    const us = (ms: number) => Math.round(ms * 1000);
+    const base = { pid: 1, tid: 1 };
+    const traceEvents: ChromeTraceEvent[] = [];
+
+    for (const f of this.frames()) {
+      traceEvents.push({
+        ...base,
+        name: "frame",
+        cat: "frame",
+        ph: "X",
+        ts: us(f.start),
+        dur: us(f.duration),
+        args: { frame: f.frame, tick: f.tick, frameDt: f.frameDt, paused: f.paused, stepping: f.stepping }
+      });
+      for (const step of f.fixedSteps) {
+        traceEvents.push({
+          ...base,
+          name: `fixed tick ${step.tick}`,
+          cat: "fixed",
+          ph: "X",
+          ts: us(step.start),
+          dur: us(step.duration),
+          args: { subStep: step.subStep, physicsMs: step.physics }
+        });
+      }
+      for (const p of f.phases) {
+        traceEvents.push({
+          ...base,
+          name: p.phase,
+          cat: "phase",
+          ph: "X",
+          ts: us(p.start),
+          dur: us(p.duration),
+          args: p.subStep === undefined ? undefined : { subStep: p.subStep }
+        });
+      }
+      for (const s of f.systems) {
+        traceEvents.push({
+          ...base,
+          name: s.name,
+          cat: "system",
+          ph: "X",
+          ts: us(s.start),
+          dur: us(s.duration),
+          args: { phase: s.phase, ...(s.subStep === undefined ? {} : { subStep: s.subStep }) }
+        });
+      }
+      traceEvents.push({
+        ...base,
+        name: "stepping",
+        cat: "frame",
+        ph: "C",
+        ts: us(f.start),
+        args: { subSteps: f.subSteps, droppedTimeMs: f.droppedTime * 1000 }
+      });
+    }
+
+    return { traceEvents, displayTimeUnit: "ms" };
+  }
+
+  /** `toChromeTrace()` as a JSON string, ready to be written to a `.json` file. */
+  exportChromeTrace(): string {
+    return JSON.stringify(this.toChromeTrace());
+  }
+}
+
+export function createProfiler(opts?: ProfilerOptions): FrameProfiler {
+  return new FrameProfiler(opts);
+}
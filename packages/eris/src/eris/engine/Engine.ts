@@ -1,10 +1,13 @@
 import { PHASE_ORDER, type Phase } from "./phases";
-import type { System, SystemContext } from "./system";
+import type { System, SystemContext, SystemHandle } from "./system";
+import { orderSystems } from "./ordering";
 import { World } from "../world/World";
 import { NoopNet } from "../net/NoopNet";
 import type { NetDriver } from "../net/NetDriver";
 import { NoopPhysics } from "../physics/NoopPhysics";
 import type { PhysicsModule } from "../physics/PhysicsModule";
+import { FrameProfiler } from "../debug/Profiler";
+import { LevelManager } from "../level/LevelManager";
 
 export interface EngineConfig {
   fixedDt?: number;
@@ -13,6 +16,10 @@ export interface EngineConfig {
   timeScale?: number;
   net?: NetDriver;
   physics?: PhysicsModule;
+  /** Seed for `world.random`. Defaults to a random seed; set it for reproducible sessions. */
+  seed?: number;
+  /** Opt-in instrumentation. Pass `true` for a profiler with default options. */
+  profiler?: FrameProfiler | boolean;
 }
 
 type PhaseSystems = Record<Phase, System[]>;
@@ -58,13 +65,10 @@ function makePhaseMap(): PhaseSystems {
   };
 }
 
-function sortSystems(systems: System[]): void {
-  systems.sort((a, b) => {
-    const ao = a.order ?? 0;
-    const bo = b.order ?? 0;
-    if (ao !== bo) return ao - bo;
-    return a.name.localeCompare(b.name);
-  });
+type SystemTarget = string | System | SystemHandle;
+
+function isHandle(target: System | SystemHandle): target is SystemHandle {
+  return "system" in target && "unregister" in target;
 }
 
 export class Engine {
@@ -74,12 +78,19 @@ export class Engine {
   timeScale: number;
 
   readonly world: World;
+  /** Loads and unloads levels (systems, physics content and state with a shared lifetime). */
+  readonly levels: LevelManager;
 
   private accumulator = 0;
   private systemsByPhase: PhaseSystems = makePhaseMap();
+  private systemsByName = new Map<string, System>();
 
   private _ready = false;
+  private _disposed = false;
+  private _paused = false;
+  private _profiler: FrameProfiler | null = null;
   private initPromise: Promise<void> | null = null;
+  private readonly frameListeners = new Set<() => void>();
 
   constructor(config: EngineConfig = {}) {
     this.fixedDt = config.fixedDt ?? 1 / 60;
@@ -96,7 +107,31 @@ export class Engine {
     const physics = config.physics ?? NoopPhysics;
     const net = config.net ?? NoopNet;
 
-    this.world = new World({ fixedDt: this.fixedDt, physics, net });
+    this.world = new World({ fixedDt: this.fixedDt, physics, net, seed: config.seed });
+
+    this.levels = new LevelManager(this);
+
+    net.attach?.(this);
+
+    if (config.profiler) this.setProfiler(config.profiler === true ? new FrameProfiler() : config.profiler);
+  }
+
+  get profiler(): FrameProfiler | null {
+    return this._profiler;
+  }
+
+  /**
+   * Attach (or detach with `null`) a profiler. Takes effect from the next frame. A detached
+   * profiler keeps its recorded frames, so they can still be exported.
+   */
+  setProfiler(profiler: FrameProfiler | null): void {
+    this._profiler = profiler;
+  }
+
+  /** The attached profiler, if it should record this frame. */
+  private activeProfiler(): FrameProfiler | null {
+    const p = this._profiler;
+    return p && p.enabled ? p : null;
   }
 
   get ready(): boolean {
@@ -104,28 +139,174 @@ export class Engine {
   }
 
   init(): Promise<void> {
+    if (this._disposed) return Promise.reject(new Error("Engine.init: engine is disposed"));
     if (this.initPromise) return this.initPromise;
 
     this.initPromise = (async () => {
       if (this.world.physics.init) await this.world.physics.init();
       if (this.world.net.init) await this.world.net.init();
-      this._ready = true;
+      // Disposed while initializing: stay not ready.
+      if (!this._disposed) this._ready = true;
     })();
 
     return this.initPromise;
   }
 
-  registerSystem(system: System): void {
-    const list = this.systemsByPhase[system.phase];
-    if (list.some((s) => s.name === system.name)) {
+  get disposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * Release everything the engine owns: the current level is unloaded, every system is
+   * unregistered (`onUnregister`, then `dispose`; phases and systems in reverse order),
+   * entities are despawned, then the net driver, the physics module and the devices attached
+   * to `world.input` are disposed.
+   *
+   * Safe to call more than once. A disposed engine can't be used again: `frame()`,
+   * `stepFrame()`, `stepTicks()`, `resimulateTick()` and `registerSystem()` throw and `init()`
+   * rejects. Create a fresh engine instead. (Before `init()` resolves, the four stepping
+   * methods do nothing instead of throwing.)
+   */
+  dispose(): void {
+    if (this._disposed) return;
+    this._disposed = true;
+    this._ready = false;
+    this.frameListeners.clear();
+    this.levels.dispose();
+
+    for (const phase of [...PHASE_ORDER].reverse()) {
+      for (const system of [...this.systemsByPhase[phase]].reverse()) this.unregisterSystem(system);
+    }
+    this.world.entities.dispose();
+
+    this.world.net.dispose?.();
+    this.world.physics.dispose?.();
+    this.world.input.dispose();
+  }
+
+  /**
+   * Add a system to its phase. Names are unique across all phases.
+   *
+   * The phase is re-ordered on every registration (`before`/`after` constraints, then
+   * `order`, then name). If the new system would create an ordering cycle, this throws
+   * and the system is not registered.
+   *
+   * Registration is safe while a phase is running: phase lists are replaced rather than
+   * mutated, so the change takes effect the next time the phase runs.
+   */
+  registerSystem(system: System): SystemHandle {
+    this.assertNotDisposed("Engine.registerSystem");
+    if (this.systemsByName.has(system.name)) {
       throw new Error(`System name already registered: ${system.name}`);
     }
-    list.push(system);
-    sortSystems(list);
+
+    this.systemsByPhase[system.phase] = orderSystems([...this.systemsByPhase[system.phase], system]);
+    this.systemsByName.set(system.name, system);
+
+    system.onRegister?.(this.world);
+
+    return this.createHandle(system);
   }
 
-  registerSystems(systems: readonly System[]): void {
-    for (const s of systems) this.registerSystem(s);
+  /**
+   * Register a batch of systems. If any entry throws, the systems already registered by
+   * this call are unregistered again before the error is rethrown.
+   */
+  registerSystems(systems: readonly System[]): SystemHandle[] {
+    const handles: SystemHandle[] = [];
+    try {
+      for (const system of systems) handles.push(this.registerSystem(system));
+    } catch (err) {
+      for (const handle of handles.reverse()) handle.unregister();
+      throw err;
+    }
+    return handles;
+  }
+
+  /**
+   * Remove a system by name, by the system object, or by the handle returned from
+   * `registerSystem`. Calls `onUnregister` then `dispose` on the removed system.
+   *
+   * Returns false if no matching system is registered. A system object that merely shares
+   * a name with the registered one is not removed. A system removed while its phase is
+   * running is skipped for the rest of that phase.
+   */
+  unregisterSystem(target: SystemTarget): boolean {
+    const expected = typeof target === "string" ? undefined : isHandle(target) ? target.system : target;
+    const system = this.systemsByName.get(typeof target === "string" ? target : target.name);
+    if (!system) return false;
+    if (expected && expected !== system) return false;
+
+    this.systemsByName.delete(system.name);
+    this.systemsByPhase[system.phase] = this.systemsByPhase[system.phase].filter((s) => s !== system);
+
+    system.onUnregister?.(this.world);
+    system.dispose?.();
+    return true;
+  }
+
+  unregisterSystems(targets: readonly SystemTarget[]): void {
+    for (const t of targets) this.unregisterSystem(t);
+  }
+
+  hasSystem(name: string): boolean {
+    return this.systemsByName.has(name);
+  }
+
+  getSystem(name: string): System | undefined {
+    return this.systemsByName.get(name);
+  }
+
+  /** Registered systems of a phase, in execution order. */
+  getSystems(phase: Phase): readonly System[] {
+    return this.systemsByPhase[phase];
+  }
+
+  /**
+   * Enable or disable a registered system without removing it.
+   *
+   * Throws if no system with that name is registered.
+   */
+  setSystemEnabled(name: string, enabled: boolean): void {
+    const system = this.systemsByName.get(name);
+    if (!system) throw new Error(`System not registered: ${name}`);
+    system.enabled = enabled;
+  }
+
+  isSystemEnabled(name: string): boolean {
+    const system = this.systemsByName.get(name);
+    return system !== undefined && system.enabled !== false;
+  }
+
+  /**
+   * Call `listener` after every frame (`frame()`, paused frames, `stepFrame()`, `stepTicks()`),
+   * once all phases have run and `world.flushChanges()` has notified state subscribers.
+   * Returns an unsubscribe function.
+   */
+  onFrame(listener: () => void): () => void {
+    this.frameListeners.add(listener);
+    return () => {
+      this.frameListeners.delete(listener);
+    };
+  }
+
+  get paused(): boolean {
+    return this._paused;
+  }
+
+  /**
+   * Stop advancing simulation time.
+   *
+   * While paused, `frame()` only runs `late` and `renderApply` (so cameras, debug views and
+   * the scene stay interactive). World time, ticks, the accumulator and the net driver are
+   * left untouched. Use `stepTicks` / `stepFrame` to advance manually.
+   */
+  pause(): void {
+    this._paused = true;
+  }
+
+  resume(): void {
+    this._paused = false;
   }
 
   /**
@@ -135,109 +316,260 @@ export class Engine {
    * - Runs 0..N fixed ticks (fixed -> physics.step -> postPhysicsFixed)
    * - Runs `update`, `late`, `renderApply` once
    *
+   * While paused, only `late` and `renderApply` run (see `pause()`).
+   *
    * Note: `renderApply` receives `alpha` (0..1) in the `dt` parameter.
    */
   frame(frameDtSeconds: number): void {
+    this.assertNotDisposed("Engine.frame");
     if (!this._ready) return;
 
     assertNonNegativeNumber("Engine.frame(frameDtSeconds)", frameDtSeconds);
 
+    if (this._paused) {
+      this.presentPaused(Math.min(frameDtSeconds, this.maxFrameDt));
+      return;
+    }
+
+    this.advance(this.clampFrameDt(frameDtSeconds), null, false);
+  }
+
+  /**
+   * Run one full frame as if the engine were not paused (accumulator, timeScale and
+   * maxSubSteps apply as usual). Systems see `ctx.stepping = true`.
+   */
+  stepFrame(frameDtSeconds: number): void {
+    this.assertNotDisposed("Engine.stepFrame");
+    if (!this._ready) return;
+
+    assertNonNegativeNumber("Engine.stepFrame(frameDtSeconds)", frameDtSeconds);
+    this.advance(this.clampFrameDt(frameDtSeconds), null, true);
+  }
+
+  /**
+   * Run exactly `ticks` fixed ticks, wrapped in a single frame (preFrame once, the ticks,
+   * then update/late/renderApply once). World time advances by `ticks * fixedDt`; the
+   * accumulator, timeScale and maxSubSteps are not involved. Systems see `ctx.stepping = true`.
+   */
+  stepTicks(ticks = 1): void {
+    this.assertNotDisposed("Engine.stepTicks");
+    if (!this._ready) return;
+
+    assertIntegerAtLeast("Engine.stepTicks(ticks)", ticks, 1);
+    this.advance(ticks * this.fixedDt, ticks, true);
+  }
+
+  /**
+   * Run one fixed tick (fixed -> physics.step -> postPhysicsFixed, then `world.tick += 1`)
+   * outside the frame loop, with `ctx.resimulating = true`.
+   *
+   * Intended for net drivers replaying ticks after restoring an older world snapshot. Only
+   * call it from `NetDriver.applyIncoming` (or while no frame is running); the world clock
+   * and the accumulator are not touched. Like `frame()`, it does nothing before `init()`.
+   */
+  resimulateTick(): void {
+    this.assertNotDisposed("Engine.resimulateTick");
+    if (!this._ready) return;
+
+    this.runFixedTick(0, 0, false, true);
+  }
+
+  private assertNotDisposed(name: string): void {
+    if (this._disposed) throw new Error(`${name}: engine is disposed`);
+  }
+
+  private clampFrameDt(frameDtSeconds: number): number {
     const scaled = frameDtSeconds * this.timeScale;
-    const dt = Math.max(0, Math.min(scaled, this.maxFrameDt));
+    return Math.max(0, Math.min(scaled, this.maxFrameDt));
+  }
+
+  private context(phase: Phase, frameDt: number, stepping: boolean, extra?: Partial<SystemContext>): SystemContext {
+    return {
+      phase,
+      frameDt,
+      fixedDt: this.fixedDt,
+      now: this.world.now,
+      tick: this.world.tick,
+      paused: this._paused,
+      stepping,
+      ...extra
+    };
+  }
+
+  /**
+   * @param ticks `null` for accumulator-driven stepping, otherwise an exact tick count.
+   */
+  private advance(dt: number, ticks: number | null, stepping: boolean): void {
+    const profiler = this.activeProfiler();
+    profiler?.beginFrame({ tick: this.world.tick, frameDt: dt, paused: this._paused, stepping });
 
     this.world.now += dt;
 
     // Networking hooks (default: noop).
     this.world.net.pollIncoming(this.world.now);
 
-    // 1) preFrame once
-    this.runPhase("preFrame", dt, {
-      phase: "preFrame",
-      frameDt: dt,
-      fixedDt: this.fixedDt,
-      now: this.world.now,
-      tick: this.world.tick
-    });
+    // 1) preFrame once (input devices are sampled right before it)
+    this.world.input.poll();
+    this.runPhase("preFrame", dt, this.context("preFrame", dt, stepping));
 
     this.world.net.applyIncoming(this.world);
 
-    // 2) fixed ticks with accumulator
-    this.accumulator += dt;
+    // 2) fixed ticks: exact count when stepping by ticks, otherwise accumulator-driven
     let subSteps = 0;
-    while (this.accumulator >= this.fixedDt && subSteps < this.maxSubSteps) {
-      this.runPhase("fixed", this.fixedDt, {
-        phase: "fixed",
-        frameDt: dt,
-        fixedDt: this.fixedDt,
-        now: this.world.now,
-        tick: this.world.tick,
-        subStep: subSteps
-      });
-      this.world.physics.step(this.fixedDt);
-      this.runPhase("postPhysicsFixed", this.fixedDt, {
-        phase: "postPhysicsFixed",
-        frameDt: dt,
-        fixedDt: this.fixedDt,
-        now: this.world.now,
+    let droppedTime = 0;
+    if (ticks !== null) {
+      while (subSteps < ticks) {
+        this.runFixedTick(dt, subSteps, stepping);
+        subSteps += 1;
+      }
+    } else {
+      this.accumulator += dt;
+      while (this.accumulator >= this.fixedDt && subSteps < this.maxSubSteps) {
+        this.runFixedTick(dt, subSteps, stepping);
+        this.accumulator -= this.fixedDt;
+        subSteps += 1;
+      }
+
+      // Soft-drop policy: if we hit maxSubSteps and still have >= fixedDt of debt,
+      // discard the remainder so the accumulator can't grow without bound.
+      if (subSteps >= this.maxSubSteps && this.accumulator > this.fixedDt) {
+        droppedTime = this.accumulator - this.fixedDt;
+        this.accumulator = this.fixedDt;
+      }
+    }
+
+    // 3) variable phases once
+    const frameInfo = { subStepsThisFrame: subSteps, droppedTime };
+    this.runPhase("update", dt, this.context("update", dt, stepping, frameInfo));
+    this.runPhase("late", dt, this.context("late", dt, stepping, frameInfo));
+
+    const alpha = this.alpha();
+    this.world.entities.present(alpha);
+    this.runPhase("renderApply", alpha, this.context("renderApply", dt, stepping, { ...frameInfo, alpha }));
+
+    this.world.net.collectOutgoing(this.world);
+    this.world.net.flushOutgoing();
+
+    profiler?.endFrame({ subSteps, droppedTime });
+    this.notifyFrame();
+  }
+
+  private runFixedTick(frameDt: number, subStep: number, stepping: boolean, resimulating = false): void {
+    const profiler = this.activeProfiler();
+    const start = profiler ? profiler.clock() : 0;
+
+    this.runPhase("fixed", this.fixedDt, this.context("fixed", frameDt, stepping, { subStep, resimulating }));
+
+    const physicsStart = profiler ? profiler.clock() : 0;
+    this.world.physics.step(this.fixedDt);
+    const physicsEnd = profiler ? profiler.clock() : 0;
+
+    this.runPhase(
+      "postPhysicsFixed",
+      this.fixedDt,
+      this.context("postPhysicsFixed", frameDt, stepping, { subStep, resimulating })
+    );
+    this.world.entities.capture();
+
+    if (profiler) {
+      profiler.recordFixedStep({
+        subStep,
         tick: this.world.tick,
-        subStep: subSteps
+        start,
+        duration: profiler.clock() - start,
+        physics: physicsEnd - physicsStart
       });
-
-      this.world.tick += 1;
-      this.accumulator -= this.fixedDt;
-      subSteps += 1;
     }
 
-    // Soft-drop policy: if we hit maxSubSteps and still have >= fixedDt of debt,
-    // discard the remainder so the accumulator can't grow without bound.
-    let droppedTime = 0;
-    if (subSteps >= this.maxSubSteps && this.accumulator > this.fixedDt) {
-      droppedTime = this.accumulator - this.fixedDt;
-      this.accumulator = this.fixedDt;
-    }
+    this.world.tick += 1;
+  }
 
-    // 3) variable phases once
-    this.runPhase("update", dt, {
-      phase: "update",
-      frameDt: dt,
-      fixedDt: this.fixedDt,
-      now: this.world.now,
-      tick: this.world.tick,
-      subStepsThisFrame: subSteps,
-      droppedTime
-    });
-    this.runPhase("late", dt, {
-      phase: "late",
-      frameDt: dt,
-      fixedDt: this.fixedDt,
-      now: this.world.now,
-      tick: this.world.tick,
-      subStepsThisFrame: subSteps,
-      droppedTime
-    });
+  private notifyFrame(): void {
+    this.world.flushChanges();
+    // Listeners may unsubscribe (or subscribe others) while being notified.
+    for (const listener of [...this.frameListeners]) listener();
+  }
+
+  /**
+   * Paused frames: presentation only. `frameDt` is the real (unscaled, clamped) frame time so
+   * cameras and debug tooling keep moving; simulation time does not advance.
+   */
+  private presentPaused(realDt: number): void {
+    const profiler = this.activeProfiler();
+    profiler?.beginFrame({ tick: this.world.tick, frameDt: realDt, paused: true, stepping: false });
+
+    const frameInfo = { subStepsThisFrame: 0, droppedTime: 0 };
+    this.runPhase("late", realDt, this.context("late", realDt, false, frameInfo));
 
+    const alpha = this.alpha();
+    this.world.entities.present(alpha);
+    this.runPhase("renderApply", alpha, this.context("renderApply", realDt, false, { ...frameInfo, alpha }));
+
+    profiler?.endFrame({ subSteps: 0, droppedTime: 0 });
+    this.notifyFrame();
+  }
+
+  private alpha(): number {
     // If we hit maxSubSteps, accumulator can still exceed fixedDt. Clamp alpha so
     // render interpolation stays in a stable [0..1] range.
     const alphaRaw = this.accumulator / this.fixedDt;
-    const alpha = Math.max(0, Math.min(alphaRaw, 1));
-    this.runPhase("renderApply", alpha, {
-      phase: "renderApply",
-      frameDt: dt,
-      fixedDt: this.fixedDt,
-      alpha,
-      now: this.world.now,
-      tick: this.world.tick,
-      subStepsThisFrame: subSteps,
-      droppedTime
-    });
-
-    this.world.net.collectOutgoing(this.world);
-    this.world.net.flushOutgoing();
+    return Math.max(0, Math.min(alphaRaw, 1));
   }
 
+  /** Spawns and despawns requested by the phase's systems apply when it ends. */
   private runPhase(phase: Phase, dt: number, ctx: SystemContext): void {
+    const entities = this.world.entities;
+    entities.defer();
+    try {
+      this.runSystems(phase, dt, ctx);
+    } finally {
+      entities.flush();
+    }
+  }
+
+  private runSystems(phase: Phase, dt: number, ctx: SystemContext): void {
     const systems = this.systemsByPhase[phase];
-    for (const sys of systems) sys.run(this.world, dt, ctx);
+    const profiler = this.activeProfiler();
+    if (!profiler) {
+      for (const sys of systems) {
+        if (!this.isRunnable(sys)) continue;
+        sys.run(this.world, dt, ctx);
+      }
+      return;
+    }
+
+    const { clock } = profiler;
+    const phaseStart = clock();
+    for (const sys of systems) {
+      if (!this.isRunnable(sys)) continue;
+      const start = clock();
+      sys.run(this.world, dt, ctx);
+      profiler.recordSystem({ name: sys.name, phase, start, duration: clock() - start, subStep: ctx.subStep });
+    }
+    profiler.recordPhase({ phase, start: phaseStart, duration: clock() - phaseStart, subStep: ctx.subStep });
+  }
+
+  /** Systems unregistered earlier in the running phase are skipped. */
+  private isRunnable(system: System): boolean {
+    return system.enabled !== false && this.systemsByName.get(system.name) === system;
+  }
+
+  private createHandle(system: System): SystemHandle {
+    const engine = this;
+    return {
+      name: system.name,
+      phase: system.phase,
+      system,
+      get registered() {
+        return engine.systemsByName.get(system.name) === system;
+      },
+      setEnabled(enabled: boolean) {
+        system.enabled = enabled;
+      },
+      unregister() {
+        engine.unregisterSystem(system);
+      }
+    };
   }
 }
 
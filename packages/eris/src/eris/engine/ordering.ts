@@ -0,0 +1,124 @@
+import type { System } from "./system";
+
+function compareSystems(a: System, b: System): number {
+  const ao = a.order ?? 0;
+  const bo = b.order ?? 0;
+  if (ao !== bo) return ao - bo;
+  return a.name.localeCompare(b.name);
+}
+
+/** Systems a `before`/`after` entry refers to: a system name or a group label. */
+function resolveTarget(target: string, byName: Map<string, System>, byGroup: Map<string, System[]>): System[] {
+  const out: System[] = [];
+  const named = byName.get(target);
+  if (named) out.push(named);
+  for (const s of byGroup.get(target) ?? []) {
+    if (s !== named) out.push(s);
+  }
+  return out;
+}
+
+function findCycle(remaining: Set<System>, edges: Map<System, Set<System>>): System[] {
+  const visiting = new Set<System>();
+  const done = new Set<System>();
+  const stack: System[] = [];
+
+  const visit = (s: System): System[] | null => {
+    visiting.add(s);
+    stack.push(s);
+    const next = [...(edges.get(s) ?? [])].filter((n) => remaining.has(n)).sort(compareSystems);
+    for (const n of next) {
+      if (visiting.has(n)) return [...stack.slice(stack.indexOf(n)), n];
+      if (done.has(n)) continue;
+      const found = visit(n);
+      if (found) return found;
+    }
+    stack.pop();
+    visiting.delete(s);
+    done.add(s);
+    return null;
+  };
+
+  for (const s of [...remaining].sort(compareSystems)) {
+    if (done.has(s)) continue;
+    const found = visit(s);
+    if (found) return found;
+  }
+  return [];
+}
+
+/**
+ * Order the systems of one phase.
+ *
+ * `before`/`after` constraints are hard edges; among systems whose constraints are
+ * satisfied, the one with the lowest `order` runs first, then by name. Constraints that
+ * name no system in the phase are ignored so optional systems can reference each other.
+ *
+ * Throws if the constraints form a cycle; the message lists the systems involved.
+ */
+export function orderSystems(systems: readonly System[]): System[] {
+  const byName = new Map<string, System>();
+  const byGroup = new Map<string, System[]>();
+  for (const s of systems) {
+    byName.set(s.name, s);
+    for (const g of s.groups ?? []) {
+      const list = byGroup.get(g);
+      if (list) list.push(s);
+      else byGroup.set(g, [s]);
+    }
+  }
+
+  // edges: a -> b means "a runs before b".
+  const edges = new Map<System, Set<System>>();
+  const inDegree = new Map<System, number>();
+  for (const s of systems) {
+    edges.set(s, new Set());
+    inDegree.set(s, 0);
+  }
+
+  const addEdge = (from: System, to: System) => {
+    if (from === to) return;
+    const out = edges.get(from)!;
+    if (out.has(to)) return;
+    out.add(to);
+    inDegree.set(to, inDegree.get(to)! + 1);
+  };
+
+  for (const s of systems) {
+    for (const t of s.before ?? []) {
+      for (const other of resolveTarget(t, byName, byGroup)) addEdge(s, other);
+    }
+    for (const t of s.after ?? []) {
+      for (const other of resolveTarget(t, byName, byGroup)) addEdge(other, s);
+    }
+  }
+
+  const ready = systems.filter((s) => inDegree.get(s) === 0).sort(compareSystems);
+  const out: System[] = [];
+
+  while (ready.length > 0) {
+    const next = ready.shift()!;
+    out.push(next);
+    let added = false;
+    for (const to of edges.get(next)!) {
+      const d = inDegree.get(to)! - 1;
+      inDegree.set(to, d);
+      if (d === 0) {
+        ready.push(to);
+        added = true;
+      }
+    }
+    if (added) ready.sort(compareSystems);
+  }
+
+  if (out.length !== systems.length) {
+    const remaining = new Set(systems.filter((s) => !out.includes(s)));
+    const cycle = findCycle(remaining, edges);
+    const phase = systems[0]?.phase;
+    throw new Error(
+      `System ordering cycle in phase "${phase}": ${cycle.map((s) => s.name).join(" -> ")}`
+    );
+  }
+
+  return out;
+}
@@ -28,12 +28,44 @@ export interface SystemContext {
 
   /** Amount of accumulated time discarded due to maxSubSteps (seconds). */
   droppedTime?: number;
+
+  /**
+   * True while the engine is paused. Paused frames only run `late` and `renderApply`;
+   * manual steps (`stepTicks` / `stepFrame`) taken while paused also report `paused: true`.
+   */
+  paused?: boolean;
+
+  /** True during `Engine.stepTicks` / `Engine.stepFrame`. */
+  stepping?: boolean;
+
+  /**
+   * True when a fixed tick is being replayed after a rollback (`Engine.resimulateTick`).
+   * Skip one-shot side effects (sounds, particles, analytics) that already happened.
+   */
+  resimulating?: boolean;
 }
 
 export interface System {
   name: string;
   phase: Phase;
+  /** Tie-breaker among systems whose `before`/`after` constraints are satisfied. Lower runs earlier. */
   order?: number;
+
+  /** Run before these systems (names or group labels in the same phase). */
+  before?: readonly string[];
+
+  /** Run after these systems (names or group labels in the same phase). */
+  after?: readonly string[];
+
+  /** Labels other systems can target with `before`/`after` (e.g. "physics.sync"). */
+  groups?: readonly string[];
+
+  /**
+   * Disabled systems stay registered (and keep their slot in the ordering) but are
+   * skipped when their phase runs. Defaults to enabled.
+   */
+  enabled?: boolean;
+
   /**
    * Execute the system.
    *
@@ -41,5 +73,32 @@ export interface System {
    * Prefer reading `ctx.alpha` when available.
    */
   run(world: World, dt: number, ctx?: SystemContext): void;
+
+  /** Called once when the system is added to an Engine. */
+  onRegister?(world: World): void;
+
+  /** Called once when the system is removed from an Engine (before `dispose`). */
+  onUnregister?(world: World): void;
+
+  /**
+   * Release resources owned by the system. Called after `onUnregister`.
+   *
+   * A disposed system should not be registered again; create a fresh instance instead.
+   */
+  dispose?(): void;
+}
+
+/**
+ * Returned by `Engine.registerSystem`. Lets the caller remove exactly the system it added
+ * without having to remember its name.
+ */
+export interface SystemHandle {
+  readonly name: string;
+  readonly phase: Phase;
+  readonly system: System;
+  /** True while the system is still registered with the Engine that returned this handle. */
+  readonly registered: boolean;
+  setEnabled(enabled: boolean): void;
+  unregister(): void;
 }
 
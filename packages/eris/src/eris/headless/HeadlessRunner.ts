@@ -0,0 +1,202 @@
+import type { Engine } from "../engine/Engine";
+
+/**
+ * - `realtime`: call `engine.frame(elapsed)` about `hz` times per second using wall-clock time
+ *   (what `EngineLoop` does in the browser).
+ * - `asFastAsPossible`: call `engine.frame(1 / hz)` back-to-back, yielding to the event loop
+ *   between batches so timers, I/O and `stop()` still get a chance to run.
+ */
+export type HeadlessRunnerMode = "realtime" | "asFastAsPossible";
+
+export interface HeadlessRunnerOptions {
+  /** Frames per second. Defaults to `1 / engine.fixedDt` (one fixed tick per frame). */
+  hz?: number;
+  mode?: HeadlessRunnerMode;
+  /** Frames per event-loop turn in `asFastAsPossible` mode. Defaults to 64. */
+  batchSize?: number;
+  /** Wall clock in milliseconds (realtime mode). Defaults to `performance.now()`. */
+  clock?: () => number;
+}
+
+export interface HeadlessRunner {
+  readonly engine: Engine;
+  readonly hz: number;
+  readonly mode: HeadlessRunnerMode;
+  readonly running: boolean;
+  /** Number of `engine.frame()` calls made by this runner. */
+  readonly frames: number;
+
+  /** Initialize the engine (if needed) and start driving it on a timer. */
+  start(): Promise<void>;
+  /** Stop the timer loop. Pending `waitForTick` promises are rejected. */
+  stop(): void;
+
+  /** Synchronously run `count` frames of `1 / hz` seconds each. */
+  runFrames(count: number): void;
+  /**
+   * Synchronously run frames of `1 / hz` seconds until `world.tick` has advanced by `count`.
+   * Throws if the engine is paused or `timeScale` is 0 (ticks would never advance).
+   */
+  runTicks(count: number): void;
+
+  /** Resolves once `world.tick >= tick` (checked after every frame this runner drives). */
+  waitForTick(tick: number): Promise<void>;
+}
+
+type TickWaiter = { tick: number; resolve: () => void; reject: (e: unknown) => void };
+
+function assertPositiveInteger(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be an integer >= 1 (got: ${value})`);
+  }
+}
+
+function defaultClock(): number {
+  return performance.now();
+}
+
+/**
+ * Drive an Engine without React Three Fiber (Node, CI, server-side simulation).
+ *
+ * Every frame goes through `engine.frame()`, so phase semantics are identical to the
+ * browser loop.
+ */
+export function createHeadlessRunner(engine: Engine, opts: HeadlessRunnerOptions = {}): HeadlessRunner {
+  const hz = opts.hz ?? 1 / engine.fixedDt;
+  const mode = opts.mode ?? "realtime";
+  const batchSize = opts.batchSize ?? 64;
+  const clock = opts.clock ?? defaultClock;
+
+  if (!Number.isFinite(hz) || hz <= 0) {
+    throw new Error(`HeadlessRunner.hz must be > 0 (got: ${hz})`);
+  }
+  assertPositiveInteger("HeadlessRunner.batchSize", batchSize);
+
+  // Use fixedDt verbatim by default: 1 / (1 / fixedDt) can round below fixedDt and skip a tick.
+  const frameDt = opts.hz === undefined ? engine.fixedDt : 1 / hz;
+  let running = false;
+  let frames = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastTime = 0;
+  let waiters: TickWaiter[] = [];
+
+  const settleWaiters = () => {
+    if (waiters.length === 0) return;
+    const tick = engine.world.tick;
+    const pending: TickWaiter[] = [];
+    for (const w of waiters) {
+      if (tick >= w.tick) w.resolve();
+      else pending.push(w);
+    }
+    waiters = pending;
+  };
+
+  const rejectWaiters = (error: unknown) => {
+    const pending = waiters;
+    waiters = [];
+    for (const w of pending) w.reject(error);
+  };
+
+  const frame = (dt: number) => {
+    engine.frame(dt);
+    frames += 1;
+    settleWaiters();
+  };
+
+  const assertReady = (method: string) => {
+    if (!engine.ready) {
+      throw new Error(`HeadlessRunner.${method}: engine is not initialized (await engine.init() first)`);
+    }
+  };
+
+  const fail = (error: unknown) => {
+    rejectWaiters(error);
+    runner.stop();
+  };
+
+  const loop = () => {
+    timer = null;
+    if (!running) return;
+
+    try {
+      if (mode === "realtime") {
+        const now = clock();
+        const elapsed = Math.max(0, (now - lastTime) / 1000);
+        lastTime = now;
+        frame(elapsed);
+      } else {
+        for (let i = 0; i < batchSize && running; i += 1) frame(frameDt);
+      }
+    } catch (e) {
+      fail(e);
+      return;
+    }
+
+    if (running) timer = setTimeout(loop, mode === "realtime" ? frameDt * 1000 : 0);
+  };
+
+  const runner: HeadlessRunner = {
+    engine,
+    hz,
+    mode,
+    get running() {
+      return running;
+    },
+    get frames() {
+      return frames;
+    },
+
+    async start() {
+      if (running) return;
+      running = true;
+      try {
+        await engine.init();
+      } catch (e) {
+        running = false;
+        throw e;
+      }
+      if (!running) return; // stop() was called while initializing
+      lastTime = clock();
+      timer = setTimeout(loop, mode === "realtime" ? frameDt * 1000 : 0);
+    },
+
+    stop() {
+      if (!running) return;
+      running = false;
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+      rejectWaiters(new Error(`HeadlessRunner stopped at tick ${engine.world.tick}`));
+    },
+
+    runFrames(count) {
+      assertPositiveInteger("HeadlessRunner.runFrames(count)", count);
+      assertReady("runFrames");
+      for (let i = 0; i < count; i += 1) frame(frameDt);
+    },
+
+    runTicks(count) {
+      assertPositiveInteger("HeadlessRunner.runTicks(count)", count);
+      assertReady("runTicks");
+
+      const target = engine.world.tick + count;
+      while (engine.world.tick < target) {
+        // Checked every frame: a system may pause the engine or zero timeScale mid-run.
+        if (engine.paused || engine.timeScale === 0) {
+          throw new Error(
+            `HeadlessRunner.runTicks: engine is paused or timeScale is 0 at tick ${engine.world.tick}; ticks would never advance`
+          );
+        }
+        frame(frameDt);
+      }
+    },
+
+    waitForTick(tick) {
+      if (engine.world.tick >= tick) return Promise.resolve();
+      return new Promise<void>((resolve, reject) => {
+        waiters.push({ tick, resolve, reject });
+      });
+    }
+  };
+
+  return runner;
+}
@@ -1,22 +1,158 @@
 export type { Phase } from "./engine/phases";
-export type { System, SystemContext } from "./engine/system";
+export type { System, SystemContext, SystemHandle } from "./engine/system";
 export type { EngineConfig } from "./engine/Engine";
 export { Engine, createEngine } from "./engine/Engine";
 
-export type { NetDriver } from "./net/NetDriver";
+export type {
+  ChromeTrace,
+  ChromeTraceEvent,
+  FixedStepTiming,
+  FrameProfile,
+  PhaseTiming,
+  ProfilerOptions,
+  ProfilerStats,
+  SystemTiming,
+  TimingStats
+} from "./debug/Profiler";
+export { FrameProfiler, computeTimingStats, createProfiler } from "./debug/Profiler";
+
+export type { NetDriver, NetRole } from "./net/NetDriver";
 export { NoopNet } from "./net/NoopNet";
+export type { LoopbackOptions, NetTransport } from "./net/transport";
+export { createLoopbackPair } from "./net/transport";
+export type { PlayerId, RollbackInputMessage, RollbackNetOptions, RollbackStats } from "./net/RollbackNet";
+export { RollbackNet, createRollbackNet } from "./net/RollbackNet";
+export type { ClientId, ServerNetOptions, ServerNetStats } from "./net/ServerNet";
+export { ServerNet, createServerNet } from "./net/ServerNet";
+export type { ClientNetOptions, ClientNetStats, Interpolator } from "./net/ClientNet";
+export { ClientNet, createClientNet, lerpPlainData } from "./net/ClientNet";
+export type {
+  ClientAckMessage,
+  ClientMessage,
+  ReceivedSnapshot,
+  ServerMessage,
+  ServerSnapshotMessage
+} from "./net/protocol";
+export type { ReplicatedState, StateDelta } from "./net/delta";
+export { applyDelta, diffState } from "./net/delta";
+export type { WebSocketLike, WebSocketTransportOptions } from "./net/websocket";
+export { createWebSocketTransport } from "./net/websocket";
 
 export type { PhysicsModule } from "./physics/PhysicsModule";
 export { NoopPhysics } from "./physics/NoopPhysics";
-export { RapierPhysicsModule, createRapierPhysics } from "./physics/RapierPhysicsModule";
+export type {
+  BodyDesc,
+  BodyHandle,
+  BodyType,
+  ColliderDesc,
+  ColliderHandle,
+  EntityId,
+  Quat,
+  ShapeDesc,
+  Vec3
+} from "./physics/types";
+export type {
+  CastShapeDesc,
+  PhysicsQueries,
+  QueryFilter,
+  QueryTarget,
+  RayHit,
+  ShapeCast,
+  ShapeHit
+} from "./physics/queries";
+export { noopQueries } from "./physics/queries";
+export type {
+  ContactEvent,
+  ContactForce,
+  ContactForceEvent,
+  ContactPair,
+  PhysicsEvents,
+  SensorEvent
+} from "./physics/events";
+export { noopEvents, otherCollider } from "./physics/events";
+export { RapierPhysicsModule, createRapierPhysics, isRapierPhysics } from "./physics/RapierPhysicsModule";
+export type { RapierSnapshot } from "./physics/RapierPhysicsModule";
+export { RapierQueries } from "./physics/RapierQueries";
+export { RapierEvents } from "./physics/RapierEvents";
+export type {
+  CharacterControllerOptions,
+  CharacterControllerSystemOptions,
+  CharacterIntent,
+  CharacterState
+} from "./physics/CharacterController";
+export {
+  CharacterController,
+  createCharacterController,
+  createCharacterControllerSystem
+} from "./physics/CharacterController";
+export type { RapierPhysicsOptions } from "./physics/RapierPhysicsModule";
+export type { CollisionLayersConfig } from "./physics/layers";
+export { CollisionLayers, MAX_COLLISION_LAYERS, createCollisionLayers, interactionGroups } from "./physics/layers";
+
+export type { Pose, PoseInterpolatorOptions, PoseSource, PoseTarget } from "./render/PoseInterpolator";
+export { PoseInterpolator, createPoseInterpolator } from "./render/PoseInterpolator";
+
+export type { Level, LevelContext, LevelPhase, LevelStatus, LevelTransition } from "./level/LevelManager";
+export { LEVEL_STATUS, LevelManager, createLevelManager } from "./level/LevelManager";
 
 export { World, createStateKey } from "./world/World";
-export type { StateKey } from "./world/World";
+export type { DefaultedStateKey, StateKey, StateKeyOptions, StateListener } from "./world/World";
+export type { StateSerializer, WorldSnapshot } from "./world/snapshot";
+export { WORLD_SNAPSHOT_VERSION, isPlainData } from "./world/snapshot";
+export type { EntitiesState, Entity, EntityHook, EntityPoolOptions, SpawnDesc } from "./world/entities";
+export { WorldEntities } from "./world/entities";
+export type { RandomState } from "./world/random";
+export { RandomStream, WorldRandom, randomSeed } from "./world/random";
 
+export type { SaveFile, SaveManagerOptions, SaveMigration } from "./save/SaveManager";
+export { SAVE_FORMAT, SaveManager, createSaveManager } from "./save/SaveManager";
+export type {
+  FileStorageOptions,
+  FileSystemLike,
+  IndexedDbStorageOptions,
+  LocalStorageOptions,
+  SaveStorage,
+  StorageLike
+} from "./save/storage";
+export { createFileStorage, createIndexedDbStorage, createLocalStorage, createMemoryStorage } from "./save/storage";
+
+export type { InputDevice } from "./input/device";
+export { InputDevices, applyRadialDeadzone, readInputValue } from "./input/device";
 export type { KeyboardInput } from "./input/keyboard";
 export { createKeyboardInput } from "./input/keyboard";
+export type { GamepadInput, GamepadInputOptions, GamepadLike } from "./input/gamepad";
+export { GAMEPAD_BUTTONS, createGamepadInput } from "./input/gamepad";
+export type { PointerInput, PointerInputOptions } from "./input/pointer";
+export { createPointerInput } from "./input/pointer";
+export type { TouchInput, TouchInputOptions, TouchStickState, TouchZone } from "./input/touch";
+export { createTouchInput } from "./input/touch";
+export type { ScriptedInput, ScriptedInputStep } from "./input/scripted";
+export { createScriptedInput } from "./input/scripted";
+export type { AxisBinding, InputBindings, InputSource } from "./input/InputMap";
+export { INPUT_BINDINGS_VERSION, InputMap, createInputMap } from "./input/InputMap";
+
+export type { ReplayChecksum, ReplayFile, ReplayTick } from "./replay/format";
+export { REPLAY_VERSION, parseReplay, serializeReplay } from "./replay/format";
+export type { WorldChecksumOptions } from "./replay/checksum";
+export { fnv1a, stableStringify, worldChecksum } from "./replay/checksum";
+export type { ReplayRecorderOptions } from "./replay/ReplayRecorder";
+export { ReplayRecorder, createReplayRecorder } from "./replay/ReplayRecorder";
+export type { ReplayDivergence, ReplayPlayerOptions, ReplayRunResult } from "./replay/ReplayPlayer";
+export { ReplayPlayer, createReplayPlayer, runReplay } from "./replay/ReplayPlayer";
+
+export type { HeadlessRunner, HeadlessRunnerMode, HeadlessRunnerOptions } from "./headless/HeadlessRunner";
+export { createHeadlessRunner } from "./headless/HeadlessRunner";
 
 export { EngineLoop } from "./react/EngineLoop";
 export { EngineContainer } from "./react/EngineContainer";
+export { useSystem } from "./react/useSystem";
+export { ErisBody, useErisBody } from "./react/ErisBody";
+export { EngineProvider, useEngine, useEngineStatus } from "./react/EngineContext";
+export { shallowEqual, useWorldState } from "./react/useWorldState";
+export { useTick } from "./react/useTick";
+export type { EngineProviderProps, EngineStatusValue } from "./react/EngineContext";
+export type { WorldStateOptions } from "./react/useWorldState";
+export type { TickCallback, TickOptions } from "./react/useTick";
+export type { ErisBodyDesc, ErisBodyProps } from "./react/ErisBody";
 export type { EngineContainerProps, EngineContainerStatus } from "./react/EngineContainer";
 
@@ -0,0 +1,218 @@
+import type { System } from "../engine/system";
+import { readInputValue, type InputDevice } from "./device";
+
+/**
+ * Anything that can report controls by code (e.g. `"KeyW"`): a single device or the combined
+ * `world.input`.
+ */
+export type InputSource = Pick<InputDevice, "isDown" | "value">;
+
+/**
+ * An axis composed from controls: the strongest `positive` value minus the strongest
+ * `negative` one. Keys give -1/0/1; analog controls (`"GamepadLeftStickRight"`) give fractions.
+ */
+export interface AxisBinding {
+  negative: string[];
+  positive: string[];
+}
+
+export interface InputBindings<A extends string = string, X extends string = string> {
+  actions: Record<A, string[]>;
+  axes?: Record<X, AxisBinding>;
+}
+
+/** Bumped whenever the serialized bindings layout changes incompatibly. */
+export const INPUT_BINDINGS_VERSION = 1;
+
+type SerializedBindings = { version: number; actions: Record<string, string[]>; axes: Record<string, AxisBinding> };
+
+function cloneBindings<A extends string, X extends string>(b: InputBindings<A, X>): InputBindings<A, X> {
+  const actions = {} as Record<A, string[]>;
+  for (const name of Object.keys(b.actions) as A[]) actions[name] = [...b.actions[name]];
+
+  const axes = {} as Record<X, AxisBinding>;
+  for (const name of Object.keys(b.axes ?? {}) as X[]) {
+    const axis = b.axes![name];
+    axes[name] = { negative: [...axis.negative], positive: [...axis.positive] };
+  }
+
+  return { actions, axes };
+}
+
+function isCodeList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function anyDown(source: InputSource | undefined, codes: readonly string[]): boolean {
+  if (!source) return false;
+  for (const code of codes) if (source.isDown(code)) return true;
+  return false;
+}
+
+function maxValue(source: InputSource | undefined, codes: readonly string[]): number {
+  if (!source) return 0;
+  let max = 0;
+  for (const code of codes) max = Math.max(max, Math.abs(readInputValue(source, code)));
+  return Math.min(1, max);
+}
+
+/**
+ * Named actions (buttons) and axes on top of device control codes.
+ *
+ * `update(source)` samples every binding (typically once per frame in `preFrame`). Held state
+ * follows the latest sample; `pressed` / `released` edges are latched until `endTick()`, which
+ * must run at the end of each fixed tick (e.g. from a `postPhysicsFixed` system). That way
+ * every edge is observed by exactly one fixed tick: frames without a tick don't lose it and
+ * frames with several ticks don't repeat it.
+ *
+ * `systems()` registers both calls; without them (or your own), edges never clear.
+ */
+export class InputMap<A extends string = string, X extends string = string> {
+  private readonly defaults: InputBindings<A, X>;
+  private bindings: InputBindings<A, X>;
+
+  private readonly down = new Set<A>();
+  private readonly pressedEdges = new Set<A>();
+  private readonly releasedEdges = new Set<A>();
+  private readonly axisValues = new Map<X, number>();
+
+  constructor(bindings: InputBindings<A, X>) {
+    this.defaults = cloneBindings(bindings);
+    this.bindings = cloneBindings(bindings);
+  }
+
+  get actions(): A[] {
+    return Object.keys(this.bindings.actions) as A[];
+  }
+
+  get axes(): X[] {
+    return Object.keys(this.bindings.axes ?? {}) as X[];
+  }
+
+  /** Sample all bindings. A missing source counts as "nothing held". */
+  update(source: InputSource | undefined): void {
+    for (const action of this.actions) {
+      const isDown = anyDown(source, this.bindings.actions[action]);
+      const wasDown = this.down.has(action);
+
+      if (isDown && !wasDown) {
+        this.down.add(action);
+        this.pressedEdges.add(action);
+      } else if (!isDown && wasDown) {
+        this.down.delete(action);
+        this.releasedEdges.add(action);
+      }
+    }
+
+    for (const axis of this.axes) {
+      const b = this.bindings.axes![axis];
+      this.axisValues.set(axis, maxValue(source, b.positive) - maxValue(source, b.negative));
+    }
+  }
+
+  /** Clear latched edges; call once at the end of every fixed tick. */
+  endTick(): void {
+    this.pressedEdges.clear();
+    this.releasedEdges.clear();
+  }
+
+  held(action: A): boolean {
+    return this.down.has(action);
+  }
+
+  /** Became held since the last `endTick()`. */
+  pressed(action: A): boolean {
+    return this.pressedEdges.has(action);
+  }
+
+  /** Stopped being held since the last `endTick()`. */
+  released(action: A): boolean {
+    return this.releasedEdges.has(action);
+  }
+
+  /** In [-1..1]. */
+  axis(axis: X): number {
+    return this.axisValues.get(axis) ?? 0;
+  }
+
+  getBindings(): InputBindings<A, X> {
+    return cloneBindings(this.bindings);
+  }
+
+  rebindAction(action: A, codes: readonly string[]): void {
+    if (!(action in this.bindings.actions)) throw new Error(`InputMap: unknown action "${action}"`);
+    this.bindings.actions[action] = [...codes];
+  }
+
+  rebindAxis(axis: X, binding: AxisBinding): void {
+    if (!this.bindings.axes || !(axis in this.bindings.axes)) throw new Error(`InputMap: unknown axis "${axis}"`);
+    this.bindings.axes[axis] = { negative: [...binding.negative], positive: [...binding.positive] };
+  }
+
+  /**
+   * Systems that sample `world.input` at the start of every frame (`preFrame`, before scene
+   * systems) and clear the edges after every fixed tick (`postPhysicsFixed`, last). Names are
+   * `${name}.update` / `${name}.endTick`; `name` defaults to "input.map".
+   */
+  systems(name = "input.map"): System[] {
+    return [
+      {
+        name: `${name}.update`,
+        phase: "preFrame",
+        order: Number.MIN_SAFE_INTEGER,
+        run: (world) => this.update(world.input)
+      },
+      {
+        name: `${name}.endTick`,
+        phase: "postPhysicsFixed",
+        order: Number.MAX_SAFE_INTEGER,
+        run: () => this.endTick()
+      }
+    ];
+  }
+
+  /** Restore the bindings the map was created with. */
+  resetBindings(): void {
+    this.bindings = cloneBindings(this.defaults);
+  }
+
+  /** Versioned JSON (e.g. for localStorage). */
+  serializeBindings(): string {
+    const { actions, axes } = this.getBindings();
+    const data: SerializedBindings = { version: INPUT_BINDINGS_VERSION, actions, axes: axes ?? {} };
+    return JSON.stringify(data);
+  }
+
+  /**
+   * Apply bindings produced by `serializeBindings()`. Entries for unknown actions/axes are
+   * ignored and missing ones keep their current binding, so saved bindings survive games
+   * adding or removing actions.
+   */
+  loadBindings(json: string): void {
+    const data = JSON.parse(json) as Partial<SerializedBindings> | null;
+    if (!data || typeof data !== "object") throw new Error("InputMap.loadBindings: expected a JSON object");
+    if (data.version !== INPUT_BINDINGS_VERSION) {
+      throw new Error(`Unsupported input bindings version: ${data.version} (expected ${INPUT_BINDINGS_VERSION})`);
+    }
+
+    for (const [name, codes] of Object.entries(data.actions ?? {})) {
+      if (!(name in this.bindings.actions)) continue;
+      if (!isCodeList(codes)) throw new Error(`InputMap.loadBindings: invalid codes for action "${name}"`);
+      this.bindings.actions[name as A] = [...codes];
+    }
+
+    for (const [name, axis] of Object.entries(data.axes ?? {})) {
+      if (!this.bindings.axes || !(name in this.bindings.axes)) continue;
+      if (!axis || !isCodeList(axis.negative) || !isCodeList(axis.positive)) {
+        throw new Error(`InputMap.loadBindings: invalid binding for axis "${name}"`);
+      }
+      this.bindings.axes[name as X] = { negative: [...axis.negative], positive: [...axis.positive] };
+    }
+  }
+}
+
+export function createInputMap<A extends string, X extends string = never>(
+  bindings: InputBindings<A, X>
+): InputMap<A, X> {
+  return new InputMap(bindings);
+}
@@ -0,0 +1,80 @@
+/**
+ * Device-agnostic input. Every device (keyboard, gamepad, pointer, touch, scripted) reports
+ * controls by string code, e.g. `"KeyW"`, `"GamepadA"`, `"Mouse0"`, `"TouchStickX"`.
+ */
+export interface InputDevice {
+  /** Digital state of a control. */
+  isDown(code: string): boolean;
+  /**
+   * Analog state of a control: [-1..1] for full axes (`"GamepadLeftStickX"`), [0..1] for
+   * buttons, triggers and half axes (`"GamepadLeftStickRight"`). Digital-only devices may omit it.
+   */
+  value?(code: string): number;
+  /** Sample the underlying API or latch accumulated events; called once per frame before `preFrame`. */
+  poll?(): void;
+  dispose(): void;
+}
+
+/** `value(code)` with a digital fallback (1 when down, else 0). */
+export function readInputValue(device: Pick<InputDevice, "isDown" | "value">, code: string): number {
+  return device.value ? device.value(code) : device.isDown(code) ? 1 : 0;
+}
+
+/** Radial deadzone: returns (0, 0) inside `deadzone`, and rescales the rest to [0..1] magnitude. */
+export function applyRadialDeadzone(x: number, y: number, deadzone: number): { x: number; y: number } {
+  const len = Math.hypot(x, y);
+  if (len <= deadzone || len === 0) return { x: 0, y: 0 };
+  const scaled = Math.min(1, (len - deadzone) / (1 - deadzone));
+  return { x: (x / len) * scaled, y: (y / len) * scaled };
+}
+
+/**
+ * The devices attached to an engine (`world.input`), presented as one combined device: a
+ * control is down if it is down on any device, and its value is the one with the largest
+ * magnitude.
+ */
+export class InputDevices implements InputDevice {
+  private devices: InputDevice[] = [];
+
+  /** Attach a device. Returns a function that detaches it (without disposing it). */
+  add(device: InputDevice): () => void {
+    if (!this.devices.includes(device)) this.devices = [...this.devices, device];
+    return () => void this.remove(device);
+  }
+
+  remove(device: InputDevice): boolean {
+    const next = this.devices.filter((d) => d !== device);
+    if (next.length === this.devices.length) return false;
+    this.devices = next;
+    return true;
+  }
+
+  list(): readonly InputDevice[] {
+    return this.devices;
+  }
+
+  poll(): void {
+    for (const d of this.devices) d.poll?.();
+  }
+
+  isDown(code: string): boolean {
+    for (const d of this.devices) if (d.isDown(code)) return true;
+    return false;
+  }
+
+  value(code: string): number {
+    let best = 0;
+    for (const d of this.devices) {
+      const v = readInputValue(d, code);
+      if (Math.abs(v) > Math.abs(best)) best = v;
+    }
+    return best;
+  }
+
+  /** Dispose and detach every device. */
+  dispose(): void {
+    const devices = this.devices;
+    this.devices = [];
+    for (const d of devices) d.dispose();
+  }
+}
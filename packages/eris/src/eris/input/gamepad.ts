@@ -0,0 +1,127 @@
+import { applyRadialDeadzone, type InputDevice } from "./device";
+
+/** Button codes in Gamepad API "standard" mapping order. */
+export const GAMEPAD_BUTTONS = [
+  "GamepadA",
+  "GamepadB",
+  "GamepadX",
+  "GamepadY",
+  "GamepadLB",
+  "GamepadRB",
+  "GamepadLT",
+  "GamepadRT",
+  "GamepadBack",
+  "GamepadStart",
+  "GamepadLS",
+  "GamepadRS",
+  "GamepadDpadUp",
+  "GamepadDpadDown",
+  "GamepadDpadLeft",
+  "GamepadDpadRight",
+  "GamepadHome"
+] as const;
+
+/** The parts of the Gamepad API this device reads (easy to fake in tests). */
+export interface GamepadLike {
+  readonly connected: boolean;
+  readonly buttons: readonly { readonly pressed: boolean; readonly value: number }[];
+  readonly axes: readonly number[];
+}
+
+export interface GamepadInputOptions {
+  /** Which pad (`navigator.getGamepads()[index]`). Defaults to 0. */
+  index?: number;
+  /** Radial stick deadzone in [0..1). Defaults to 0.15. */
+  deadzone?: number;
+  /** Half-axis codes (`"GamepadLeftStickRight"`, ...) count as down above this. Defaults to 0.5. */
+  pressThreshold?: number;
+  /** Defaults to `navigator.getGamepads()`. */
+  getGamepads?: () => readonly (GamepadLike | null)[];
+}
+
+export interface GamepadInput extends InputDevice {
+  readonly connected: boolean;
+  poll(): void;
+}
+
+function defaultGetGamepads(): readonly (GamepadLike | null)[] {
+  if (typeof navigator === "undefined" || typeof navigator.getGamepads !== "function") return [];
+  return navigator.getGamepads();
+}
+
+/**
+ * Gamepad API device. The Gamepad API has no events for buttons/axes, so state is sampled in
+ * `poll()` (once per frame, before `preFrame`).
+ *
+ * Codes:
+ * - buttons: `GAMEPAD_BUTTONS` (value is the analog button value, e.g. for triggers)
+ * - sticks: `GamepadLeftStickX/Y`, `GamepadRightStickX/Y` in [-1..1] after the radial deadzone
+ *   (+Y is down, as reported by the API)
+ * - half axes for binding to actions/composite axes: `GamepadLeftStickLeft/Right/Up/Down`,
+ *   `GamepadRightStickLeft/Right/Up/Down` in [0..1]
+ */
+export function createGamepadInput(opts: GamepadInputOptions = {}): GamepadInput {
+  const index = opts.index ?? 0;
+  const deadzone = opts.deadzone ?? 0.15;
+  const pressThreshold = opts.pressThreshold ?? 0.5;
+  const getGamepads = opts.getGamepads ?? defaultGetGamepads;
+
+  if (!(deadzone >= 0 && deadzone < 1)) {
+    throw new Error(`GamepadInput.deadzone must be in [0..1) (got: ${deadzone})`);
+  }
+
+  const values = new Map<string, number>();
+  const down = new Set<string>();
+  let connected = false;
+
+  const setStick = (name: "Left" | "Right", rawX: number, rawY: number) => {
+    const { x, y } = applyRadialDeadzone(rawX, rawY, deadzone);
+    const halves: [string, number][] = [
+      [`Gamepad${name}StickLeft`, Math.max(0, -x)],
+      [`Gamepad${name}StickRight`, Math.max(0, x)],
+      [`Gamepad${name}StickUp`, Math.max(0, -y)],
+      [`Gamepad${name}StickDown`, Math.max(0, y)]
+    ];
+
+    values.set(`Gamepad${name}StickX`, x);
+    values.set(`Gamepad${name}StickY`, y);
+    for (const [code, v] of halves) {
+      values.set(code, v);
+      if (v > pressThreshold) down.add(code);
+    }
+  };
+
+  return {
+    get connected() {
+      return connected;
+    },
+    poll() {
+      values.clear();
+      down.clear();
+
+      const pad = getGamepads()[index];
+      connected = !!pad && pad.connected;
+      if (!pad || !connected) return;
+
+      pad.buttons.forEach((button, i) => {
+        const code = GAMEPAD_BUTTONS[i] ?? `GamepadButton${i}`;
+        values.set(code, button.value);
+        if (button.pressed) down.add(code);
+      });
+
+      setStick("Left", pad.axes[0] ?? 0, pad.axes[1] ?? 0);
+      setStick("Right", pad.axes[2] ?? 0, pad.axes[3] ?? 0);
+    },
+    isDown(code) {
+      return down.has(code);
+    },
+    value(code) {
+      return values.get(code) ?? 0;
+    },
+    dispose() {
+      values.clear();
+      down.clear();
+      connected = false;
+    }
+  };
+}
@@ -1,4 +1,6 @@
-export interface KeyboardInput {
+import type { InputDevice } from "./device";
+
+export interface KeyboardInput extends InputDevice {
   isDown(code: string): boolean;
   dispose(): void;
 }
@@ -18,6 +20,9 @@ export function createKeyboardInput(target: Window = window): KeyboardInput {
     isDown(code: string) {
       return down.has(code);
     },
+    value(code: string) {
+      return down.has(code) ? 1 : 0;
+    },
     dispose() {
       target.removeEventListener("keydown", onKeyDown);
       target.removeEventListener("keyup", onKeyUp);
@@ -26,4 +31,3 @@ export function createKeyboardInput(target: Window = window): KeyboardInput {
     }
   };
 }
-
@@ -0,0 +1,118 @@
+import type { InputDevice } from "./device";
+
+export interface PointerInputOptions {
+  /** Request pointer lock on the target when it is clicked. Defaults to false. */
+  lockOnClick?: boolean;
+}
+
+export interface PointerInput extends InputDevice {
+  /** True while the target holds the pointer lock. */
+  readonly locked: boolean;
+  requestPointerLock(): void;
+  exitPointerLock(): void;
+  poll(): void;
+}
+
+/**
+ * Mouse / pen / touch pointer device (Pointer Events).
+ *
+ * Codes:
+ * - buttons: `Mouse0` (primary), `Mouse1` (middle), `Mouse2` (secondary), `Mouse3`, `Mouse4`
+ * - `PointerX` / `PointerY`: last position in client pixels
+ * - `PointerDeltaX` / `PointerDeltaY`: movement accumulated during the previous frame
+ *   (uses `movementX/Y`, so it keeps working under pointer lock)
+ * - `WheelY`: wheel delta accumulated during the previous frame
+ *
+ * Deltas accumulate between polls and are latched by `poll()`, so every frame sees exactly
+ * the movement that happened since the previous frame.
+ */
+export function createPointerInput(target: HTMLElement, opts: PointerInputOptions = {}): PointerInput {
+  const doc = target.ownerDocument;
+  const win = doc.defaultView;
+
+  const buttons = new Set<number>();
+  let x = 0;
+  let y = 0;
+  let pendingDx = 0;
+  let pendingDy = 0;
+  let pendingWheel = 0;
+  let dx = 0;
+  let dy = 0;
+  let wheel = 0;
+
+  const onDown = (e: PointerEvent) => {
+    buttons.add(e.button);
+    if (opts.lockOnClick && doc.pointerLockElement !== target) target.requestPointerLock?.();
+  };
+  const onUp = (e: PointerEvent) => buttons.delete(e.button);
+  const onMove = (e: PointerEvent) => {
+    x = e.clientX;
+    y = e.clientY;
+    pendingDx += e.movementX ?? 0;
+    pendingDy += e.movementY ?? 0;
+  };
+  const onWheel = (e: WheelEvent) => {
+    pendingWheel += e.deltaY;
+  };
+  const onBlur = () => buttons.clear();
+  const onContextMenu = (e: Event) => e.preventDefault();
+
+  target.addEventListener("pointerdown", onDown);
+  target.addEventListener("contextmenu", onContextMenu);
+  target.addEventListener("wheel", onWheel, { passive: true });
+  // Releases and movement are tracked on the window so drags that leave the target still end.
+  win?.addEventListener("pointerup", onUp);
+  win?.addEventListener("pointermove", onMove);
+  win?.addEventListener("blur", onBlur);
+
+  const valueOf = (code: string): number => {
+    switch (code) {
+      case "PointerX":
+        return x;
+      case "PointerY":
+        return y;
+      case "PointerDeltaX":
+        return dx;
+      case "PointerDeltaY":
+        return dy;
+      case "WheelY":
+        return wheel;
+      default:
+        return code.startsWith("Mouse") && buttons.has(Number(code.slice(5))) ? 1 : 0;
+    }
+  };
+
+  return {
+    get locked() {
+      return doc.pointerLockElement === target;
+    },
+    requestPointerLock() {
+      target.requestPointerLock?.();
+    },
+    exitPointerLock() {
+      if (doc.pointerLockElement === target) doc.exitPointerLock?.();
+    },
+    poll() {
+      dx = pendingDx;
+      dy = pendingDy;
+      wheel = pendingWheel;
+      pendingDx = 0;
+      pendingDy = 0;
+      pendingWheel = 0;
+    },
+    isDown(code) {
+      return code.startsWith("Mouse") && buttons.has(Number(code.slice(5)));
+    },
+    value: valueOf,
+    dispose() {
+      target.removeEventListener("pointerdown", onDown);
+      target.removeEventListener("contextmenu", onContextMenu);
+      target.removeEventListener("wheel", onWheel);
+      win?.removeEventListener("pointerup", onUp);
+      win?.removeEventListener("pointermove", onMove);
+      win?.removeEventListener("blur", onBlur);
+      buttons.clear();
+      if (doc.pointerLockElement === target) doc.exitPointerLock?.();
+    }
+  };
+}
@@ -0,0 +1,74 @@
+import type { InputDevice } from "./device";
+
+/** Changes applied by the scripted device when it is polled for frame `frame` (0-based). */
+export interface ScriptedInputStep {
+  frame: number;
+  press?: string[];
+  release?: string[];
+  /** Analog values; a non-zero value also makes the code down. */
+  set?: Record<string, number>;
+}
+
+export interface ScriptedInput extends InputDevice {
+  /** Number of `poll()` calls so far. */
+  readonly frame: number;
+  press(...codes: string[]): void;
+  release(...codes: string[]): void;
+  setValue(code: string, value: number): void;
+  /** Release everything and clear analog values. */
+  clear(): void;
+  poll(): void;
+}
+
+/**
+ * A fake device for tests, replays and bots. Drive it imperatively (`press`, `release`,
+ * `setValue`) or with a frame-indexed script applied on each `poll()`.
+ */
+export function createScriptedInput(script: readonly ScriptedInputStep[] = []): ScriptedInput {
+  const down = new Set<string>();
+  const values = new Map<string, number>();
+  let frame = 0;
+
+  const device: ScriptedInput = {
+    get frame() {
+      return frame;
+    },
+    press(...codes) {
+      for (const c of codes) down.add(c);
+    },
+    release(...codes) {
+      for (const c of codes) {
+        down.delete(c);
+        values.delete(c);
+      }
+    },
+    setValue(code, value) {
+      if (value === 0) values.delete(code);
+      else values.set(code, value);
+    },
+    clear() {
+      down.clear();
+      values.clear();
+    },
+    poll() {
+      for (const step of script) {
+        if (step.frame !== frame) continue;
+        device.press(...(step.press ?? []));
+        device.release(...(step.release ?? []));
+        for (const [code, value] of Object.entries(step.set ?? {})) device.setValue(code, value);
+      }
+      frame += 1;
+    },
+    isDown(code) {
+      return down.has(code) || (values.get(code) ?? 0) !== 0;
+    },
+    value(code) {
+      return values.get(code) ?? (down.has(code) ? 1 : 0);
+    },
+    dispose() {
+      device.clear();
+    }
+  };
+
+  return device;
+}
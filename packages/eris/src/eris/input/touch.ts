@@ -0,0 +1,157 @@
+import type { InputDevice } from "./device";
+
+/** A screen region in normalized target coordinates ([0..1], origin top-left). */
+export interface TouchZone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TouchInputOptions {
+  /**
+   * Floating virtual stick: a touch that starts in `zone` becomes the stick origin. Reported as
+   * `TouchStickX/Y` in [-1..1] (+Y is down) and half axes `TouchStickLeft/Right/Up/Down` in [0..1].
+   */
+  stick?: { zone: TouchZone; /** Pixels for full deflection. Defaults to 60. */ radius?: number };
+  /** Virtual buttons by code (e.g. `{ TouchJump: {...} }`); down while a touch that started in the zone is held. */
+  buttons?: Record<string, TouchZone>;
+  /** Half-axis codes count as down above this. Defaults to 0.5. */
+  pressThreshold?: number;
+  /** Pointer types handled. Defaults to `["touch"]`. */
+  pointerTypes?: readonly string[];
+  /** Target rect in client pixels. Defaults to `target.getBoundingClientRect()`. */
+  getRect?: () => { left: number; top: number; width: number; height: number };
+}
+
+export interface TouchStickState {
+  active: boolean;
+  /** Origin and current touch position in client pixels (for drawing the stick). */
+  originX: number;
+  originY: number;
+  x: number;
+  y: number;
+}
+
+export interface TouchInput extends InputDevice {
+  readonly stick: Readonly<TouchStickState>;
+}
+
+type ActiveTouch = { kind: "stick" } | { kind: "button"; code: string };
+
+function inZone(zone: TouchZone, nx: number, ny: number): boolean {
+  return nx >= zone.x && nx <= zone.x + zone.width && ny >= zone.y && ny <= zone.y + zone.height;
+}
+
+/**
+ * Touch controls (virtual stick and buttons) built on Pointer Events, so multi-touch is
+ * tracked per `pointerId`. Each touch belongs to the control it started on until it ends.
+ */
+export function createTouchInput(target: HTMLElement, opts: TouchInputOptions = {}): TouchInput {
+  const radius = opts.stick?.radius ?? 60;
+  const pressThreshold = opts.pressThreshold ?? 0.5;
+  const pointerTypes = opts.pointerTypes ?? ["touch"];
+  const getRect = opts.getRect ?? (() => target.getBoundingClientRect());
+  const buttonZones = Object.entries(opts.buttons ?? {});
+
+  const touches = new Map<number, ActiveTouch>();
+  const stick: TouchStickState = { active: false, originX: 0, originY: 0, x: 0, y: 0 };
+  let stickPointer: number | null = null;
+
+  const handles = (e: PointerEvent) => pointerTypes.includes(e.pointerType);
+
+  const stickAxes = () => {
+    if (!stick.active) return { x: 0, y: 0 };
+    const dx = stick.x - stick.originX;
+    const dy = stick.y - stick.originY;
+    const len = Math.hypot(dx, dy);
+    const scale = len > radius ? radius / len : 1;
+    return { x: (dx * scale) / radius, y: (dy * scale) / radius };
+  };
+
+  const onDown = (e: PointerEvent) => {
+    if (!handles(e)) return;
+    const rect = getRect();
+    const nx = (e.clientX - rect.left) / rect.width;
+    const ny = (e.clientY - rect.top) / rect.height;
+
+    if (opts.stick && stickPointer === null && inZone(opts.stick.zone, nx, ny)) {
+      stickPointer = e.pointerId;
+      touches.set(e.pointerId, { kind: "stick" });
+      Object.assign(stick, { active: true, originX: e.clientX, originY: e.clientY, x: e.clientX, y: e.clientY });
+      return;
+    }
+
+    for (const [code, zone] of buttonZones) {
+      if (inZone(zone, nx, ny)) {
+        touches.set(e.pointerId, { kind: "button", code });
+        return;
+      }
+    }
+  };
+
+  const onMove = (e: PointerEvent) => {
+    if (e.pointerId !== stickPointer) return;
+    stick.x = e.clientX;
+    stick.y = e.clientY;
+  };
+
+  const onEnd = (e: PointerEvent) => {
+    if (!touches.delete(e.pointerId)) return;
+    if (e.pointerId === stickPointer) {
+      stickPointer = null;
+      stick.active = false;
+    }
+  };
+
+  const reset = () => {
+    touches.clear();
+    stickPointer = null;
+    stick.active = false;
+  };
+
+  target.addEventListener("pointerdown", onDown);
+  target.addEventListener("pointermove", onMove);
+  target.addEventListener("pointerup", onEnd);
+  target.addEventListener("pointercancel", onEnd);
+
+  const value = (code: string): number => {
+    const a = stickAxes();
+    switch (code) {
+      case "TouchStickX":
+        return a.x;
+      case "TouchStickY":
+        return a.y;
+      case "TouchStickLeft":
+        return Math.max(0, -a.x);
+      case "TouchStickRight":
+        return Math.max(0, a.x);
+      case "TouchStickUp":
+        return Math.max(0, -a.y);
+      case "TouchStickDown":
+        return Math.max(0, a.y);
+    }
+    for (const t of touches.values()) if (t.kind === "button" && t.code === code) return 1;
+    return 0;
+  };
+
+  return {
+    get stick() {
+      return stick;
+    },
+    isDown(code) {
+      if (code.startsWith("TouchStick")) {
+        return code !== "TouchStickX" && code !== "TouchStickY" && value(code) > pressThreshold;
+      }
+      return value(code) > 0;
+    },
+    value,
+    dispose() {
+      target.removeEventListener("pointerdown", onDown);
+      target.removeEventListener("pointermove", onMove);
+      target.removeEventListener("pointerup", onEnd);
+      target.removeEventListener("pointercancel", onEnd);
+      reset();
+    }
+  };
+}
@@ -0,0 +1,329 @@
+import type { Engine } from "../engine/Engine";
+import type { System, SystemHandle } from "../engine/system";
+import { isRapierPhysics, type RapierPhysicsModule } from "../physics/RapierPhysicsModule";
+import type { BodyDesc, BodyHandle, ColliderDesc, ColliderHandle } from "../physics/types";
+import { createStateKey, type StateKey, type World } from "../world/World";
+
+/**
+ * A unit of content with a controlled lifetime: its systems, physics content and state exist
+ * from `LevelManager.load()` until the level is unloaded (or replaced by the next one).
+ */
+export interface Level {
+  name: string;
+  /**
+   * State keys owned by the level: declared on load (unless already declared) and deleted on
+   * unload. Keys that held a value before the load get it back instead.
+   */
+  state?: readonly StateKey<any>[];
+  /**
+   * Systems registered once loading has finished and unregistered on unload. A factory, so
+   * every load gets fresh instances.
+   */
+  systems?: () => readonly System[];
+  /**
+   * Build the level's content. Physics content and state created through `ctx` is tracked and
+   * removed on unload. May be async; report progress with `ctx.progress()`.
+   */
+  load?(ctx: LevelContext): void | Promise<void>;
+}
+
+export interface LevelContext {
+  readonly engine: Engine;
+  readonly world: World;
+  /** The engine's physics when it is a ready `RapierPhysicsModule`, else null. */
+  readonly physics: RapierPhysicsModule | null;
+  /** True once another `load()` / `unload()` superseded this load; long loads can stop early. */
+  readonly cancelled: boolean;
+  /** Loading progress in [0..1], published in `LevelStatus.progress`. */
+  progress(value: number): void;
+  /** Create a body, removed (with its colliders) on unload. */
+  createBody(desc: BodyDesc): BodyHandle;
+  /** Create a collider, removed on unload (with its parent body, when it has one). */
+  createCollider(desc: ColliderDesc, parent?: BodyHandle): ColliderHandle;
+  /** Set a state entry, deleted on unload (or restored, if it held a value before the load). */
+  set<T>(key: string | StateKey<T>, value: T): void;
+  /** Run `fn` on unload, before tracked content is removed. Last registered runs first. */
+  onUnload(fn: () => void): void;
+}
+
+export type LevelPhase = "idle" | "fadingOut" | "loading" | "fadingIn" | "ready" | "error";
+
+export interface LevelStatus {
+  phase: LevelPhase;
+  /** The current level, or the one being loaded. */
+  level: string | null;
+  /** Loading progress in [0..1]. */
+  progress: number;
+  /** How much the transition covers the view: 0 = not at all, 1 = fully (draw a fade with it). */
+  cover: number;
+  /** Message of the error that failed the last load. */
+  error: string | null;
+}
+
+export interface LevelTransition {
+  /** Seconds to cover the view before unloading. Defaults to 0. */
+  fadeOut?: number;
+  /** Seconds to uncover it once the next level is ready. Defaults to 0. */
+  fadeIn?: number;
+}
+
+/** Where `LevelManager` publishes its status (transient). */
+export const LEVEL_STATUS = createStateKey<LevelStatus>("eris.level", {
+  default: { phase: "idle", level: null, progress: 0, cover: 0, error: null },
+  transient: true
+});
+
+type Loaded = {
+  level: Level;
+  systems: SystemHandle[];
+  bodies: BodyHandle[];
+  colliders: ColliderHandle[];
+  /** Keys the level wrote, with what they held before the load. */
+  keys: Map<string, { had: boolean; value: unknown }>;
+  /** Keys the level declared, and whether they were transient before. */
+  declared: { key: string; transient: boolean }[];
+  unloaders: (() => void)[];
+};
+
+type Fade = { target: number; speed: number; done: (reached: boolean) => void };
+
+/**
+ * Loads and unloads levels on an engine (`engine.levels`), one at a time.
+ *
+ * A transition covers the view (`fadeOut`, driven by frames), unloads the current level,
+ * loads the next one, registers its systems and uncovers the view again (`fadeIn`). Progress
+ * is published in `LEVEL_STATUS`. Starting a transition supersedes a running one: its level
+ * is torn down as soon as its load returns, and its `load()` resolves to false.
+ */
+export class LevelManager {
+  private readonly engine: Engine;
+  private loaded: Loaded | null = null;
+  private generation = 0;
+  private fade: Fade | null = null;
+  private fadeSystem: SystemHandle | null = null;
+
+  constructor(engine: Engine) {
+    this.engine = engine;
+  }
+
+  /** Name of the loaded level, or null. */
+  get current(): string | null {
+    return this.loaded?.level.name ?? null;
+  }
+
+  get status(): LevelStatus {
+    return this.engine.world.getKey(LEVEL_STATUS);
+  }
+
+  /**
+   * Replace the current level with `level`. Resolves to true once it is ready, or false if
+   * another transition superseded this one. Rejects (phase "error") when `engine.init()`,
+   * `level.load` or registering its systems fails; whatever it created until then is removed
+   * again.
+   */
+  async load(level: Level, transition: LevelTransition = {}): Promise<boolean> {
+    const gen = ++this.generation;
+    const current = this.status;
+    this.setStatus({ phase: "fadingOut", level: level.name, progress: 0, cover: current.cover, error: null });
+
+    if (!(await this.fadeTo(1, transition.fadeOut ?? 0, gen))) return false;
+    this.teardown();
+    this.setStatus({ ...this.status, phase: "loading" });
+
+    const loaded: Loaded = { level, systems: [], bodies: [], colliders: [], keys: new Map(), declared: [], unloaders: [] };
+    try {
+      await this.engine.init();
+      if (gen !== this.generation) return false;
+
+      this.declare(loaded, level.state ?? []);
+      await level.load?.(this.context(loaded, gen));
+      if (gen !== this.generation) {
+        this.release(loaded);
+        return false;
+      }
+
+      // One at a time, so a failing registration leaves the earlier ones to release.
+      for (const system of level.systems?.() ?? []) loaded.systems.push(this.engine.registerSystem(system));
+    } catch (e) {
+      this.release(loaded);
+      if (gen !== this.generation) return false;
+      this.setStatus({ phase: "error", level: level.name, progress: 0, cover: 0, error: e instanceof Error ? e.message : String(e) });
+      throw e;
+    }
+
+    this.loaded = loaded;
+    this.setStatus({ ...this.status, phase: "fadingIn", progress: 1 });
+
+    if (!(await this.fadeTo(0, transition.fadeIn ?? 0, gen))) return false;
+    this.setStatus({ ...this.status, phase: "ready" });
+    return true;
+  }
+
+  /** Remove the current level (and supersede a running load). Resolves to false if superseded. */
+  async unload(transition: LevelTransition = {}): Promise<boolean> {
+    const gen = ++this.generation;
+    this.setStatus({ ...this.status, phase: "fadingOut", error: null });
+
+    if (!(await this.fadeTo(1, transition.fadeOut ?? 0, gen))) return false;
+    this.teardown();
+    this.setStatus({ phase: "fadingIn", level: null, progress: 0, cover: this.status.cover, error: null });
+
+    if (!(await this.fadeTo(0, transition.fadeIn ?? 0, gen))) return false;
+    this.setStatus({ ...this.status, phase: "idle" });
+    return true;
+  }
+
+  /** Unload immediately and cancel running transitions. Called by `Engine.dispose()`. */
+  dispose(): void {
+    this.generation += 1;
+    this.stopFade(false);
+    this.teardown();
+  }
+
+  private context(loaded: Loaded, gen: number): LevelContext {
+    const { engine } = this;
+    const manager = this;
+    const name = loaded.level.name;
+    const requirePhysics = (): RapierPhysicsModule => {
+      const physics = engine.world.physics;
+      if (!isRapierPhysics(physics) || !physics.ready) {
+        throw new Error(`LevelManager: level "${name}" creates physics content but physics is not a ready RapierPhysicsModule`);
+      }
+      return physics;
+    };
+
+    return {
+      engine,
+      world: engine.world,
+      get physics() {
+        const physics = engine.world.physics;
+        return isRapierPhysics(physics) && physics.ready ? physics : null;
+      },
+      get cancelled() {
+        return gen !== manager.generation;
+      },
+      progress: (value) => {
+        if (gen !== this.generation) return;
+        this.setStatus({ ...this.status, progress: Math.max(0, Math.min(value, 1)) });
+      },
+      createBody: (desc) => {
+        const body = requirePhysics().createBody(desc);
+        loaded.bodies.push(body);
+        return body;
+      },
+      createCollider: (desc, parent) => {
+        const collider = requirePhysics().createCollider(desc, parent);
+        if (parent === undefined) loaded.colliders.push(collider);
+        return collider;
+      },
+      set: (key, value) => {
+        const k = typeof key === "string" ? key : key.key;
+        this.track(loaded, k);
+        engine.world.set(k, value);
+      },
+      onUnload: (fn) => {
+        loaded.unloaders.push(fn);
+      }
+    };
+  }
+
+  private declare(loaded: Loaded, keys: readonly StateKey<any>[]): void {
+    const { world } = this.engine;
+    for (const key of keys) {
+      this.track(loaded, key.key);
+      if (world.isDeclared(key)) continue;
+      loaded.declared.push({ key: key.key, transient: world.isTransient(key) });
+      world.declare([key]);
+    }
+  }
+
+  /** Remember what `key` held before the level first wrote it. */
+  private track(loaded: Loaded, key: string): void {
+    if (loaded.keys.has(key)) return;
+    const { state } = this.engine.world;
+    loaded.keys.set(key, { had: state.has(key), value: state.get(key) });
+  }
+
+  private teardown(): void {
+    const loaded = this.loaded;
+    this.loaded = null;
+    if (loaded) this.release(loaded);
+  }
+
+  /** Remove exactly what a level added: unload hooks, systems, physics content, state. */
+  private release(loaded: Loaded): void {
+    for (const fn of loaded.unloaders.splice(0).reverse()) fn();
+    for (const handle of loaded.systems.splice(0).reverse()) handle.unregister();
+
+    const physics = this.engine.world.physics;
+    if (isRapierPhysics(physics) && physics.ready) {
+      for (const c of loaded.colliders.splice(0).reverse()) physics.removeCollider(c);
+      for (const b of loaded.bodies.splice(0).reverse()) physics.removeBody(b);
+    }
+
+    const { world } = this.engine;
+    const keys = [...loaded.keys];
+    loaded.keys.clear();
+    for (const [key, prev] of keys) if (!prev.had) world.delete(key);
+
+    world.undeclare(loaded.declared.map((d) => d.key));
+    for (const { key, transient } of loaded.declared.splice(0)) if (transient) world.markTransient(key);
+
+    // Earlier values come back once the level's validators are gone.
+    for (const [key, prev] of keys) if (prev.had) world.set(key, prev.value);
+  }
+
+  private setStatus(status: LevelStatus): void {
+    this.engine.world.setKey(LEVEL_STATUS, status);
+  }
+
+  /**
+   * Move `cover` to `target` over `seconds` of frame time. Resolves to false if `gen` was
+   * superseded meanwhile (also when the fade itself was instant).
+   */
+  private async fadeTo(target: number, seconds: number, gen: number): Promise<boolean> {
+    this.stopFade(false);
+    if (gen !== this.generation) return false;
+
+    const cover = this.status.cover;
+    if (seconds <= 0 || cover === target) {
+      this.setStatus({ ...this.status, cover: target });
+      await Promise.resolve();
+      return gen === this.generation;
+    }
+
+    const reached = await new Promise<boolean>((resolve) => {
+      this.fade = { target, speed: 1 / seconds, done: resolve };
+      this.fadeSystem ??= this.engine.registerSystem({
+        name: "eris.levels.transition",
+        // `late` runs while paused too, so transitions finish on a paused engine.
+        phase: "late",
+        run: (_world, dt) => this.stepFade(dt)
+      });
+    });
+    return reached && gen === this.generation;
+  }
+
+  private stepFade(dt: number): void {
+    const fade = this.fade;
+    if (!fade) return;
+
+    const cover = this.status.cover;
+    const step = fade.speed * dt;
+    const next = cover < fade.target ? Math.min(cover + step, fade.target) : Math.max(cover - step, fade.target);
+    this.setStatus({ ...this.status, cover: next });
+    if (next === fade.target) this.stopFade(true);
+  }
+
+  private stopFade(reached: boolean): void {
+    const fade = this.fade;
+    this.fade = null;
+    this.fadeSystem?.unregister();
+    this.fadeSystem = null;
+    fade?.done(reached);
+  }
+}
+
+export function createLevelManager(engine: Engine): LevelManager {
+  return new LevelManager(engine);
+}
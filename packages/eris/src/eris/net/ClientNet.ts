@@ -0,0 +1,205 @@
+import type { Engine } from "../engine/Engine";
+import type { World } from "../world/World";
+import { applyDelta, type ReplicatedState } from "./delta";
+import type { NetDriver, NetRole } from "./NetDriver";
+import type { ClientMessage, ReceivedSnapshot, ServerMessage } from "./protocol";
+import type { NetTransport } from "./transport";
+
+/** Blend two replicated values; `t` is in [0..1]. */
+export type Interpolator<T = unknown> = (a: T, b: T, t: number) => T;
+
+export interface ClientNetOptions {
+  transport: NetTransport<ServerMessage | ClientMessage>;
+  /**
+   * Keys rendered in the past (`interpolationDelay`) by blending buffered snapshots in
+   * `renderApply`. Keys without an interpolator are applied as soon as a snapshot arrives.
+   */
+  interpolate?: Record<string, Interpolator<any>>;
+  /** How far behind the newest server time interpolated keys are rendered (seconds). Defaults to 0.1. */
+  interpolationDelay?: number;
+  /** Decoded snapshots kept for interpolation and as delta bases. Defaults to 32. */
+  bufferSize?: number;
+  /** System name for the interpolation system. Defaults to "net.client.interpolate". */
+  systemName?: string;
+}
+
+export interface ClientNetStats {
+  snapshots: number;
+  /** Snapshots dropped because they were older than the newest one or their base was unknown. */
+  dropped: number;
+}
+
+/**
+ * Linear blend for numbers, recursing into arrays and plain objects. Anything else (and any
+ * entry missing on one side) snaps to `b`.
+ */
+export function lerpPlainData<T>(a: T, b: T, t: number): T {
+  if (typeof a === "number" && typeof b === "number") return (a + (b - a) * t) as T;
+  if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+    return b.map((v, i) => lerpPlainData(a[i], v, t)) as T;
+  }
+  if (a && b && typeof a === "object" && typeof b === "object" && !Array.isArray(a) && !Array.isArray(b)) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(b as Record<string, unknown>)) {
+      out[k] = k in (a as object) ? lerpPlainData((a as Record<string, unknown>)[k], v, t) : v;
+    }
+    return out as T;
+  }
+  return b;
+}
+
+/**
+ * Client side of the snapshot-interpolation model (`role: "client"`).
+ *
+ * Decodes server snapshots, acknowledges the newest one every frame, writes non-interpolated
+ * keys straight into the world and, from a `renderApply` system that runs before all others,
+ * writes interpolated keys for `serverTime - interpolationDelay`.
+ */
+export class ClientNet implements NetDriver {
+  readonly role: NetRole = "client";
+  readonly interpolationDelay: number;
+  readonly bufferSize: number;
+
+  readonly stats: ClientNetStats = { snapshots: 0, dropped: 0 };
+
+  private readonly opts: ClientNetOptions;
+  private readonly interpolators: Record<string, Interpolator<any>>;
+
+  private incoming: (ServerMessage | ClientMessage)[] = [];
+  private buffer: (ReceivedSnapshot & { receivedAt: number })[] = [];
+  private lastNow = 0;
+  private ackDue = false;
+  /** Keys that have appeared in a server snapshot; only these are deleted when they disappear. */
+  private readonly seenKeys = new Set<string>();
+
+  constructor(opts: ClientNetOptions) {
+    this.opts = opts;
+    this.interpolators = opts.interpolate ?? {};
+    this.interpolationDelay = opts.interpolationDelay ?? 0.1;
+    this.bufferSize = opts.bufferSize ?? 32;
+
+    if (!Number.isFinite(this.interpolationDelay) || this.interpolationDelay < 0) {
+      throw new Error(`ClientNet.interpolationDelay must be >= 0 (got: ${this.interpolationDelay})`);
+    }
+    if (!Number.isInteger(this.bufferSize) || this.bufferSize < 2) {
+      throw new Error(`ClientNet.bufferSize must be an integer >= 2 (got: ${this.bufferSize})`);
+    }
+  }
+
+  attach(engine: Engine): void {
+    engine.registerSystem({
+      name: this.opts.systemName ?? "net.client.interpolate",
+      phase: "renderApply",
+      order: Number.MIN_SAFE_INTEGER,
+      run: (world) => this.applyInterpolated(world)
+    });
+  }
+
+  /** Newest decoded server snapshot, if any. */
+  get latest(): ReceivedSnapshot | undefined {
+    return this.buffer[this.buffer.length - 1];
+  }
+
+  /** Estimated server time currently rendered for interpolated keys. */
+  get renderTime(): number | null {
+    const latest = this.buffer[this.buffer.length - 1];
+    if (!latest) return null;
+    return latest.time + (this.lastNow - latest.receivedAt) - this.interpolationDelay;
+  }
+
+  pollIncoming(now: number): void {
+    this.lastNow = now;
+    this.incoming.push(...this.opts.transport.poll(now));
+  }
+
+  applyIncoming(world: World): void {
+    const messages = this.incoming;
+    this.incoming = [];
+
+    let newest: ReceivedSnapshot | null = null;
+    for (const msg of messages) {
+      if (msg.type !== "snapshot") continue;
+
+      const latest = this.latest;
+      if (latest && msg.tick <= latest.tick) {
+        this.stats.dropped += 1;
+        continue;
+      }
+
+      let base: ReplicatedState = {};
+      if (msg.baseTick !== null) {
+        const found = this.buffer.find((s) => s.tick === msg.baseTick);
+        if (!found) {
+          // Re-ack our newest state so the server switches to a base we still have.
+          this.stats.dropped += 1;
+          this.ackDue = this.buffer.length > 0;
+          continue;
+        }
+        base = found.state;
+      }
+
+      const state = applyDelta(base, msg.delta);
+      const snapshot = { tick: msg.tick, time: msg.time, state, receivedAt: this.lastNow };
+      this.buffer.push(snapshot);
+      if (this.buffer.length > this.bufferSize) this.buffer.shift();
+      this.stats.snapshots += 1;
+      this.ackDue = true;
+      newest = snapshot;
+    }
+
+    if (!newest) return;
+    for (const key of Object.keys(newest.state)) this.seenKeys.add(key);
+    for (const key of this.seenKeys) {
+      if (key in this.interpolators) continue;
+      if (key in newest.state) world.set(key, structuredClone(newest.state[key]));
+      else world.delete(key);
+    }
+  }
+
+  collectOutgoing(_world: World): void {}
+
+  flushOutgoing(): void {
+    const latest = this.latest;
+    if (!latest || !this.ackDue) return;
+    this.opts.transport.send({ type: "ack", tick: latest.tick });
+    this.ackDue = false;
+  }
+
+  /** Close the transport and drop buffered snapshots. */
+  dispose(): void {
+    this.opts.transport.close?.();
+    this.incoming = [];
+    this.buffer = [];
+  }
+
+  private applyInterpolated(world: World): void {
+    const renderTime = this.renderTime;
+    if (renderTime === null) return;
+
+    // Newest snapshot at or before renderTime, and the one after it (if any).
+    let i = this.buffer.length - 1;
+    while (i > 0 && this.buffer[i]!.time > renderTime) i -= 1;
+    const a = this.buffer[i]!;
+    const b = this.buffer[i + 1];
+    const t = b && b.time > a.time ? Math.min(1, Math.max(0, (renderTime - a.time) / (b.time - a.time))) : 0;
+
+    for (const [key, interpolate] of Object.entries(this.interpolators)) {
+      const from = a.state[key];
+      const to = b ? b.state[key] : undefined;
+
+      if (from === undefined && to === undefined) {
+        if (this.seenKeys.has(key)) world.delete(key);
+        continue;
+      }
+      if (from === undefined || to === undefined) {
+        world.set(key, structuredClone(from ?? to));
+        continue;
+      }
+      world.set(key, t === 0 ? structuredClone(from) : interpolate(from, to, t));
+    }
+  }
+}
+
+export function createClientNet(opts: ClientNetOptions): ClientNet {
+  return new ClientNet(opts);
+}
@@ -1,6 +1,22 @@
+import type { Engine } from "../engine/Engine";
 import type { World } from "../world/World";
 
+/**
+ * - `peer`: every participant simulates (lockstep / rollback)
+ * - `server`: authoritative simulation, sends state to clients
+ * - `client`: presents state received from a server
+ */
+export type NetRole = "peer" | "server" | "client";
+
 export interface NetDriver {
+  readonly role?: NetRole;
+
+  /**
+   * Called once from the Engine constructor. Drivers that need to register systems or
+   * resimulate ticks (`engine.resimulateTick()`) keep the engine reference here.
+   */
+  attach?(engine: Engine): void;
+
   init?(): Promise<void>;
 
   pollIncoming(now: number): void;
@@ -8,4 +24,7 @@ export interface NetDriver {
 
   collectOutgoing(world: World): void;
   flushOutgoing(): void;
+
+  /** Shut down: close transports, drop buffers. Called once by `Engine.dispose()`. */
+  dispose?(): void;
 }
@@ -0,0 +1,279 @@
+import type { Engine } from "../engine/Engine";
+import type { World } from "../world/World";
+import type { WorldSnapshot } from "../world/snapshot";
+import type { NetDriver, NetRole } from "./NetDriver";
+import type { NetTransport } from "./transport";
+
+export type PlayerId = string;
+
+export interface RollbackInputMessage<I> {
+  type: "inputs";
+  player: PlayerId;
+  /** The sender's most recent inputs (oldest first); resent every frame to survive loss. */
+  inputs: { tick: number; input: I }[];
+}
+
+export interface RollbackNetOptions<I> {
+  localPlayer: PlayerId;
+  /** Every participant, including the local player. */
+  players: readonly PlayerId[];
+  transport: NetTransport<RollbackInputMessage<I>>;
+
+  /** Input assumed for a player before anything has been received from them. */
+  defaultInput: I;
+  /**
+   * Read the local player's input for the tick about to run (e.g. from intent state).
+   *
+   * A rollback restores state written outside the fixed phase too (e.g. an intent key set in
+   * `preFrame`), so after one the input is sampled right before restoring and reused for the
+   * rest of that frame's ticks.
+   */
+  sampleInput(world: World, tick: number): I;
+  /** Write every player's input for `tick` into the world before gameplay systems run. */
+  applyInputs(world: World, inputs: ReadonlyMap<PlayerId, I>, tick: number): void;
+
+  /** Guess a remote input from the last confirmed one. Defaults to repeating it. */
+  predict?(last: I, player: PlayerId): I;
+  /** Defaults to comparing JSON encodings. */
+  inputsEqual?(a: I, b: I): boolean;
+
+  /** How far back (in ticks) a late input may still trigger a correction. Defaults to 30. */
+  maxRollbackTicks?: number;
+  /** Number of recent local inputs included in every message. Defaults to 8. */
+  redundancy?: number;
+  /** System name for the input/snapshot system. Defaults to "net.rollback.inputs". */
+  systemName?: string;
+}
+
+export interface RollbackStats {
+  rollbacks: number;
+  resimulatedTicks: number;
+  maxRollbackDepth: number;
+  /** Ticks simulated with at least one predicted remote input. */
+  predictedTicks: number;
+  /** Corrections that arrived later than `maxRollbackTicks` and could not be applied. */
+  missedRollbacks: number;
+}
+
+function defaultInputsEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Rollback netcode on top of `NetDriver`.
+ *
+ * Every fixed tick, the driver (via a `fixed` system that runs before gameplay):
+ * 1. snapshots the world (`World.snapshot()`),
+ * 2. samples and records the local input,
+ * 3. applies confirmed inputs, or predictions for remote players that haven't arrived yet.
+ *
+ * When a remote input arrives for an already-simulated tick and differs from the prediction,
+ * `applyIncoming` restores the snapshot of that tick and replays up to the present with
+ * `engine.resimulateTick()`. World state must therefore be snapshot-able (plain data,
+ * serializers, or transient keys).
+ */
+export class RollbackNet<I> implements NetDriver {
+  readonly role: NetRole = "peer";
+  readonly localPlayer: PlayerId;
+  readonly players: readonly PlayerId[];
+  readonly maxRollbackTicks: number;
+  readonly redundancy: number;
+
+  readonly stats: RollbackStats = {
+    rollbacks: 0,
+    resimulatedTicks: 0,
+    maxRollbackDepth: 0,
+    predictedTicks: 0,
+    missedRollbacks: 0
+  };
+
+  private readonly opts: RollbackNetOptions<I>;
+  private readonly predict: (last: I, player: PlayerId) => I;
+  private readonly inputsEqual: (a: I, b: I) => boolean;
+
+  private engine: Engine | null = null;
+  private resimulating = false;
+
+  private readonly snapshots = new Map<number, WorldSnapshot>();
+  private readonly localInputs = new Map<number, I>();
+  /** Confirmed remote inputs by player, then tick. */
+  private readonly confirmed = new Map<PlayerId, Map<number, I>>();
+  /** Inputs actually used for remote players (confirmed or predicted), by player, then tick. */
+  private readonly used = new Map<PlayerId, Map<number, I>>();
+  private readonly lastConfirmed = new Map<PlayerId, { tick: number; input: I }>();
+
+  /** The local input sampled before this frame's rollback; used by the frame's live ticks. */
+  private frameInput: { input: I } | null = null;
+
+  private incoming: RollbackInputMessage<I>[] = [];
+  private outgoing: RollbackInputMessage<I> | null = null;
+
+  constructor(opts: RollbackNetOptions<I>) {
+    if (!opts.players.includes(opts.localPlayer)) {
+      throw new Error(`RollbackNet: localPlayer "${opts.localPlayer}" is not in players`);
+    }
+
+    this.opts = opts;
+    this.localPlayer = opts.localPlayer;
+    this.players = opts.players;
+    this.maxRollbackTicks = opts.maxRollbackTicks ?? 30;
+    this.redundancy = opts.redundancy ?? 8;
+    this.predict = opts.predict ?? ((last) => last);
+    this.inputsEqual = opts.inputsEqual ?? defaultInputsEqual;
+
+    for (const p of this.remotePlayers()) {
+      this.confirmed.set(p, new Map());
+      this.used.set(p, new Map());
+    }
+  }
+
+  attach(engine: Engine): void {
+    this.engine = engine;
+    engine.registerSystem({
+      name: this.opts.systemName ?? "net.rollback.inputs",
+      phase: "fixed",
+      order: Number.MIN_SAFE_INTEGER,
+      groups: ["net.inputs"],
+      run: (world) => this.beginTick(world)
+    });
+  }
+
+  /** Latest tick for which every remote player's input is confirmed (-1 if none). */
+  get confirmedTick(): number {
+    let min = Infinity;
+    for (const p of this.remotePlayers()) min = Math.min(min, this.lastConfirmed.get(p)?.tick ?? -1);
+    return min === Infinity ? -1 : min;
+  }
+
+  pollIncoming(now: number): void {
+    this.incoming.push(...this.opts.transport.poll(now));
+  }
+
+  applyIncoming(world: World): void {
+    const messages = this.incoming;
+    this.incoming = [];
+
+    let rollbackTo = Infinity;
+    for (const msg of messages) {
+      if (msg.type !== "inputs" || msg.player === this.localPlayer) continue;
+      const confirmed = this.confirmed.get(msg.player);
+      if (!confirmed) continue;
+
+      for (const { tick, input } of msg.inputs) {
+        if (confirmed.has(tick)) continue;
+        confirmed.set(tick, input);
+
+        const last = this.lastConfirmed.get(msg.player);
+        if (!last || tick > last.tick) this.lastConfirmed.set(msg.player, { tick, input });
+
+        const usedInput = this.used.get(msg.player)!.get(tick);
+        if (tick < world.tick && (usedInput === undefined || !this.inputsEqual(usedInput, input))) {
+          rollbackTo = Math.min(rollbackTo, tick);
+        }
+      }
+    }
+
+    if (rollbackTo !== Infinity) this.rollback(world, rollbackTo);
+    this.prune(world.tick);
+  }
+
+  collectOutgoing(world: World): void {
+    this.frameInput = null;
+    const inputs: { tick: number; input: I }[] = [];
+    for (let t = Math.max(0, world.tick - this.redundancy); t < world.tick; t += 1) {
+      const input = this.localInputs.get(t);
+      if (input !== undefined) inputs.push({ tick: t, input });
+    }
+    this.outgoing = inputs.length > 0 ? { type: "inputs", player: this.localPlayer, inputs } : null;
+  }
+
+  flushOutgoing(): void {
+    if (this.outgoing) this.opts.transport.send(this.outgoing);
+    this.outgoing = null;
+  }
+
+  /** Close the transport and drop queued messages. */
+  dispose(): void {
+    this.opts.transport.close?.();
+    this.incoming = [];
+    this.outgoing = null;
+    this.engine = null;
+  }
+
+  private remotePlayers(): PlayerId[] {
+    return this.players.filter((p) => p !== this.localPlayer);
+  }
+
+  private beginTick(world: World): void {
+    const tick = world.tick;
+    this.snapshots.set(tick, world.snapshot());
+
+    if (!this.resimulating) {
+      this.localInputs.set(tick, this.frameInput ? this.frameInput.input : this.opts.sampleInput(world, tick));
+    }
+
+    const inputs = new Map<PlayerId, I>();
+    inputs.set(this.localPlayer, this.localInputs.get(tick) ?? this.opts.defaultInput);
+
+    let predicted = false;
+    for (const p of this.remotePlayers()) {
+      let input = this.confirmed.get(p)!.get(tick);
+      if (input === undefined) {
+        const last = this.lastConfirmed.get(p);
+        input = last ? this.predict(last.input, p) : this.opts.defaultInput;
+        predicted = true;
+      }
+      this.used.get(p)!.set(tick, input);
+      inputs.set(p, input);
+    }
+    if (predicted && !this.resimulating) this.stats.predictedTicks += 1;
+
+    this.opts.applyInputs(world, inputs, tick);
+  }
+
+  private rollback(world: World, toTick: number): void {
+    const engine = this.engine;
+    const snapshot = this.snapshots.get(toTick);
+    const depth = world.tick - toTick;
+
+    // Too late to correct: keep running on the (possibly wrong) prediction rather than stall.
+    if (!engine || !snapshot || depth > this.maxRollbackTicks) {
+      this.stats.missedRollbacks += 1;
+      return;
+    }
+
+    const presentTick = world.tick;
+    const presentNow = world.now;
+    // Sample before `restore()` rolls back what this frame's `preFrame` wrote.
+    this.frameInput ??= { input: this.opts.sampleInput(world, presentTick) };
+
+    world.restore(snapshot);
+    this.resimulating = true;
+    try {
+      while (world.tick < presentTick) engine.resimulateTick();
+    } finally {
+      this.resimulating = false;
+    }
+    world.now = presentNow;
+
+    this.stats.rollbacks += 1;
+    this.stats.resimulatedTicks += depth;
+    this.stats.maxRollbackDepth = Math.max(this.stats.maxRollbackDepth, depth);
+  }
+
+  private prune(currentTick: number): void {
+    const keepFrom = currentTick - this.maxRollbackTicks - this.redundancy;
+    const drop = (m: Map<number, unknown>) => {
+      for (const t of m.keys()) if (t < keepFrom) m.delete(t);
+    };
+
+    drop(this.snapshots);
+    drop(this.localInputs);
+    for (const m of this.confirmed.values()) drop(m);
+    for (const m of this.used.values()) drop(m);
+  }
+}
+
+export function createRollbackNet<I>(opts: RollbackNetOptions<I>): RollbackNet<I> {
+  return new RollbackNet(opts);
+}
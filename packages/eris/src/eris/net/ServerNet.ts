@@ -0,0 +1,143 @@
+import type { World } from "../world/World";
+import { diffState, type ReplicatedState } from "./delta";
+import type { NetDriver, NetRole } from "./NetDriver";
+import type { ClientMessage, ServerMessage, ServerSnapshotMessage } from "./protocol";
+import type { NetTransport } from "./transport";
+
+export type ClientId = string;
+
+export interface ServerNetOptions {
+  /** World state keys sent to clients. Values must be JSON-compatible. */
+  replicate: readonly string[];
+  /** Send a snapshot every N ticks. Defaults to 1. */
+  sendInterval?: number;
+  /** Ticks of sent state kept as delta bases. Older acks fall back to full snapshots. Defaults to 64. */
+  historyTicks?: number;
+}
+
+export interface ServerNetStats {
+  fullSnapshots: number;
+  deltaSnapshots: number;
+  /** Snapshots skipped because nothing changed since the client's acked state. */
+  unchangedSnapshots: number;
+}
+
+type ClientEntry = {
+  transport: NetTransport<ServerMessage | ClientMessage>;
+  ackedTick: number | null;
+  pending: ServerSnapshotMessage | null;
+};
+
+/**
+ * Server side of the snapshot-interpolation model (`role: "server"`).
+ *
+ * After each frame that advanced the simulation by at least `sendInterval` ticks, the
+ * replicated keys are captured and every client gets a delta against the newest state it
+ * acknowledged (or a full snapshot if that state is no longer in history).
+ */
+export class ServerNet implements NetDriver {
+  readonly role: NetRole = "server";
+  readonly replicate: readonly string[];
+  readonly sendInterval: number;
+  readonly historyTicks: number;
+
+  readonly stats: ServerNetStats = { fullSnapshots: 0, deltaSnapshots: 0, unchangedSnapshots: 0 };
+
+  private readonly clients = new Map<ClientId, ClientEntry>();
+  private readonly history = new Map<number, ReplicatedState>();
+  private lastSentTick: number | null = null;
+
+  constructor(opts: ServerNetOptions) {
+    this.replicate = opts.replicate;
+    this.sendInterval = opts.sendInterval ?? 1;
+    this.historyTicks = opts.historyTicks ?? 64;
+
+    if (!Number.isInteger(this.sendInterval) || this.sendInterval < 1) {
+      throw new Error(`ServerNet.sendInterval must be an integer >= 1 (got: ${this.sendInterval})`);
+    }
+    if (!Number.isInteger(this.historyTicks) || this.historyTicks < 1) {
+      throw new Error(`ServerNet.historyTicks must be an integer >= 1 (got: ${this.historyTicks})`);
+    }
+  }
+
+  addClient(id: ClientId, transport: NetTransport<ServerMessage | ClientMessage>): void {
+    if (this.clients.has(id)) throw new Error(`ServerNet: client already connected: ${id}`);
+    this.clients.set(id, { transport, ackedTick: null, pending: null });
+  }
+
+  removeClient(id: ClientId): boolean {
+    const client = this.clients.get(id);
+    if (!client) return false;
+    client.transport.close?.();
+    return this.clients.delete(id);
+  }
+
+  getClientIds(): ClientId[] {
+    return [...this.clients.keys()];
+  }
+
+  /** Newest tick acknowledged by `id`, or null. */
+  getAckedTick(id: ClientId): number | null {
+    return this.clients.get(id)?.ackedTick ?? null;
+  }
+
+  pollIncoming(now: number): void {
+    for (const client of this.clients.values()) {
+      for (const msg of client.transport.poll(now)) {
+        if (msg.type !== "ack") continue;
+        // Only move forward, and only to ticks we actually sent (and still remember).
+        if (client.ackedTick !== null && msg.tick <= client.ackedTick) continue;
+        if (!this.history.has(msg.tick)) continue;
+        client.ackedTick = msg.tick;
+      }
+    }
+  }
+
+  applyIncoming(_world: World): void {}
+
+  collectOutgoing(world: World): void {
+    const tick = world.tick;
+    if (this.lastSentTick !== null && tick - this.lastSentTick < this.sendInterval) return;
+    this.lastSentTick = tick;
+
+    const state: ReplicatedState = {};
+    for (const key of this.replicate) {
+      if (world.has(key)) state[key] = structuredClone(world.get(key));
+    }
+    this.history.set(tick, state);
+    for (const t of this.history.keys()) if (t <= tick - this.historyTicks) this.history.delete(t);
+
+    for (const client of this.clients.values()) {
+      const base = client.ackedTick === null ? undefined : this.history.get(client.ackedTick);
+      const baseTick = base ? client.ackedTick : null;
+      const delta = diffState(base ?? {}, state);
+
+      if (base && !delta) {
+        this.stats.unchangedSnapshots += 1;
+      } else if (base) {
+        this.stats.deltaSnapshots += 1;
+      } else {
+        this.stats.fullSnapshots += 1;
+      }
+
+      // Unchanged snapshots are still sent: they advance the client's clock estimate.
+      client.pending = { type: "snapshot", tick, time: world.now, baseTick, delta };
+    }
+  }
+
+  flushOutgoing(): void {
+    for (const client of this.clients.values()) {
+      if (client.pending) client.transport.send(client.pending);
+      client.pending = null;
+    }
+  }
+
+  /** Close every client transport. */
+  dispose(): void {
+    for (const id of [...this.clients.keys()]) this.removeClient(id);
+  }
+}
+
+export function createServerNet(opts: ServerNetOptions): ServerNet {
+  return new ServerNet(opts);
+}
@@ -0,0 +1,70 @@
+/** JSON-compatible replicated state: state key -> value. */
+export type ReplicatedState = Record<string, unknown>;
+
+/**
+ * Difference between two plain-data objects.
+ *
+ * - `set`: keys whose value is new or replaced wholesale (primitives, arrays, type changes)
+ * - `patch`: keys whose value is a plain object in both states, diffed recursively
+ * - `del`: keys that no longer exist
+ */
+export interface StateDelta {
+  set?: Record<string, unknown>;
+  patch?: Record<string, StateDelta>;
+  del?: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Returns `null` when `next` equals `base`. */
+export function diffState(base: Record<string, unknown>, next: Record<string, unknown>): StateDelta | null {
+  const delta: StateDelta = {};
+
+  for (const key of Object.keys(next)) {
+    const a = base[key];
+    const b = next[key];
+    if (!Object.hasOwn(base, key)) {
+      (delta.set ??= {})[key] = b;
+    } else if (isRecord(a) && isRecord(b)) {
+      const nested = diffState(a, b);
+      if (nested) (delta.patch ??= {})[key] = nested;
+    } else if (!sameValue(a, b)) {
+      (delta.set ??= {})[key] = b;
+    }
+  }
+
+  for (const key of Object.keys(base)) {
+    if (!Object.hasOwn(next, key)) (delta.del ??= []).push(key);
+  }
+
+  return delta.set || delta.patch || delta.del ? delta : null;
+}
+
+/** Apply a delta produced by `diffState(base, next)` to a copy of `base`, returning `next`. */
+export function applyDelta(base: Record<string, unknown>, delta: StateDelta | null): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...base };
+  if (!delta) return out;
+
+  for (const key of delta.del ?? []) delete out[key];
+  if (delta.set) {
+    for (const [key, value] of Object.entries(delta.set)) out[key] = structuredClone(value);
+  }
+  if (delta.patch) {
+    for (const [key, nested] of Object.entries(delta.patch)) {
+      const current = out[key];
+      out[key] = applyDelta(isRecord(current) ? current : {}, nested);
+    }
+  }
+
+  return out;
+}
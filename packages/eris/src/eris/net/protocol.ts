@@ -0,0 +1,30 @@
+import type { ReplicatedState, StateDelta } from "./delta";
+
+/**
+ * Server -> client. `baseTick === null` means `delta` is relative to an empty state
+ * (a full snapshot); otherwise it is relative to the state of `baseTick` the client acked.
+ */
+export interface ServerSnapshotMessage {
+  type: "snapshot";
+  tick: number;
+  /** Server `world.now` when the snapshot was taken (seconds). */
+  time: number;
+  baseTick: number | null;
+  delta: StateDelta | null;
+}
+
+/** Client -> server: newest snapshot tick the client has decoded. */
+export interface ClientAckMessage {
+  type: "ack";
+  tick: number;
+}
+
+export type ServerMessage = ServerSnapshotMessage;
+export type ClientMessage = ClientAckMessage;
+
+/** A decoded server snapshot as buffered by the client. */
+export interface ReceivedSnapshot {
+  tick: number;
+  time: number;
+  state: ReplicatedState;
+}
@@ -0,0 +1,105 @@
+import { RandomStream } from "../world/random";
+
+/**
+ * Minimal message transport used by net drivers.
+ *
+ * Transports are polled: drivers call `poll(now)` from `NetDriver.pollIncoming(now)` and
+ * `send()` from `NetDriver.flushOutgoing()`. Messages may be dropped, duplicated or reordered
+ * depending on the transport; drivers must tolerate that.
+ */
+export interface NetTransport<M> {
+  send(message: M): void;
+  /** Messages that have arrived by `now` (seconds, world clock). */
+  poll(now: number): M[];
+  close?(): void;
+}
+
+export interface LoopbackOptions {
+  /** One-way delay in seconds. Defaults to 0. */
+  latency?: number;
+  /** Extra random delay in seconds, uniform in [0..jitter]. Defaults to 0. */
+  jitter?: number;
+  /** Probability in [0..1] that a message is dropped. Defaults to 0. */
+  loss?: number;
+  /** Seed for jitter/loss so runs are reproducible. */
+  seed?: number;
+}
+
+type InFlight<M> = { deliverAt: number; seq: number; message: M };
+
+function assertRange(name: string, value: number, min: number, max: number): void {
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${name} must be in [${min}..${max}] (got: ${value})`);
+  }
+}
+
+/**
+ * Two connected in-memory endpoints with simulated latency, jitter and packet loss.
+ *
+ * Messages are structured-cloned on send (like a real wire) and delivered once the receiving
+ * endpoint polls with `now >= sendTime + latency + jitter`. Send time is the sender's most
+ * recent `poll(now)`, so both sides should be driven by engines on the same clock.
+ */
+export function createLoopbackPair<M>(opts: LoopbackOptions = {}): [NetTransport<M>, NetTransport<M>] {
+  const latency = opts.latency ?? 0;
+  const jitter = opts.jitter ?? 0;
+  const loss = opts.loss ?? 0;
+
+  assertRange("Loopback.latency", latency, 0, Number.MAX_VALUE);
+  assertRange("Loopback.jitter", jitter, 0, Number.MAX_VALUE);
+  assertRange("Loopback.loss", loss, 0, 1);
+
+  const random = new RandomStream(opts.seed ?? 1);
+  let seq = 0;
+
+  const makeEndpoint = () => {
+    const inbox: InFlight<M>[] = [];
+    let lastNow = 0;
+    let closed = false;
+    let peer: { deliver(m: InFlight<M>): void; closed(): boolean } | null = null;
+
+    const endpoint: NetTransport<M> = {
+      send(message) {
+        if (closed || !peer || peer.closed()) return;
+        if (loss > 0 && random.float() < loss) return;
+        const delay = latency + (jitter > 0 ? random.float() * jitter : 0);
+        peer.deliver({ deliverAt: lastNow + delay, seq: seq++, message: structuredClone(message) });
+      },
+      poll(now) {
+        lastNow = Math.max(lastNow, now);
+        if (inbox.length === 0) return [];
+
+        const ready: InFlight<M>[] = [];
+        for (let i = inbox.length - 1; i >= 0; i -= 1) {
+          if (inbox[i]!.deliverAt <= now) ready.push(...inbox.splice(i, 1));
+        }
+        ready.sort((a, b) => a.deliverAt - b.deliverAt || a.seq - b.seq);
+        return ready.map((m) => m.message);
+      },
+      close() {
+        closed = true;
+        inbox.length = 0;
+      }
+    };
+
+    const receiver = {
+      deliver: (m: InFlight<M>) => void (closed || inbox.push(m)),
+      closed: () => closed
+    };
+
+    return {
+      endpoint,
+      receiver,
+      connect(other: typeof receiver) {
+        peer = other;
+      }
+    };
+  };
+
+  const a = makeEndpoint();
+  const b = makeEndpoint();
+  a.connect(b.receiver);
+  b.connect(a.receiver);
+
+  return [a.endpoint, b.endpoint];
+}
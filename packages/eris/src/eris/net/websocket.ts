@@ -0,0 +1,89 @@
+import type { NetTransport } from "./transport";
+
+/**
+ * The subset of the WebSocket API the transport needs. Satisfied by the browser `WebSocket`,
+ * Node's global `WebSocket` and the `ws` package (client and server-side sockets).
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  addEventListener(type: "open" | "close", listener: () => void): void;
+  addEventListener(type: "message", listener: (event: { data: unknown }) => void): void;
+}
+
+export interface WebSocketTransportOptions<M> {
+  /** Defaults to `JSON.stringify`. */
+  encode?(message: M): string;
+  /** Defaults to `JSON.parse`. */
+  decode?(data: string): M;
+  /** Called with the error for every received frame that fails to decode; the frame is dropped. */
+  onError?(error: unknown, data: string): void;
+}
+
+const CONNECTING = 0;
+const OPEN = 1;
+
+/**
+ * Wrap a WebSocket as a `NetTransport`.
+ *
+ * Received messages are queued until the next `poll()` (delivery time is whatever the network
+ * gave us; `now` is ignored). Messages sent while the socket is still connecting are buffered
+ * and flushed on `open`; messages sent after it closed are dropped. Frames that fail to decode
+ * are dropped (and reported to `onError`).
+ */
+export function createWebSocketTransport<M>(
+  socket: WebSocketLike,
+  opts: WebSocketTransportOptions<M> = {}
+): NetTransport<M> {
+  const encode = opts.encode ?? ((m: M) => JSON.stringify(m));
+  const decode = opts.decode ?? ((data: string) => JSON.parse(data) as M);
+
+  let inbox: M[] = [];
+  let pendingSend: string[] = [];
+  let closed = false;
+
+  socket.addEventListener("open", () => {
+    const queued = pendingSend;
+    pendingSend = [];
+    for (const data of queued) socket.send(data);
+  });
+  socket.addEventListener("close", () => {
+    closed = true;
+    pendingSend = [];
+  });
+  socket.addEventListener("message", (event) => {
+    if (closed) return;
+    const data = typeof event.data === "string" ? event.data : String(event.data);
+    let message: M;
+    try {
+      message = decode(data);
+    } catch (e) {
+      opts.onError?.(e, data);
+      return;
+    }
+    inbox.push(message);
+  });
+
+  return {
+    send(message) {
+      if (closed) return;
+      const data = encode(message);
+      if (socket.readyState === OPEN) socket.send(data);
+      else if (socket.readyState === CONNECTING) pendingSend.push(data);
+    },
+    poll() {
+      if (inbox.length === 0) return [];
+      const ready = inbox;
+      inbox = [];
+      return ready;
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      inbox = [];
+      pendingSend = [];
+      socket.close();
+    }
+  };
+}
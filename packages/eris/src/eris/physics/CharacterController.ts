@@ -0,0 +1,201 @@
+import type {
+  Collider,
+  KinematicCharacterController,
+  World as RapierWorld
+} from "@dimforge/rapier3d-compat";
+import type { System } from "../engine/system";
+import { isRapierPhysics, type RapierPhysicsModule } from "./RapierPhysicsModule";
+import type { BodyHandle, ColliderHandle, Vec3 } from "./types";
+
+/** What the character wants to do this tick. */
+export interface CharacterIntent {
+  /** Horizontal direction in world space; length up to 1 (scaled by `speed`). */
+  x: number;
+  z: number;
+  /** Jump if grounded. Pass a pressed edge rather than a held button to avoid bunny hops. */
+  jump?: boolean;
+}
+
+/** Result of a tick; plain data, so it can live in `World.state` and snapshots. */
+export interface CharacterState {
+  grounded: boolean;
+  /** Velocity actually achieved this tick, after collisions. */
+  velocity: Vec3;
+  /** Colliders touched while moving this tick. */
+  hits: ColliderHandle[];
+}
+
+export interface CharacterControllerOptions {
+  /** Horizontal speed at full intent, in units per second. Defaults to 5. */
+  speed?: number;
+  /** Initial upward speed of a jump. Defaults to 6. */
+  jumpSpeed?: number;
+  /** Downward acceleration while airborne. Defaults to 9.81. */
+  gravity?: number;
+  /** Gap kept between the character and obstacles. Defaults to 0.01. */
+  offset?: number;
+  /** Steepest walkable slope, in radians. Defaults to 45°. */
+  maxSlopeClimbAngle?: number;
+  /** Slopes steeper than this make the character slide down, in radians. Defaults to 30°. */
+  minSlopeSlideAngle?: number;
+  /** Highest step climbed automatically (0 disables). Defaults to 0.3. */
+  stepHeight?: number;
+  /** Free space needed on top of a step. Defaults to 0.2. */
+  stepMinWidth?: number;
+  /** Stick to the ground across dips and down-steps up to this height (0 disables). Defaults to 0.2. */
+  snapToGround?: number;
+  /** Push dynamic bodies out of the way. Defaults to true. */
+  pushBodies?: boolean;
+  /** Interaction groups used to find obstacles. Defaults to the character collider's own groups. */
+  groups?: number;
+}
+
+const DEFAULTS = {
+  speed: 5,
+  jumpSpeed: 6,
+  gravity: 9.81,
+  offset: 0.01,
+  maxSlopeClimbAngle: Math.PI / 4,
+  minSlopeSlideAngle: Math.PI / 6,
+  stepHeight: 0.3,
+  stepMinWidth: 0.2,
+  snapToGround: 0.2,
+  pushBodies: true
+};
+
+/**
+ * Moves a `kinematicPosition` body with Rapier's kinematic character controller: sliding along
+ * walls, climbing slopes and steps, snapping to the ground, gravity and jumps. Up is +Y.
+ *
+ * The controller holds only configuration; everything that carries over between ticks is in the
+ * `CharacterState` passed in and returned, so it works with snapshots and rollback.
+ */
+export class CharacterController {
+  readonly options: Readonly<Required<Omit<CharacterControllerOptions, "groups">>> & { groups?: number };
+
+  private readonly physics: RapierPhysicsModule;
+  private kcc: KinematicCharacterController | null = null;
+  /** The Rapier world `kcc` belongs to; restoring a snapshot replaces it. */
+  private owner: RapierWorld | null = null;
+
+  constructor(physics: RapierPhysicsModule, opts: CharacterControllerOptions = {}) {
+    this.physics = physics;
+    this.options = { ...DEFAULTS, ...opts };
+  }
+
+  /**
+   * Move `body` by one tick of `intent` and set its next kinematic position. Pass the state
+   * returned by the previous tick (or nothing for the first one).
+   */
+  move(body: BodyHandle, intent: CharacterIntent, prev: CharacterState | undefined, dt: number): CharacterState {
+    const o = this.options;
+    const kcc = this.controller();
+    const collider = this.colliderOf(body);
+
+    let vy = prev && !prev.grounded ? prev.velocity.y : 0;
+    if (intent.jump && prev?.grounded) vy = o.jumpSpeed;
+    vy -= o.gravity * dt;
+
+    const desired = { x: intent.x * o.speed * dt, y: vy * dt, z: intent.z * o.speed * dt };
+    const flags = this.physics.rapier!.QueryFilterFlags.EXCLUDE_SENSORS;
+    kcc.computeColliderMovement(collider, desired, flags, o.groups ?? collider.collisionGroups());
+
+    const moved = kcc.computedMovement();
+    const grounded = kcc.computedGrounded();
+    const hits: ColliderHandle[] = [];
+    for (let i = 0; i < kcc.numComputedCollisions(); i += 1) {
+      const hit = kcc.computedCollision(i)?.collider;
+      if (hit && !hits.includes(hit.handle as ColliderHandle)) hits.push(hit.handle as ColliderHandle);
+    }
+
+    const p = this.physics.getPosition(body);
+    this.physics.setNextKinematicPosition(body, { x: p.x + moved.x, y: p.y + moved.y, z: p.z + moved.z });
+
+    return {
+      grounded,
+      velocity: { x: moved.x / dt, y: grounded ? Math.max(0, moved.y / dt) : moved.y / dt, z: moved.z / dt },
+      hits
+    };
+  }
+
+  /** Free the Rapier controller. `move()` creates a new one if called again. */
+  dispose(): void {
+    if (this.kcc && this.owner && this.owner === this.physics.world) this.owner.removeCharacterController(this.kcc);
+    this.kcc = null;
+    this.owner = null;
+  }
+
+  private controller(): KinematicCharacterController {
+    const world = this.physics.world as RapierWorld | null;
+    if (!this.physics.rapier || !world) {
+      throw new Error("CharacterController: physics is not initialized (await engine.init() first)");
+    }
+    if (this.kcc && this.owner === world) return this.kcc;
+
+    const o = this.options;
+    const kcc = world.createCharacterController(o.offset);
+    kcc.setUp({ x: 0, y: 1, z: 0 });
+    kcc.setSlideEnabled(true);
+    kcc.setMaxSlopeClimbAngle(o.maxSlopeClimbAngle);
+    kcc.setMinSlopeSlideAngle(o.minSlopeSlideAngle);
+    if (o.stepHeight > 0) kcc.enableAutostep(o.stepHeight, o.stepMinWidth, false);
+    else kcc.disableAutostep();
+    if (o.snapToGround > 0) kcc.enableSnapToGround(o.snapToGround);
+    else kcc.disableSnapToGround();
+    kcc.setApplyImpulsesToDynamicBodies(o.pushBodies);
+
+    this.kcc = kcc;
+    this.owner = world;
+    return kcc;
+  }
+
+  private colliderOf(body: BodyHandle): Collider {
+    const rb = (this.physics.world as RapierWorld).getRigidBody(body);
+    if (!rb) throw new Error(`CharacterController: no body with handle ${body}`);
+    if (rb.numColliders() === 0) throw new Error(`CharacterController: body ${body} has no collider`);
+    return rb.collider(0);
+  }
+}
+
+export function createCharacterController(physics: RapierPhysicsModule, opts?: CharacterControllerOptions): CharacterController {
+  return new CharacterController(physics, opts);
+}
+
+export interface CharacterControllerSystemOptions extends CharacterControllerOptions {
+  /** Defaults to "character.move". */
+  name?: string;
+  order?: number;
+  /** State key holding the character's `BodyHandle`. */
+  bodyKey: string;
+  /** State key holding the `CharacterIntent` (missing means standing still). */
+  intentKey: string;
+  /** State key the `CharacterState` is read from and written to every tick. */
+  stateKey: string;
+}
+
+/**
+ * A `fixed` system that moves one character per tick from `intentKey` and publishes its
+ * `CharacterState` under `stateKey`. It waits until the body exists and Rapier is ready.
+ */
+export function createCharacterControllerSystem(opts: CharacterControllerSystemOptions): System {
+  let controller: CharacterController | null = null;
+
+  return {
+    name: opts.name ?? "character.move",
+    phase: "fixed",
+    order: opts.order,
+    run(world, dt) {
+      const body = world.get<BodyHandle>(opts.bodyKey);
+      const physics = world.physics;
+      if (body === undefined || !isRapierPhysics(physics) || !physics.ready) return;
+
+      controller ??= new CharacterController(physics, opts);
+      const intent = world.get<CharacterIntent>(opts.intentKey) ?? { x: 0, z: 0 };
+      world.set(opts.stateKey, controller.move(body, intent, world.get<CharacterState>(opts.stateKey), dt));
+    },
+    dispose() {
+      controller?.dispose();
+      controller = null;
+    }
+  };
+}
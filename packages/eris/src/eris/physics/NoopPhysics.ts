@@ -1,6 +1,10 @@
 import type { PhysicsModule } from "./PhysicsModule";
+import { noopEvents } from "./events";
+import { noopQueries } from "./queries";
 
 export const NoopPhysics: PhysicsModule = {
-  step() {}
+  step() {},
+  queries: noopQueries,
+  events: noopEvents
 };
 
@@ -1,5 +1,21 @@
+import type { PhysicsEvents } from "./events";
+import type { PhysicsQueries } from "./queries";
+
 export interface PhysicsModule {
   init?(): Promise<void>;
   step(dt: number): void;
+
+  /** Raycasts, shape casts and overlap tests, when supported. */
+  readonly queries?: PhysicsQueries;
+  /** Contact and sensor events of the last step, when supported. */
+  readonly events?: PhysicsEvents;
+
+  /** Capture the full physics state (structured-clone-able). Used by `World.snapshot()`. */
+  snapshot?(): unknown;
+  /** Replace the physics state with data from `snapshot()`. Used by `World.restore()`. */
+  restore?(data: unknown): void;
+
+  /** Free native resources (e.g. WASM memory). Called once by `Engine.dispose()`. */
+  dispose?(): void;
 }
 
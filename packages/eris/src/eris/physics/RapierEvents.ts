@@ -0,0 +1,119 @@
+import type { EventQueue, TempContactForceEvent } from "@dimforge/rapier3d-compat";
+import type { ContactEvent, ContactForce, ContactForceEvent, ContactPair, PhysicsEvents, SensorEvent } from "./events";
+import type { BodyHandle, ColliderHandle, EntityId } from "./types";
+
+/** What events need to know about a collider, also after it was removed. */
+export type EventColliderInfo = { body: BodyHandle | null; entity: EntityId | null; sensor: boolean };
+
+function pairKey(a: ColliderHandle, b: ColliderHandle): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+function forceOf(e: TempContactForceEvent): ContactForce {
+  const total = e.totalForce();
+  const dir = e.maxForceDirection();
+  return {
+    total: { x: total.x, y: total.y, z: total.z },
+    totalMagnitude: e.totalForceMagnitude(),
+    maxDirection: { x: dir.x, y: dir.y, z: dir.z },
+    maxMagnitude: e.maxForceMagnitude()
+  };
+}
+
+/** `PhysicsEvents` filled from a Rapier `EventQueue` after every step. */
+export class RapierEvents implements PhysicsEvents {
+  private _contacts: ContactEvent[] = [];
+  private _forces: ContactForceEvent[] = [];
+  private _sensors: SensorEvent[] = [];
+  /** Sensor pairs currently overlapping, as `[sensor, other]`, in the order they entered. */
+  private readonly inside = new Map<string, [ColliderHandle, ColliderHandle]>();
+
+  constructor(private readonly info: (collider: ColliderHandle) => EventColliderInfo) {}
+
+  get contacts(): readonly ContactEvent[] {
+    return this._contacts;
+  }
+
+  get forces(): readonly ContactForceEvent[] {
+    return this._forces;
+  }
+
+  get sensors(): readonly SensorEvent[] {
+    return this._sensors;
+  }
+
+  clear(): void {
+    this._contacts = [];
+    this._forces = [];
+    this._sensors = [];
+  }
+
+  /** Replace the lists with the events of the step that just ran. */
+  collect(queue: EventQueue): void {
+    const contacts: ContactEvent[] = [];
+    const forces: ContactForceEvent[] = [];
+    const sensors: SensorEvent[] = [];
+
+    const forceByPair = new Map<string, ContactForce>();
+    queue.drainContactForceEvents((e) => {
+      const c1 = e.collider1() as ColliderHandle;
+      const c2 = e.collider2() as ColliderHandle;
+      const force = forceOf(e);
+      forceByPair.set(pairKey(c1, c2), force);
+      forces.push({ ...this.pair(c1, c2), ...force });
+    });
+
+    const entered = new Set<string>();
+    queue.drainCollisionEvents((h1, h2, started) => {
+      const c1 = h1 as ColliderHandle;
+      const c2 = h2 as ColliderHandle;
+      const i1 = this.info(c1);
+      const i2 = this.info(c2);
+
+      if (!i1.sensor && !i2.sensor) {
+        const force = started ? (forceByPair.get(pairKey(c1, c2)) ?? null) : null;
+        contacts.push({ type: started ? "start" : "end", ...this.pair(c1, c2, i1, i2), force });
+        return;
+      }
+
+      const [sensor, other] = i1.sensor ? [c1, c2] : [c2, c1];
+      const key = `${sensor}:${other}`;
+      if (started) {
+        this.inside.set(key, [sensor, other]);
+        entered.add(key);
+      } else {
+        this.inside.delete(key);
+      }
+      sensors.push(this.sensorEvent(started ? "enter" : "exit", sensor, other));
+    });
+
+    for (const [key, [sensor, other]] of this.inside) {
+      if (!entered.has(key)) sensors.push(this.sensorEvent("stay", sensor, other));
+    }
+
+    this._contacts = contacts;
+    this._forces = forces;
+    this._sensors = sensors;
+  }
+
+  /** Overlapping sensor pairs, for physics snapshots. */
+  overlaps(): [ColliderHandle, ColliderHandle][] {
+    return [...this.inside.values()].map(([sensor, other]) => [sensor, other]);
+  }
+
+  /** Reset to the overlaps of a snapshot. The current event lists are dropped. */
+  restoreOverlaps(pairs: readonly (readonly [ColliderHandle, ColliderHandle])[]): void {
+    this.clear();
+    this.inside.clear();
+    for (const [sensor, other] of pairs) this.inside.set(`${sensor}:${other}`, [sensor, other]);
+  }
+
+  private pair(c1: ColliderHandle, c2: ColliderHandle, i1 = this.info(c1), i2 = this.info(c2)): ContactPair {
+    return { collider1: c1, collider2: c2, body1: i1.body, body2: i2.body, entity1: i1.entity, entity2: i2.entity };
+  }
+
+  private sensorEvent(type: SensorEvent["type"], sensor: ColliderHandle, other: ColliderHandle): SensorEvent {
+    const o = this.info(other);
+    return { type, sensor, other, sensorEntity: this.info(sensor).entity, otherBody: o.body, otherEntity: o.entity };
+  }
+}
@@ -1,8 +1,78 @@
+import type {
+  Collider,
+  ColliderDesc as RapierColliderDesc,
+  EventQueue,
+  RigidBody,
+  World as RapierWorld
+} from "@dimforge/rapier3d-compat";
 import type { PhysicsModule } from "./PhysicsModule";
+import { CollisionLayers, type CollisionLayersConfig } from "./layers";
+import { RapierEvents, type EventColliderInfo } from "./RapierEvents";
+import { RapierQueries } from "./RapierQueries";
+import type { StateSerializer } from "../world/snapshot";
+import type {
+  BodyDesc,
+  BodyHandle,
+  BodyType,
+  ColliderDesc,
+  ColliderHandle,
+  EntityId,
+  Quat,
+  ShapeDesc,
+  Vec3
+} from "./types";
 
-export type Vec3 = { x: number; y: number; z: number };
+export type { Vec3 } from "./types";
 export type RapierModule = typeof import("@dimforge/rapier3d-compat");
 
+export interface RapierPhysicsOptions {
+  gravity?: Vec3;
+  wasmUrl?: unknown;
+  layers?: CollisionLayers | CollisionLayersConfig;
+}
+
+/** `RapierPhysicsModule.snapshot()` data: the serialized world plus entity tags and sensor overlaps. */
+export interface RapierSnapshot {
+  world: Uint8Array;
+  bodyEntities: [BodyHandle, EntityId][];
+  colliderEntities: [ColliderHandle, EntityId][];
+  sensorOverlaps: [ColliderHandle, ColliderHandle][];
+}
+
+const BODY_TYPES: BodyType[] = ["dynamic", "fixed", "kinematicPosition", "kinematicVelocity"];
+
+function vec(v: { x: number; y: number; z: number }): Vec3 {
+  return { x: v.x, y: v.y, z: v.z };
+}
+
+function assertTriples(what: string, length: number): void {
+  if (length === 0 || length % 3 !== 0) throw new Error(`RapierPhysicsModule: ${what} length must be a non-zero multiple of 3`);
+}
+
+function shapeDesc(R: RapierModule, s: ShapeDesc): RapierColliderDesc {
+  switch (s.shape) {
+    case "box":
+      return R.ColliderDesc.cuboid(s.halfExtents.x, s.halfExtents.y, s.halfExtents.z);
+    case "ball":
+      return R.ColliderDesc.ball(s.radius);
+    case "capsule":
+      return R.ColliderDesc.capsule(s.halfHeight, s.radius);
+    case "trimesh":
+      assertTriples("trimesh vertices", s.vertices.length);
+      assertTriples("trimesh indices", s.indices.length);
+      return R.ColliderDesc.trimesh(Float32Array.from(s.vertices), Uint32Array.from(s.indices));
+    case "heightfield": {
+      const expected = (s.rows + 1) * (s.cols + 1);
+      if (s.heights.length !== expected) {
+        throw new Error(`RapierPhysicsModule: heightfield needs ${expected} heights (got: ${s.heights.length})`);
+      }
+      return R.ColliderDesc.heightfield(s.rows, s.cols, Float32Array.from(s.heights), s.scale);
+    }
+    default:
+      throw new Error(`RapierPhysicsModule: unknown shape "${(s as { shape: string }).shape}"`);
+  }
+}
+
 export class RapierPhysicsModule implements PhysicsModule {
   readonly kind = "rapier" as const;
 
@@ -12,13 +82,27 @@ export class RapierPhysicsModule implements PhysicsModule {
    * automatically. If provided, we pass it to `init({ module_or_path })`.
    */
   readonly wasmUrl?: unknown;
+  /** Named collision layers for `ColliderDesc.layer` and `QueryFilter.layers`, when configured. */
+  readonly layers: CollisionLayers | null;
   private readonly loader: () => Promise<unknown>;
   rapier: RapierModule | null = null;
   world: unknown = null;
 
-  constructor(opts?: { gravity?: Vec3; wasmUrl?: unknown; loader?: () => Promise<unknown> }) {
+  readonly queries: RapierQueries = new RapierQueries(this);
+  readonly events: RapierEvents = new RapierEvents((handle) => this.eventInfo(handle));
+
+  private queue: EventQueue | null = null;
+  private disposed = false;
+  private readonly bodyEntities = new Map<BodyHandle, EntityId>();
+  private readonly colliderEntities = new Map<ColliderHandle, EntityId>();
+  /** Colliders removed since the last step; their end/exit events are reported by the next one. */
+  private readonly removed = new Map<ColliderHandle, EventColliderInfo>();
+
+  constructor(opts?: RapierPhysicsOptions & { loader?: () => Promise<unknown> }) {
     this.gravity = opts?.gravity ?? { x: 0, y: -9.81, z: 0 };
     this.wasmUrl = opts?.wasmUrl;
+    const layers = opts?.layers;
+    this.layers = !layers ? null : layers instanceof CollisionLayers ? layers : new CollisionLayers(layers);
     this.loader =
       opts?.loader ??
       (async () => {
@@ -27,6 +111,7 @@ export class RapierPhysicsModule implements PhysicsModule {
   }
 
   async init(): Promise<void> {
+    if (this.disposed) throw new Error("RapierPhysicsModule: disposed");
     if (this.rapier) return;
 
     const ns = (await this.loader()) as unknown as RapierModule;
@@ -44,19 +129,326 @@ export class RapierPhysicsModule implements PhysicsModule {
       }
     }
 
+    // Disposed while loading: don't allocate a world nobody will free.
+    if (this.disposed) return;
+
     this.rapier = api as RapierModule;
     this.world = new (api as any).World(this.gravity);
+    if ((api as any).EventQueue) this.queue = new (api as any).EventQueue(true);
   }
 
+  /** Step the world; `events` then holds what happened during this step only. */
   step(dt: number): void {
+    this.events.clear();
     if (!this.world) return;
 
     const w: any = this.world;
     if (w.integrationParameters) w.integrationParameters.dt = dt;
-    if (typeof w.step === "function") w.step();
+    if (typeof w.step === "function") w.step(this.queue ?? undefined);
+    if (this.queue) this.events.collect(this.queue);
+    this.removed.clear();
+  }
+
+  /** Serialized Rapier world (`World.takeSnapshot()`) and entity tags; handles are preserved across restore. */
+  snapshot(): RapierSnapshot | undefined {
+    const w: any = this.world;
+    if (!w || typeof w.takeSnapshot !== "function") return undefined;
+    return {
+      world: w.takeSnapshot(),
+      bodyEntities: [...this.bodyEntities],
+      colliderEntities: [...this.colliderEntities],
+      sensorOverlaps: this.events.overlaps()
+    };
+  }
+
+  /**
+   * Replace the Rapier world with one restored from `snapshot()`. The previous world is freed,
+   * so raw `RigidBody` / `Collider` objects obtained from it must be re-resolved by handle
+   * (see `rigidBodySerializer()`).
+   */
+  restore(data: unknown): void {
+    if (!this.rapier) return;
+    // Bare world bytes are accepted too; entity tags and sensor overlaps are kept as they are then.
+    const snap = data instanceof Uint8Array ? null : (data as RapierSnapshot | null | undefined);
+    const bytes = snap ? snap.world : data;
+    if (!(bytes instanceof Uint8Array)) return;
+
+    const prev: any = this.world;
+    this.world = (this.rapier as any).World.restoreSnapshot(bytes);
+    if (prev && prev !== this.world && typeof prev.free === "function") prev.free();
+
+    this.queue?.clear();
+    this.removed.clear();
+    this.events.clear();
+    if (snap) {
+      this.bodyEntities.clear();
+      this.colliderEntities.clear();
+      for (const [handle, entity] of snap.bodyEntities) this.bodyEntities.set(handle, entity);
+      for (const [handle, entity] of snap.colliderEntities) this.colliderEntities.set(handle, entity);
+      this.events.restoreOverlaps(snap.sensorOverlaps ?? []);
+    }
   }
+
+  get ready(): boolean {
+    return this.rapier !== null && this.world !== null;
+  }
+
+  /**
+   * Free the Rapier world and event queue (WASM memory). Handles and raw Rapier objects become
+   * invalid and `ready` turns false; the module can't be initialized again.
+   */
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    const world: any = this.world;
+    const queue: any = this.queue;
+    this.world = null;
+    this.queue = null;
+    if (queue && typeof queue.free === "function") queue.free();
+    if (world && typeof world.free === "function") world.free();
+
+    this.bodyEntities.clear();
+    this.colliderEntities.clear();
+    this.removed.clear();
+    // Also clears the event lists.
+    this.events.restoreOverlaps([]);
+  }
+
+  /** Create a rigid body. Attach shapes with `createCollider(desc, body)`. */
+  createBody(desc: BodyDesc): BodyHandle {
+    const { R, world } = this.require();
+
+    let d;
+    switch (desc.type) {
+      case "dynamic":
+        d = R.RigidBodyDesc.dynamic();
+        break;
+      case "fixed":
+        d = R.RigidBodyDesc.fixed();
+        break;
+      case "kinematicPosition":
+        d = R.RigidBodyDesc.kinematicPositionBased();
+        break;
+      case "kinematicVelocity":
+        d = R.RigidBodyDesc.kinematicVelocityBased();
+        break;
+      default:
+        throw new Error(`RapierPhysicsModule: unknown body type "${(desc as { type: string }).type}"`);
+    }
+
+    if (desc.position) d.setTranslation(desc.position.x, desc.position.y, desc.position.z);
+    if (desc.rotation) d.setRotation(desc.rotation);
+    if (desc.linearVelocity) d.setLinvel(desc.linearVelocity.x, desc.linearVelocity.y, desc.linearVelocity.z);
+    if (desc.angularVelocity) d.setAngvel(desc.angularVelocity);
+    if (desc.linearDamping !== undefined) d.setLinearDamping(desc.linearDamping);
+    if (desc.angularDamping !== undefined) d.setAngularDamping(desc.angularDamping);
+    if (desc.gravityScale !== undefined) d.setGravityScale(desc.gravityScale);
+    if (desc.ccd !== undefined) d.setCcdEnabled(desc.ccd);
+    if (desc.canSleep !== undefined) d.setCanSleep(desc.canSleep);
+    if (desc.lockRotations) d.lockRotations();
+
+    const handle = world.createRigidBody(d).handle as BodyHandle;
+    // Handles of removed objects can come back after a restore; never inherit a stale tag.
+    if (desc.entity !== undefined) this.bodyEntities.set(handle, desc.entity);
+    else this.bodyEntities.delete(handle);
+    return handle;
+  }
+
+  /** Create a collider, attached to `body` or static in world space. */
+  createCollider(desc: ColliderDesc, body?: BodyHandle): ColliderHandle {
+    const { R, world } = this.require();
+
+    const d = shapeDesc(R, desc);
+    if (desc.position) d.setTranslation(desc.position.x, desc.position.y, desc.position.z);
+    if (desc.rotation) d.setRotation(desc.rotation);
+    if (desc.friction !== undefined) d.setFriction(desc.friction);
+    if (desc.restitution !== undefined) d.setRestitution(desc.restitution);
+    if (desc.density !== undefined) d.setDensity(desc.density);
+    if (desc.sensor !== undefined) d.setSensor(desc.sensor);
+    if (desc.layer !== undefined) {
+      if (desc.collisionGroups !== undefined) {
+        throw new Error("RapierPhysicsModule: give a collider either layer or collisionGroups");
+      }
+      d.setCollisionGroups(this.requireLayers().groups(desc.layer));
+    }
+    if (desc.collisionGroups !== undefined) d.setCollisionGroups(desc.collisionGroups);
+    if (desc.events ?? desc.sensor === true) {
+      d.setActiveEvents(R.ActiveEvents.COLLISION_EVENTS | (desc.sensor ? 0 : R.ActiveEvents.CONTACT_FORCE_EVENTS));
+    }
+    if (desc.contactForceThreshold !== undefined) d.setContactForceEventThreshold(desc.contactForceThreshold);
+
+    const parent = body === undefined ? undefined : this.body(body);
+    const handle = world.createCollider(d, parent).handle as ColliderHandle;
+    if (desc.entity !== undefined) this.colliderEntities.set(handle, desc.entity);
+    else this.colliderEntities.delete(handle);
+    return handle;
+  }
+
+  /** Remove a body together with its colliders. Unknown handles are ignored. */
+  removeBody(handle: BodyHandle): void {
+    const { world } = this.require();
+    const b = world.getRigidBody(handle);
+    if (!b) return;
+    for (let i = 0; i < b.numColliders(); i += 1) this.forget(b.collider(i).handle as ColliderHandle);
+    this.bodyEntities.delete(handle);
+    world.removeRigidBody(b);
+  }
+
+  /** Unknown handles are ignored. */
+  removeCollider(handle: ColliderHandle): void {
+    const { world } = this.require();
+    const c = world.getCollider(handle);
+    if (!c) return;
+    this.forget(handle);
+    world.removeCollider(c, true);
+  }
+
+  hasBody(handle: BodyHandle): boolean {
+    return this.ready && !!this.require().world.getRigidBody(handle);
+  }
+
+  hasCollider(handle: ColliderHandle): boolean {
+    return this.ready && !!this.require().world.getCollider(handle);
+  }
+
+  getBodyType(handle: BodyHandle): BodyType {
+    return BODY_TYPES[this.body(handle).bodyType()]!;
+  }
+
+  /** A disabled body (with its colliders) takes no part in the simulation until re-enabled. */
+  setBodyEnabled(handle: BodyHandle, enabled: boolean): void {
+    this.body(handle).setEnabled(enabled);
+  }
+
+  isBodyEnabled(handle: BodyHandle): boolean {
+    return this.body(handle).isEnabled();
+  }
+
+  /** Replace the entity tag of a body (null removes it). */
+  setBodyEntity(handle: BodyHandle, entity: EntityId | null): void {
+    this.body(handle); // throws for unknown handles
+    if (entity === null) this.bodyEntities.delete(handle);
+    else this.bodyEntities.set(handle, entity);
+  }
+
+  /** The body a collider is attached to, or null for static colliders. */
+  getColliderBody(handle: ColliderHandle): BodyHandle | null {
+    const parent = this.collider(handle).parent();
+    return parent ? (parent.handle as BodyHandle) : null;
+  }
+
+  /** The entity a collider was tagged with, else its body's, else null. */
+  getEntity(handle: ColliderHandle): EntityId | null {
+    const own = this.colliderEntities.get(handle);
+    if (own !== undefined) return own;
+    const parent = this.collider(handle).parent();
+    return parent ? (this.bodyEntities.get(parent.handle as BodyHandle) ?? null) : null;
+  }
+
+  getPosition(handle: BodyHandle): Vec3 {
+    return vec(this.body(handle).translation());
+  }
+
+  getRotation(handle: BodyHandle): Quat {
+    const r = this.body(handle).rotation();
+    return { x: r.x, y: r.y, z: r.z, w: r.w };
+  }
+
+  /** Teleport. Kinematic bodies should use `setNextKinematicPosition` to push what they touch. */
+  setPosition(handle: BodyHandle, position: Vec3, wake = true): void {
+    this.body(handle).setTranslation(position, wake);
+  }
+
+  setRotation(handle: BodyHandle, rotation: Quat, wake = true): void {
+    this.body(handle).setRotation(rotation, wake);
+  }
+
+  /** Target pose of a position-based kinematic body, reached by the next step. */
+  setNextKinematicPosition(handle: BodyHandle, position: Vec3): void {
+    this.body(handle).setNextKinematicTranslation(position);
+  }
+
+  setNextKinematicRotation(handle: BodyHandle, rotation: Quat): void {
+    this.body(handle).setNextKinematicRotation(rotation);
+  }
+
+  getLinearVelocity(handle: BodyHandle): Vec3 {
+    return vec(this.body(handle).linvel());
+  }
+
+  setLinearVelocity(handle: BodyHandle, velocity: Vec3, wake = true): void {
+    this.body(handle).setLinvel(velocity, wake);
+  }
+
+  getAngularVelocity(handle: BodyHandle): Vec3 {
+    return vec(this.body(handle).angvel());
+  }
+
+  setAngularVelocity(handle: BodyHandle, velocity: Vec3, wake = true): void {
+    this.body(handle).setAngvel(velocity, wake);
+  }
+
+  applyImpulse(handle: BodyHandle, impulse: Vec3, wake = true): void {
+    this.body(handle).applyImpulse(impulse, wake);
+  }
+
+  /** The configured layers; throws when there are none. */
+  requireLayers(): CollisionLayers {
+    if (!this.layers) throw new Error("RapierPhysicsModule: no collision layers configured (pass `layers` when creating it)");
+    return this.layers;
+  }
+
+  /** Drop a collider's entity tag, keeping what its pending end/exit events need. */
+  private forget(handle: ColliderHandle): void {
+    this.removed.set(handle, this.eventInfo(handle));
+    this.colliderEntities.delete(handle);
+  }
+
+  private eventInfo(handle: ColliderHandle): EventColliderInfo {
+    const c = (this.world as RapierWorld | null)?.getCollider(handle);
+    if (!c) return this.removed.get(handle) ?? { body: null, entity: null, sensor: false };
+    const parent = c.parent();
+    return { body: parent ? (parent.handle as BodyHandle) : null, entity: this.getEntity(handle), sensor: c.isSensor() };
+  }
+
+  private require(): { R: RapierModule; world: RapierWorld } {
+    if (!this.rapier || !this.world) {
+      throw new Error("RapierPhysicsModule: not initialized (await engine.init() first)");
+    }
+    return { R: this.rapier, world: this.world as RapierWorld };
+  }
+
+  private body(handle: BodyHandle): RigidBody {
+    const b = this.require().world.getRigidBody(handle);
+    if (!b) throw new Error(`RapierPhysicsModule: no body with handle ${handle}`);
+    return b;
+  }
+
+  private collider(handle: ColliderHandle): Collider {
+    const c = this.require().world.getCollider(handle);
+    if (!c) throw new Error(`RapierPhysicsModule: no collider with handle ${handle}`);
+    return c;
+  }
+
+  /**
+   * State serializer for entries holding a raw Rapier `RigidBody`: stores the body handle and
+   * resolves it against the (restored) physics world. Restoring throws if the module is not
+   * initialized or the body no longer exists.
+   */
+  rigidBodySerializer(): StateSerializer<RigidBody, number> {
+    return {
+      serialize: (body) => body.handle,
+      deserialize: (handle) => this.body(handle as BodyHandle)
+    };
+  }
+}
+
+/** Narrow `world.physics` to the Rapier module (e.g. in systems that must also run without physics). */
+export function isRapierPhysics(physics: PhysicsModule | null | undefined): physics is RapierPhysicsModule {
+  return (physics as { kind?: unknown } | null | undefined)?.kind === "rapier";
 }
 
-export function createRapierPhysics(opts?: { gravity?: Vec3; wasmUrl?: unknown }): RapierPhysicsModule {
+export function createRapierPhysics(opts?: RapierPhysicsOptions): RapierPhysicsModule {
   return new RapierPhysicsModule(opts);
 }
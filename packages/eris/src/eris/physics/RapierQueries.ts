@@ -0,0 +1,181 @@
+import type {
+  Collider,
+  InteractionGroups,
+  QueryFilterFlags,
+  Ray,
+  RayColliderIntersection,
+  RigidBody,
+  Shape,
+  World as RapierWorld
+} from "@dimforge/rapier3d-compat";
+import type { RapierModule, RapierPhysicsModule } from "./RapierPhysicsModule";
+import type {
+  CastShapeDesc,
+  PhysicsQueries,
+  QueryFilter,
+  QueryTarget,
+  RayHit,
+  ShapeCast,
+  ShapeHit
+} from "./queries";
+import type { BodyHandle, ColliderHandle, Vec3 } from "./types";
+
+type RapierFilter = [
+  flags: QueryFilterFlags | undefined,
+  groups: InteractionGroups | undefined,
+  excludeCollider: Collider | undefined,
+  excludeBody: RigidBody | undefined,
+  predicate: ((collider: Collider) => boolean) | undefined
+];
+
+function vec(v: { x: number; y: number; z: number }): Vec3 {
+  return { x: v.x, y: v.y, z: v.z };
+}
+
+function normalize(what: string, v: Vec3): Vec3 {
+  const len = Math.hypot(v.x, v.y, v.z);
+  if (!(len > 0) || !Number.isFinite(len)) throw new Error(`RapierPhysicsModule: ${what} must be a non-zero vector`);
+  return { x: v.x / len, y: v.y / len, z: v.z / len };
+}
+
+/** `PhysicsQueries` over a `RapierPhysicsModule`'s current world. */
+export class RapierQueries implements PhysicsQueries {
+  constructor(private readonly physics: RapierPhysicsModule) {}
+
+  castRay(origin: Vec3, direction: Vec3, maxDistance: number, filter?: QueryFilter): RayHit | null {
+    const { R, world } = this.require();
+    const dir = normalize("ray direction", direction);
+    const ray = new R.Ray(origin, dir);
+
+    const hit = world.castRayAndGetNormal(ray, maxDistance, true, ...this.filter(filter));
+    if (!hit) return null;
+    return this.rayHit(ray, hit);
+  }
+
+  castRayAll(origin: Vec3, direction: Vec3, maxDistance: number, filter?: QueryFilter): RayHit[] {
+    const { R, world } = this.require();
+    const dir = normalize("ray direction", direction);
+    const ray = new R.Ray(origin, dir);
+
+    const hits: RayHit[] = [];
+    world.intersectionsWithRay(
+      ray,
+      maxDistance,
+      true,
+      (hit) => {
+        hits.push(this.rayHit(ray, hit));
+        return true;
+      },
+      ...this.filter(filter)
+    );
+    return hits.sort((a, b) => a.distance - b.distance);
+  }
+
+  castShape(cast: ShapeCast, filter?: QueryFilter): ShapeHit | null {
+    const { world } = this.require();
+    const dir = normalize("shape cast direction", cast.direction);
+    const rotation = cast.rotation ?? { x: 0, y: 0, z: 0, w: 1 };
+
+    const shape = this.shape(cast.shape);
+    const hit = world.castShape(cast.position, rotation, dir, shape, 0, cast.maxDistance, true, ...this.filter(filter));
+    if (!hit) return null;
+    // Rapier reports the witness point and normal on the hit collider in world space.
+    return {
+      ...this.target(hit.collider),
+      distance: hit.time_of_impact,
+      point: vec(hit.witness1),
+      normal: vec(hit.normal1)
+    };
+  }
+
+  overlapPoint(point: Vec3, filter?: QueryFilter): QueryTarget[] {
+    const { world } = this.require();
+    const found: QueryTarget[] = [];
+    world.intersectionsWithPoint(
+      point,
+      (collider) => {
+        found.push(this.target(collider));
+        return true;
+      },
+      ...this.filter(filter)
+    );
+    return found;
+  }
+
+  overlapAabb(min: Vec3, max: Vec3, filter?: QueryFilter): QueryTarget[] {
+    const { R, world } = this.require();
+    if (min.x > max.x || min.y > max.y || min.z > max.z) {
+      throw new Error("RapierPhysicsModule: overlapAabb min must not exceed max");
+    }
+
+    const center = { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 };
+    const box = new R.Cuboid((max.x - min.x) / 2, (max.y - min.y) / 2, (max.z - min.z) / 2);
+    const found: QueryTarget[] = [];
+    world.intersectionsWithShape(
+      center,
+      { x: 0, y: 0, z: 0, w: 1 },
+      box,
+      (collider) => {
+        found.push(this.target(collider));
+        return true;
+      },
+      ...this.filter(filter)
+    );
+    return found;
+  }
+
+  private require(): { R: RapierModule; world: RapierWorld } {
+    const { rapier, world } = this.physics;
+    if (!rapier || !world) throw new Error("RapierPhysicsModule: not initialized (await engine.init() first)");
+    return { R: rapier, world: world as RapierWorld };
+  }
+
+  private shape(s: CastShapeDesc): Shape {
+    const { R } = this.require();
+    switch (s.shape) {
+      case "box":
+        return new R.Cuboid(s.halfExtents.x, s.halfExtents.y, s.halfExtents.z);
+      case "ball":
+        return new R.Ball(s.radius);
+      case "capsule":
+        return new R.Capsule(s.halfHeight, s.radius);
+      default:
+        throw new Error(`RapierPhysicsModule: cannot cast shape "${(s as { shape: string }).shape}"`);
+    }
+  }
+
+  private rayHit(ray: Ray, hit: RayColliderIntersection): RayHit {
+    const t = hit.timeOfImpact;
+    return { ...this.target(hit.collider), distance: t, point: vec(ray.pointAt(t)), normal: vec(hit.normal) };
+  }
+
+  private target(collider: Collider): QueryTarget {
+    const handle = collider.handle as ColliderHandle;
+    const parent = collider.parent();
+    return {
+      collider: handle,
+      body: parent ? (parent.handle as BodyHandle) : null,
+      entity: this.physics.getEntity(handle)
+    };
+  }
+
+  private groups(filter: QueryFilter): InteractionGroups | undefined {
+    if (filter.layers === undefined) return filter.groups;
+    if (filter.groups !== undefined) throw new Error("RapierPhysicsModule: give a query filter either layers or groups");
+    return this.physics.requireLayers().only(filter.layers);
+  }
+
+  private filter(filter: QueryFilter | undefined): RapierFilter {
+    if (!filter) return [undefined, undefined, undefined, undefined, undefined];
+
+    const { R, world } = this.require();
+    const predicate = filter.predicate;
+    return [
+      filter.includeSensors === false ? R.QueryFilterFlags.EXCLUDE_SENSORS : undefined,
+      this.groups(filter),
+      filter.excludeCollider === undefined ? undefined : world.getCollider(filter.excludeCollider) ?? undefined,
+      filter.excludeBody === undefined ? undefined : world.getRigidBody(filter.excludeBody) ?? undefined,
+      predicate ? (collider) => predicate(this.target(collider)) : undefined
+    ];
+  }
+}
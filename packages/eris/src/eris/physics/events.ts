@@ -0,0 +1,64 @@
+import type { BodyHandle, ColliderHandle, EntityId, Vec3 } from "./types";
+
+/** Two colliders in contact, with their bodies and entities (null when absent or already removed). */
+export interface ContactPair {
+  collider1: ColliderHandle;
+  collider2: ColliderHandle;
+  body1: BodyHandle | null;
+  body2: BodyHandle | null;
+  entity1: EntityId | null;
+  entity2: EntityId | null;
+}
+
+/** Contact forces summed over a pair's contact points, for one step. */
+export interface ContactForce {
+  total: Vec3;
+  totalMagnitude: number;
+  /** Direction of the strongest force along a contact normal. */
+  maxDirection: Vec3;
+  maxMagnitude: number;
+}
+
+export interface ContactEvent extends ContactPair {
+  type: "start" | "end";
+  /** Forces of the step the contact started in, when force events are on and above the threshold. */
+  force: ContactForce | null;
+}
+
+export interface ContactForceEvent extends ContactPair, ContactForce {}
+
+export interface SensorEvent {
+  /** `stay` is reported every step after `enter`, until `exit`. */
+  type: "enter" | "stay" | "exit";
+  sensor: ColliderHandle;
+  other: ColliderHandle;
+  sensorEntity: EntityId | null;
+  otherBody: BodyHandle | null;
+  otherEntity: EntityId | null;
+}
+
+/**
+ * Events of the last physics step, so `postPhysicsFixed` systems see the events of their own
+ * tick. The lists are replaced on every step; read them, don't keep them.
+ */
+export interface PhysicsEvents {
+  /** Solid colliders starting or ending contact. */
+  readonly contacts: readonly ContactEvent[];
+  /** Contact forces above the threshold of colliders with force events on. */
+  readonly forces: readonly ContactForceEvent[];
+  readonly sensors: readonly SensorEvent[];
+}
+
+/** Events of an empty world. */
+export const noopEvents: PhysicsEvents = {
+  contacts: [],
+  forces: [],
+  sensors: []
+};
+
+/** The collider paired with `collider`, or null when `collider` is not part of the pair. */
+export function otherCollider(pair: ContactPair, collider: ColliderHandle): ColliderHandle | null {
+  if (pair.collider1 === collider) return pair.collider2;
+  if (pair.collider2 === collider) return pair.collider1;
+  return null;
+}
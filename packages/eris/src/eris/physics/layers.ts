@@ -0,0 +1,115 @@
+/** Rapier interaction groups carry 16 membership bits and 16 filter bits. */
+export const MAX_COLLISION_LAYERS = 16;
+
+const ALL = 0xffff;
+
+export interface CollisionLayersConfig<L extends string = string> {
+  /** Layer names; at most 16. */
+  layers: readonly L[];
+  /**
+   * Which layers collide. Entries are symmetric: `{ ball: ["table"] }` makes balls and tables
+   * collide with each other. `"*"` stands for every layer. Pairs not listed don't collide.
+   */
+  collisions?: Partial<Record<L, readonly (L | "*")[]>>;
+}
+
+/** Pack interaction groups: 16 membership bits in the high half, 16 filter bits in the low half. */
+export function interactionGroups(memberships: number, filter: number): number {
+  return (((memberships & ALL) << 16) | (filter & ALL)) >>> 0;
+}
+
+/**
+ * Named collision layers and the matrix of which ones collide, turned into interaction groups
+ * for colliders (`ColliderDesc.layer`) and queries (`QueryFilter.layers`).
+ */
+export class CollisionLayers<L extends string = string> {
+  readonly names: readonly L[];
+
+  private readonly bits = new Map<L, number>();
+  private readonly masks = new Map<L, number>();
+
+  constructor(config: CollisionLayersConfig<L>) {
+    if (config.layers.length > MAX_COLLISION_LAYERS) {
+      throw new Error(`CollisionLayers: at most ${MAX_COLLISION_LAYERS} layers are supported (got: ${config.layers.length})`);
+    }
+
+    config.layers.forEach((name, i) => {
+      if (typeof name !== "string" || name.length === 0 || name === "*") {
+        throw new Error(`CollisionLayers: invalid layer name ${JSON.stringify(name)}`);
+      }
+      if (this.bits.has(name)) throw new Error(`CollisionLayers: duplicate layer "${name}"`);
+      this.bits.set(name, 1 << i);
+      this.masks.set(name, 0);
+    });
+    this.names = [...config.layers];
+
+    for (const [layer, others] of Object.entries(config.collisions ?? {}) as [L, readonly (L | "*")[]][]) {
+      this.bit(layer);
+      for (const other of others) {
+        if (other === "*") {
+          for (const name of this.names) this.link(layer, name);
+          continue;
+        }
+        this.bit(other);
+        this.link(layer, other);
+      }
+    }
+  }
+
+  has(name: string): name is L {
+    return this.bits.has(name as L);
+  }
+
+  /** The layer's membership bit. */
+  bit(layer: L): number {
+    const bit = this.bits.get(layer);
+    if (bit === undefined) throw new Error(`CollisionLayers: unknown layer "${layer}"`);
+    return bit;
+  }
+
+  /** Combined bits of one or more layers. */
+  mask(layers: L | readonly L[]): number {
+    let mask = 0;
+    for (const layer of typeof layers === "string" ? [layers] : (layers as readonly L[])) mask |= this.bit(layer);
+    return mask;
+  }
+
+  /** Layers that collide with `layer`, in declaration order. */
+  collidesWith(layer: L): L[] {
+    const mask = this.filterOf(layer);
+    return this.names.filter((name) => (mask & this.bit(name)) !== 0);
+  }
+
+  collides(a: L, b: L): boolean {
+    return (this.filterOf(a) & this.bit(b)) !== 0;
+  }
+
+  /** Interaction groups of a collider in `layers`: it collides with what any of them collides with. */
+  groups(layers: L | readonly L[]): number {
+    let filter = 0;
+    for (const layer of typeof layers === "string" ? [layers] : (layers as readonly L[])) filter |= this.filterOf(layer);
+    return interactionGroups(this.mask(layers), filter);
+  }
+
+  /**
+   * Query groups that only report colliders in `layers`. (Colliders whose layers collide with
+   * nothing at all are never reported.) To query as if a collider were in some layer, use `groups()`.
+   */
+  only(layers: L | readonly L[]): number {
+    return interactionGroups(ALL, this.mask(layers));
+  }
+
+  private filterOf(layer: L): number {
+    this.bit(layer);
+    return this.masks.get(layer)!;
+  }
+
+  private link(a: L, b: L): void {
+    this.masks.set(a, this.masks.get(a)! | this.bit(b));
+    this.masks.set(b, this.masks.get(b)! | this.bit(a));
+  }
+}
+
+export function createCollisionLayers<L extends string>(config: CollisionLayersConfig<L>): CollisionLayers<L> {
+  return new CollisionLayers(config);
+}
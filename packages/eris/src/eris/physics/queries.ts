@@ -0,0 +1,81 @@
+import type { BodyHandle, ColliderHandle, EntityId, Quat, ShapeDesc, Vec3 } from "./types";
+
+/** Shapes that can be swept by `castShape`. */
+export type CastShapeDesc = Extract<ShapeDesc, { shape: "box" | "ball" | "capsule" }>;
+
+export interface QueryFilter {
+  /**
+   * Interaction groups of the query (`memberships << 16 | filter`, as for `ColliderDesc.collisionGroups`):
+   * only colliders whose groups interact with these are reported.
+   */
+  groups?: number;
+  /** Only report colliders in these named layers (see `CollisionLayers.only`). Replaces `groups`. */
+  layers?: string | readonly string[];
+  excludeBody?: BodyHandle;
+  excludeCollider?: ColliderHandle;
+  /** Defaults to true. */
+  includeSensors?: boolean;
+  /** Return false to skip a collider. */
+  predicate?(target: QueryTarget): boolean;
+}
+
+/** A collider found by a query, with its body and entity (when tagged). */
+export interface QueryTarget {
+  collider: ColliderHandle;
+  /** Null for colliders without a body. */
+  body: BodyHandle | null;
+  /** The collider's `entity`, or its body's. */
+  entity: EntityId | null;
+}
+
+export interface RayHit extends QueryTarget {
+  /** Along the normalized direction, from the origin. */
+  distance: number;
+  point: Vec3;
+  /** Surface normal at `point`, in world space. */
+  normal: Vec3;
+}
+
+export interface ShapeCast {
+  shape: CastShapeDesc;
+  /** Start pose of the shape. */
+  position: Vec3;
+  rotation?: Quat;
+  direction: Vec3;
+  maxDistance: number;
+}
+
+export interface ShapeHit extends QueryTarget {
+  /** How far the shape travelled along the normalized direction before touching. */
+  distance: number;
+  /** Contact point on the hit collider, in world space. */
+  point: Vec3;
+  /** Surface normal of the hit collider at `point`, in world space. */
+  normal: Vec3;
+}
+
+/**
+ * Read-only questions about the physics world. Results reflect the last physics step:
+ * colliders created or moved since then are seen after the next step.
+ */
+export interface PhysicsQueries {
+  /** First hit along a ray, or null. Colliders containing the origin are hit at distance 0. */
+  castRay(origin: Vec3, direction: Vec3, maxDistance: number, filter?: QueryFilter): RayHit | null;
+  /** Every collider along a ray, nearest first. */
+  castRayAll(origin: Vec3, direction: Vec3, maxDistance: number, filter?: QueryFilter): RayHit[];
+  /** First collider touched by a shape swept along a direction, or null. */
+  castShape(cast: ShapeCast, filter?: QueryFilter): ShapeHit | null;
+  /** Colliders containing a point. */
+  overlapPoint(point: Vec3, filter?: QueryFilter): QueryTarget[];
+  /** Colliders overlapping an axis-aligned box. */
+  overlapAabb(min: Vec3, max: Vec3, filter?: QueryFilter): QueryTarget[];
+}
+
+/** Queries against an empty world. */
+export const noopQueries: PhysicsQueries = {
+  castRay: () => null,
+  castRayAll: () => [],
+  castShape: () => null,
+  overlapPoint: () => [],
+  overlapAabb: () => []
+};
@@ -0,0 +1,74 @@
+export type Vec3 = { x: number; y: number; z: number };
+export type Quat = { x: number; y: number; z: number; w: number };
+
+/**
+ * Stable identifiers for physics objects. They are plain numbers, so they can live in
+ * `World.state` and survive `World.snapshot()` / `restore()` without a serializer.
+ */
+export type BodyHandle = number & { readonly __bodyHandle: true };
+export type ColliderHandle = number & { readonly __colliderHandle: true };
+
+/** Game-side identifier attached to bodies and colliders, reported back by queries. */
+export type EntityId = string | number;
+
+export type BodyType = "dynamic" | "fixed" | "kinematicPosition" | "kinematicVelocity";
+
+export interface BodyDesc {
+  type: BodyType;
+  position?: Vec3;
+  rotation?: Quat;
+  linearVelocity?: Vec3;
+  angularVelocity?: Vec3;
+  linearDamping?: number;
+  angularDamping?: number;
+  gravityScale?: number;
+  /** Continuous collision detection, for fast small bodies. */
+  ccd?: boolean;
+  canSleep?: boolean;
+  lockRotations?: boolean;
+  /** Reported by queries for this body's colliders (unless they have their own). */
+  entity?: EntityId;
+}
+
+export type ShapeDesc =
+  | { shape: "box"; halfExtents: Vec3 }
+  | { shape: "ball"; radius: number }
+  /** Along Y; `halfHeight` excludes the caps. */
+  | { shape: "capsule"; halfHeight: number; radius: number }
+  /** Flat `[x, y, z, ...]` vertices and `[a, b, c, ...]` triangle indices. */
+  | { shape: "trimesh"; vertices: ArrayLike<number>; indices: ArrayLike<number> }
+  /**
+   * `(rows + 1) * (cols + 1)` heights in column-major order, spanning `scale.x` by `scale.z`
+   * centered on the origin; heights are multiplied by `scale.y`.
+   */
+  | { shape: "heightfield"; rows: number; cols: number; heights: ArrayLike<number>; scale: Vec3 };
+
+export type ColliderDesc = ShapeDesc & {
+  /** Relative to the parent body, or in world space for colliders without a body. */
+  position?: Vec3;
+  rotation?: Quat;
+  friction?: number;
+  restitution?: number;
+  density?: number;
+  /** Reports overlaps but produces no contact forces. */
+  sensor?: boolean;
+  /**
+   * Interaction groups: 16 membership bits in the high half, 16 filter bits in the low half.
+   * Two colliders interact when each one's memberships intersect the other's filter.
+   * Defaults to all groups (`0xffffffff`).
+   */
+  collisionGroups?: number;
+  /**
+   * Named layer(s) from the physics module's `CollisionLayers`; sets `collisionGroups` from the
+   * collision matrix.
+   */
+  layer?: string | readonly string[];
+  /**
+   * Report contact start/end (and contact forces) for pairs involving this collider, see
+   * `PhysicsEvents`. Defaults to true for sensors, false otherwise.
+   */
+  events?: boolean;
+  /** Minimum total force for contact force events. Defaults to 0. */
+  contactForceThreshold?: number;
+  entity?: EntityId;
+};
@@ -1,11 +1,15 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import type { ReactNode } from "react";
 import type { Engine } from "../engine/Engine";
+import { EngineProvider } from "./EngineContext";
 
 export type EngineContainerStatus = "idle" | "initializing" | "ready" | "error";
 
 export interface EngineContainerProps {
-  /** Factory used for first init and for retries (creates a fresh Engine). */
+  /**
+   * Factory used for first init and for retries (creates a fresh Engine). The container owns
+   * the engines it creates: they are disposed when replaced by a retry and on unmount.
+   */
   createEngine: () => Engine;
 
   /** Render children only once the engine is ready. */
@@ -35,11 +39,16 @@ export interface EngineContainerProps {
  * - Create the engine via `createEngine`.
  * - Once ready, render `EngineLoop` and your scene systems.
  * - If init fails, show an error UI that can call `retry()`.
+ *
+ * Everything it renders (loading and error UI included) sees the engine through
+ * `useEngine()` / `useEngineStatus()`.
  */
 export function EngineContainer(props: EngineContainerProps) {
   const { createEngine, children, loading = null, error, autoInit = true, onReady } = props;
 
   const [engine, setEngine] = useState<Engine>(() => createEngine());
+  const createRef = useRef(createEngine);
+  createRef.current = createEngine;
   const [status, setStatus] = useState<EngineContainerStatus>(autoInit ? "initializing" : "idle");
   const [initError, setInitError] = useState<unknown>(null);
 
@@ -47,7 +56,16 @@ export function EngineContainer(props: EngineContainerProps) {
     setEngine(createEngine());
   }, [createEngine]);
 
+  // Dispose the engine when a retry replaces it and on unmount.
+  useEffect(() => () => engine.dispose(), [engine]);
+
   useEffect(() => {
+    // StrictMode remounts effects after the cleanup above disposed the engine: start over.
+    if (engine.disposed) {
+      setEngine(createRef.current());
+      return;
+    }
+
     if (!autoInit) {
       setStatus("idle");
       return;
@@ -75,13 +93,17 @@ export function EngineContainer(props: EngineContainerProps) {
     };
   }, [engine, autoInit, onReady]);
 
-  if (status === "ready") return <>{children(engine)}</>;
-
-  if (status === "error") {
-    if (error) return <>{error({ error: initError, retry, engine })}</>;
-    // Let the nearest error boundary handle it.
-    throw initError;
+  let content: ReactNode = loading;
+  if (status === "ready") content = children(engine);
+  else if (status === "error") {
+    // Without an error UI, let the nearest error boundary handle it.
+    if (!error) throw initError;
+    content = error({ error: initError, retry, engine });
   }
 
-  return <>{loading}</>;
+  return (
+    <EngineProvider engine={engine} status={status} error={initError} retry={retry}>
+      {content}
+    </EngineProvider>
+  );
 }
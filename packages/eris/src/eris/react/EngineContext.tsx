@@ -0,0 +1,105 @@
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import type { Engine } from "../engine/Engine";
+import type { EngineContainerStatus } from "./EngineContainer";
+
+export interface EngineStatusValue {
+  status: EngineContainerStatus;
+  /** The init error while `status` is "error". */
+  error: unknown;
+  /** Recreate the engine (only inside `EngineContainer`; a no-op otherwise). */
+  retry: () => void;
+}
+
+// Separate contexts: status changes don't re-render components that only need the engine.
+const EngineContext = createContext<Engine | null>(null);
+const EngineStatusContext = createContext<EngineStatusValue | null>(null);
+
+export interface EngineProviderProps {
+  engine: Engine;
+  /**
+   * Overrides the tracked status (`EngineContainer` passes its own). Without it the provider
+   * calls `engine.init()` and reports "initializing" / "ready" / "error".
+   */
+  status?: EngineContainerStatus;
+  error?: unknown;
+  retry?: () => void;
+  children?: ReactNode;
+}
+
+function noop(): void {}
+
+/** Make `engine` available to `useEngine()` and the other engine hooks below this point. */
+export function EngineProvider(props: EngineProviderProps) {
+  const { engine, status, error = null, retry = noop, children } = props;
+
+  const [tracked, setTracked] = useState<{ status: EngineContainerStatus; error: unknown }>(() => ({
+    status: engine.ready ? "ready" : "initializing",
+    error: null
+  }));
+
+  useEffect(() => {
+    if (status !== undefined) return;
+
+    let cancelled = false;
+    const initial: EngineContainerStatus = engine.ready ? "ready" : "initializing";
+    setTracked((prev) => (prev.status === initial && prev.error === null ? prev : { status: initial, error: null }));
+
+    void engine
+      .init()
+      .then(() => {
+        if (!cancelled) setTracked({ status: "ready", error: null });
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setTracked({ status: "error", error: e });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [engine, status]);
+
+  const value = useMemo<EngineStatusValue>(
+    () => (status !== undefined ? { status, error, retry } : { status: tracked.status, error: tracked.error, retry }),
+    [status, error, retry, tracked]
+  );
+
+  return (
+    <EngineContext.Provider value={engine}>
+      <EngineStatusContext.Provider value={value}>{children}</EngineStatusContext.Provider>
+    </EngineContext.Provider>
+  );
+}
+
+/** The nearest provided engine. Throws outside `EngineContainer` / `EngineProvider`. */
+export function useEngine(): Engine {
+  const engine = useContext(EngineContext);
+  if (!engine) throw new Error(noProvider("useEngine"));
+  return engine;
+}
+
+/** Init status of the nearest provided engine, with the error and `retry()` for error UIs. */
+export function useEngineStatus(): EngineStatusValue {
+  const value = useContext(EngineStatusContext);
+  if (!value) throw new Error(noProvider("useEngineStatus"));
+  return value;
+}
+
+/** Status of `engine` when it is the provided one; null otherwise (it is not tracked here). */
+export function useProvidedEngineStatus(engine: Engine): EngineContainerStatus | null {
+  const provided = useContext(EngineContext);
+  const value = useContext(EngineStatusContext);
+  return provided === engine && value ? value.status : null;
+}
+
+/** For components taking an optional `engine` prop: the prop, else the provided engine. */
+export function useEngineOrProp(engine: Engine | undefined, caller: string): Engine {
+  const provided = useContext(EngineContext);
+  const resolved = engine ?? provided;
+  if (!resolved) throw new Error(`${caller}: no engine (pass the engine prop or render inside <EngineProvider>)`);
+  return resolved;
+}
+
+function noProvider(caller: string): string {
+  return `${caller}: no engine in context (render inside <EngineContainer> or <EngineProvider>)`;
+}
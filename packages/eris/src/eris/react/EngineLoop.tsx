@@ -1,16 +1,20 @@
 import { useEffect } from "react";
 import { useFrame } from "@react-three/fiber";
 import type { Engine } from "../engine/Engine";
+import { useEngineOrProp } from "./EngineContext";
 
-export function EngineLoop(props: { engine: Engine; priority?: number }) {
-  const { engine, priority = 0 } = props;
+/** Drives `engine.frame()` from R3F's render loop. `engine` defaults to the provided one. */
+export function EngineLoop(props: { engine?: Engine; priority?: number }) {
+  const { priority = 0 } = props;
+  const engine = useEngineOrProp(props.engine, "EngineLoop");
 
   useEffect(() => {
-    void engine.init();
+    if (!engine.disposed) void engine.init();
   }, [engine]);
 
   useFrame((_state, delta) => {
-    engine.frame(delta);
+    // R3F may render once more while an unmounting container disposes the engine.
+    if (!engine.disposed) engine.frame(delta);
   }, priority);
 
   return null;
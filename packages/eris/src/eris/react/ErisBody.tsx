@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from "react";
+import type { ReactNode, RefObject } from "react";
+import type { Group } from "three";
+import type { Engine } from "../engine/Engine";
+import type { SystemHandle } from "../engine/system";
+import { isRapierPhysics } from "../physics/RapierPhysicsModule";
+import type { BodyDesc, BodyHandle, ColliderDesc, ColliderHandle } from "../physics/types";
+import { PoseInterpolator, type PoseTarget } from "../render/PoseInterpolator";
+import { useEngineOrProp, useProvidedEngineStatus } from "./EngineContext";
+
+export interface ErisBodyDesc extends BodyDesc {
+  /** Attached to the body, in order. */
+  collider?: ColliderDesc | readonly ColliderDesc[];
+  /** Keep the handle in world state under this key while the body exists. */
+  stateKey?: string;
+  /** Draw the bound object at the body's interpolated pose. Defaults to true. */
+  interpolate?: boolean;
+  /** Called once the body and its colliders exist. */
+  onCreate?(body: BodyHandle, colliders: ColliderHandle[]): void;
+}
+
+export interface ErisBodyProps extends ErisBodyDesc {
+  /** Defaults to the engine from `EngineProvider` / `EngineContainer`. */
+  engine?: Engine;
+  children?: ReactNode;
+}
+
+type SharedInterpolator = { interp: PoseInterpolator; handles: SystemHandle[]; users: number };
+
+// One interpolator per engine serves every mounted body; its systems live while any body does.
+const interpolators = new WeakMap<Engine, SharedInterpolator>();
+
+function acquireInterpolator(engine: Engine): PoseInterpolator {
+  let shared = interpolators.get(engine);
+  if (!shared) {
+    shared = { interp: new PoseInterpolator(), handles: [], users: 0 };
+    interpolators.set(engine, shared);
+  }
+  if (shared.users === 0) shared.handles = engine.registerSystems(shared.interp.systems("eris.bodies.interpolate"));
+  shared.users += 1;
+  return shared.interp;
+}
+
+function releaseInterpolator(engine: Engine): void {
+  const shared = interpolators.get(engine);
+  if (!shared || shared.users === 0) return;
+  shared.users -= 1;
+  if (shared.users > 0) return;
+  for (const h of shared.handles) h.unregister();
+  shared.handles = [];
+}
+
+function toList(collider: ErisBodyDesc["collider"]): readonly ColliderDesc[] {
+  if (collider === undefined) return [];
+  return Array.isArray(collider) ? (collider as readonly ColliderDesc[]) : [collider as ColliderDesc];
+}
+
+/**
+ * Own a physics body for the lifetime of the calling component.
+ *
+ * The body and its colliders are created once the engine is ready (as reported by the provider
+ * when `engine` is the provided one) and its physics is a `RapierPhysicsModule` (other physics
+ * modules get no body), then removed on unmount. `object`, when given, is drawn at the body's
+ * pose from then on. Init failures create nothing; `EngineContainer` / `useEngineStatus`
+ * report them.
+ *
+ * `desc` is read when the body is created; later changes are ignored, so re-key the component
+ * to rebuild the body. Returns the handle, or null until it exists.
+ */
+export function useErisBody(
+  engine: Engine,
+  desc: ErisBodyDesc,
+  object?: RefObject<PoseTarget | null>
+): BodyHandle | null {
+  const [handle, setHandle] = useState<BodyHandle | null>(null);
+  const descRef = useRef(desc);
+  descRef.current = desc;
+
+  const providedStatus = useProvidedEngineStatus(engine);
+  const [initialized, setInitialized] = useState(engine.ready);
+  const ready = providedStatus === null ? initialized : providedStatus === "ready";
+
+  // Without a provider tracking this engine, wait for init here.
+  useEffect(() => {
+    if (providedStatus !== null || engine.disposed) return;
+    let cancelled = false;
+    engine.init().then(
+      () => {
+        if (!cancelled) setInitialized(true);
+      },
+      () => {
+        // Nothing to create; the failure is the engine owner's to report.
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [engine, providedStatus]);
+
+  useEffect(() => {
+    if (!ready || !engine.ready || engine.disposed) return;
+
+    const physics = engine.world.physics;
+    if (!isRapierPhysics(physics) || !physics.ready) return;
+
+    const { collider, stateKey, interpolate = true, onCreate, ...bodyDesc } = descRef.current;
+    const body = physics.createBody(bodyDesc);
+    let interp: PoseInterpolator | null = null;
+
+    const release = () => {
+      if (interp) {
+        interp.untrack(body);
+        releaseInterpolator(engine);
+      }
+      if (stateKey !== undefined && engine.world.get(stateKey) === body) engine.world.delete(stateKey);
+      // A disposed or swapped-out module took its bodies with it. Removing the body removes
+      // the colliders already attached to it.
+      if (physics.ready && engine.world.physics === physics) physics.removeBody(body);
+    };
+
+    try {
+      const colliders = toList(collider).map((c) => physics.createCollider(c, body));
+      if (stateKey !== undefined) engine.world.set(stateKey, body);
+
+      const target = interpolate ? object?.current : null;
+      if (target) {
+        interp = acquireInterpolator(engine);
+        interp.track(body, target);
+      }
+
+      onCreate?.(body, colliders);
+    } catch (e) {
+      // The effect never returns its cleanup, so release here; React reports the error.
+      release();
+      throw e;
+    }
+    setHandle(body);
+
+    return () => {
+      release();
+      setHandle(null);
+    };
+  }, [engine, ready]);
+
+  return handle;
+}
+
+/**
+ * A physics body rendered by its children.
+ *
+ * The children are wrapped in a group that follows the body (see `useErisBody`); give them
+ * offsets relative to the body, not world positions.
+ */
+export function ErisBody(props: ErisBodyProps) {
+  const { engine: engineProp, children, ...desc } = props;
+  const engine = useEngineOrProp(engineProp, "ErisBody");
+  const groupRef = useRef<Group>(null);
+
+  useErisBody(engine, desc, groupRef);
+
+  return <group ref={groupRef}>{children}</group>;
+}
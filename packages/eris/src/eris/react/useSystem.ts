@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import type { DependencyList } from "react";
+import type { Engine } from "../engine/Engine";
+import type { System } from "../engine/system";
+
+/**
+ * Register one or more systems for the lifetime of the calling component.
+ *
+ * Systems are registered on mount and unregistered on unmount (or when `deps` change),
+ * so StrictMode remounts don't leak systems or trip the duplicate-name check.
+ *
+ * Pass a factory when the systems own resources (`dispose`): unregistering disposes them,
+ * and the factory hands the next mount a fresh instance.
+ */
+export function useSystem(
+  engine: Engine,
+  systems: System | readonly System[] | (() => System | readonly System[]),
+  deps: DependencyList = []
+): void {
+  useEffect(() => {
+    const created = typeof systems === "function" ? systems() : systems;
+    const list: readonly System[] = Array.isArray(created) ? created : [created as System];
+    const handles = engine.registerSystems(list);
+
+    return () => {
+      for (const h of handles) h.unregister();
+    };
+    // `systems` is intentionally excluded: callers control re-registration through `deps`.
+  }, [engine, ...deps]);
+}
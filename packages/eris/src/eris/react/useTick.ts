@@ -0,0 +1,47 @@
+import { useEffect, useId, useRef } from "react";
+import type { Phase } from "../engine/phases";
+import type { SystemContext } from "../engine/system";
+import type { World } from "../world/World";
+import { useEngine } from "./EngineContext";
+
+export type TickCallback = (world: World, dt: number, ctx: SystemContext | undefined) => void;
+
+export interface TickOptions {
+  /** Defaults to "update". */
+  phase?: Phase;
+  order?: number;
+  before?: readonly string[];
+  after?: readonly string[];
+}
+
+/**
+ * Run `callback` as a system of the nearest provided engine while the component is mounted
+ * (the engine-side counterpart of R3F's `useFrame`).
+ *
+ * The latest `callback` is always called, so it can close over props and state without
+ * re-registering. Changing `opts` re-registers the system.
+ */
+export function useTick(callback: TickCallback, opts: TickOptions = {}): void {
+  const engine = useEngine();
+  const id = useId();
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  const { phase = "update", order, before, after } = opts;
+
+  useEffect(() => {
+    const handle = engine.registerSystem({
+      name: `react.tick${id}`,
+      phase,
+      order,
+      before,
+      after,
+      run: (world, dt, ctx) => callbackRef.current(world, dt, ctx)
+    });
+
+    return () => {
+      handle.unregister();
+    };
+    // `before` / `after` are compared by content so inline arrays don't re-register every render.
+  }, [engine, id, phase, order, before?.join("\0"), after?.join("\0")]);
+}
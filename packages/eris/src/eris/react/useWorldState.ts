@@ -0,0 +1,94 @@
+import { useCallback, useRef, useSyncExternalStore } from "react";
+import type { StateKey } from "../world/World";
+import { useEngine } from "./EngineContext";
+
+export interface WorldStateOptions<T, S> {
+  /** Derive the rendered value; only changes of the selection re-render. */
+  select?: (value: T | undefined) => S;
+  /**
+   * Compares the previous and next selection. Defaults to `Object.is`; pass `shallowEqual`
+   * (or your own) when `select` builds a fresh object each time.
+   */
+  equals?: (a: S, b: S) => boolean;
+  /**
+   * Re-read at most this often (milliseconds); a change inside the window is picked up when it
+   * ends. Defaults to every notification.
+   */
+  throttleMs?: number;
+}
+
+/** Same keys, `Object.is`-equal values. Arrays compare element-wise. */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+
+  const ka = Object.keys(a);
+  if (ka.length !== Object.keys(b).length) return false;
+  for (const k of ka) {
+    if (!Object.prototype.hasOwnProperty.call(b, k)) return false;
+    if (!Object.is((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k])) return false;
+  }
+  return true;
+}
+
+function now(): number {
+  return typeof performance !== "undefined" ? performance.now() : Date.now();
+}
+
+/**
+ * Read a `World.state` entry from the nearest provided engine and re-render when it changes.
+ *
+ * Subscribes with `world.subscribe`, so it is notified at the end of frames in which the key
+ * was set or deleted. Objects mutated in place are only seen when they are `set` again.
+ */
+export function useWorldState<T>(key: string | StateKey<T>): T | undefined;
+export function useWorldState<T, S>(key: string | StateKey<T>, opts: WorldStateOptions<T, S>): S;
+export function useWorldState<T, S>(key: string | StateKey<T>, opts: WorldStateOptions<T, S> = {}): S {
+  const engine = useEngine();
+  const k = typeof key === "string" ? key : key.key;
+
+  const optsRef = useRef(opts);
+  optsRef.current = opts;
+  const cache = useRef<{ key: string; value: S } | null>(null);
+
+  const read = useCallback((): S => {
+    const { select, equals = Object.is } = optsRef.current;
+    const raw = engine.world.get<T>(k);
+    const next = select ? select(raw) : (raw as S);
+
+    const prev = cache.current;
+    if (prev && prev.key === k && equals(prev.value, next)) return prev.value;
+    cache.current = { key: k, value: next };
+    return next;
+  }, [engine, k]);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      let last = -Infinity;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const off = engine.world.subscribe(k, () => {
+        const throttleMs = optsRef.current.throttleMs ?? 0;
+        const t = now();
+        if (throttleMs <= 0 || t - last >= throttleMs) {
+          last = t;
+          onChange();
+          return;
+        }
+        timer ??= setTimeout(() => {
+          timer = null;
+          last = now();
+          onChange();
+        }, throttleMs - (t - last));
+      });
+
+      return () => {
+        off();
+        if (timer !== null) clearTimeout(timer);
+      };
+    },
+    [engine, k]
+  );
+
+  return useSyncExternalStore(subscribe, read, read);
+}
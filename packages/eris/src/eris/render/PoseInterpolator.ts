@@ -0,0 +1,198 @@
+import type { System } from "../engine/system";
+import type { World } from "../world/World";
+import type { BodyHandle, Quat, Vec3 } from "../physics/types";
+
+export interface Pose {
+  position: Vec3;
+  rotation: Quat;
+}
+
+/** Where poses come from; `RapierPhysicsModule` is one. */
+export interface PoseSource {
+  getPosition(body: BodyHandle): Vec3;
+  getRotation(body: BodyHandle): Quat;
+  /** Bodies that don't exist (anymore) are skipped. */
+  hasBody?(body: BodyHandle): boolean;
+}
+
+/** The part of a THREE `Object3D` the interpolator writes. */
+export interface PoseTarget {
+  position: { set(x: number, y: number, z: number): unknown };
+  quaternion: { set(x: number, y: number, z: number, w: number): unknown };
+}
+
+export interface PoseInterpolatorOptions {
+  /**
+   * Moving farther than this in one tick counts as a teleport: the new pose is shown as is
+   * instead of sweeping through the space in between. Defaults to 2.
+   */
+  teleportDistance?: number;
+}
+
+type Track = {
+  object: PoseTarget;
+  teleportDistance: number;
+  prev: Pose | null;
+  curr: Pose | null;
+  teleported: boolean;
+};
+
+function readPose(source: PoseSource, body: BodyHandle): Pose {
+  const p = source.getPosition(body);
+  const r = source.getRotation(body);
+  return { position: { x: p.x, y: p.y, z: p.z }, rotation: { x: r.x, y: r.y, z: r.z, w: r.w } };
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+/** Shortest-path spherical interpolation; falls back to normalized lerp for nearly equal rotations. */
+function slerp(a: Quat, b: Quat, t: number): Quat {
+  let { x, y, z, w } = b;
+  let cos = a.x * x + a.y * y + a.z * z + a.w * w;
+  if (cos < 0) {
+    cos = -cos;
+    x = -x;
+    y = -y;
+    z = -z;
+    w = -w;
+  }
+
+  let ka = 1 - t;
+  let kb = t;
+  if (cos < 0.9995) {
+    const angle = Math.acos(cos);
+    const sin = Math.sin(angle);
+    ka = Math.sin((1 - t) * angle) / sin;
+    kb = Math.sin(t * angle) / sin;
+  }
+
+  const q = { x: a.x * ka + x * kb, y: a.y * ka + y * kb, z: a.z * ka + z * kb, w: a.w * ka + w * kb };
+  const len = Math.hypot(q.x, q.y, q.z, q.w) || 1;
+  return { x: q.x / len, y: q.y / len, z: q.z / len, w: q.w / len };
+}
+
+/**
+ * Smooth rendering of physics bodies between fixed ticks.
+ *
+ * `capture()` (end of every fixed tick) keeps the previous and current pose of each tracked
+ * body; `apply(alpha)` (in `renderApply`) writes the pose `alpha` of the way from previous to
+ * current into the bound objects. Rendering therefore lags the simulation by up to one tick.
+ */
+export class PoseInterpolator {
+  readonly teleportDistance: number;
+
+  private readonly tracks = new Map<BodyHandle, Track>();
+
+  constructor(opts: PoseInterpolatorOptions = {}) {
+    this.teleportDistance = opts.teleportDistance ?? 2;
+  }
+
+  /** Bind a body to an object (replacing an earlier binding of the same body). */
+  track(body: BodyHandle, object: PoseTarget, opts: PoseInterpolatorOptions = {}): void {
+    const existing = this.tracks.get(body);
+    if (existing && existing.object === object) return;
+    this.tracks.set(body, {
+      object,
+      teleportDistance: opts.teleportDistance ?? this.teleportDistance,
+      prev: null,
+      curr: null,
+      teleported: false
+    });
+  }
+
+  untrack(body: BodyHandle): void {
+    this.tracks.delete(body);
+  }
+
+  isTracking(body: BodyHandle): boolean {
+    return this.tracks.has(body);
+  }
+
+  /** Show the body's next captured pose without interpolating towards it (resets, respawns). */
+  teleport(body: BodyHandle): void {
+    const t = this.tracks.get(body);
+    if (t) t.teleported = true;
+  }
+
+  /** Record the current pose of every tracked body. Call once at the end of each fixed tick. */
+  capture(source: PoseSource): void {
+    for (const [body, t] of this.tracks) {
+      if (source.hasBody && !source.hasBody(body)) continue;
+
+      const pose = readPose(source, body);
+      const jump = t.curr
+        ? Math.hypot(pose.position.x - t.curr.position.x, pose.position.y - t.curr.position.y, pose.position.z - t.curr.position.z)
+        : 0;
+      t.prev = !t.curr || t.teleported || jump > t.teleportDistance ? pose : t.curr;
+      t.curr = pose;
+      t.teleported = false;
+    }
+  }
+
+  /**
+   * Write interpolated poses into the bound objects. Bodies not captured yet show their
+   * current pose.
+   */
+  apply(source: PoseSource, alpha: number): void {
+    const a = Math.max(0, Math.min(alpha, 1));
+    for (const [body, t] of this.tracks) {
+      if (!t.curr) {
+        if (source.hasBody && !source.hasBody(body)) continue;
+        t.curr = t.prev = readPose(source, body);
+      }
+
+      const prev = t.prev!;
+      const curr = t.curr;
+      t.object.position.set(
+        lerp(prev.position.x, curr.position.x, a),
+        lerp(prev.position.y, curr.position.y, a),
+        lerp(prev.position.z, curr.position.z, a)
+      );
+      const q = slerp(prev.rotation, curr.rotation, a);
+      t.object.quaternion.set(q.x, q.y, q.z, q.w);
+    }
+  }
+
+  /**
+   * A `postPhysicsFixed` capture system and a `renderApply` apply system reading poses from
+   * `world.physics` (skipped while it can't provide them). Names are `${name}.capture` /
+   * `${name}.apply`; `name` defaults to "render.interpolate".
+   */
+  systems(name = "render.interpolate"): System[] {
+    return [
+      {
+        name: `${name}.capture`,
+        phase: "postPhysicsFixed",
+        order: Number.MAX_SAFE_INTEGER - 1,
+        run: (world) => {
+          const source = poseSource(world);
+          if (source) this.capture(source);
+        }
+      },
+      {
+        name: `${name}.apply`,
+        phase: "renderApply",
+        // Before scene systems, so they can still adjust the objects.
+        order: Number.MIN_SAFE_INTEGER,
+        run: (world, alpha, ctx) => {
+          const source = poseSource(world);
+          if (source) this.apply(source, ctx?.alpha ?? alpha);
+        }
+      }
+    ];
+  }
+}
+
+function poseSource(world: World): PoseSource | null {
+  const physics = world.physics as Partial<PoseSource> & { ready?: boolean };
+  if (physics.ready === false || typeof physics.getPosition !== "function" || typeof physics.getRotation !== "function") {
+    return null;
+  }
+  return physics as PoseSource;
+}
+
+export function createPoseInterpolator(opts?: PoseInterpolatorOptions): PoseInterpolator {
+  return new PoseInterpolator(opts);
+}
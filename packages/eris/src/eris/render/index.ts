@@ -1,3 +1,4 @@
-// Reserved for render-facing helpers (pose history, interpolation, instancing).
-// Intentionally minimal: react-three-eris does not own the scene graph.
-
+// Render-facing helpers (pose history, interpolation).
+// Intentionally minimal: react-three-eris does not own the scene graph; these write into
+// objects the app binds to them.
+export * from "./PoseInterpolator";
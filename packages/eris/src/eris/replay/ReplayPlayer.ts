@@ -0,0 +1,177 @@
+import type { Engine } from "../engine/Engine";
+import type { SystemHandle } from "../engine/system";
+import type { World } from "../world/World";
+import { worldChecksum } from "./checksum";
+import { assertReplayVersion, type ReplayFile, type ReplayTick } from "./format";
+
+/** The first checksum mismatch found during playback. */
+export interface ReplayDivergence {
+  tick: number;
+  expected: number;
+  actual: number;
+}
+
+export interface ReplayPlayerOptions {
+  /** Must match the recorder's checksum. Defaults to `worldChecksum(world, { exclude: replay.keys })`. */
+  checksum?(world: World): number;
+  /** Called once, for the first tick whose checksum doesn't match. */
+  onDivergence?(divergence: ReplayDivergence): void;
+  /** Restore `replay.initial` (when present) before playing. Defaults to true. */
+  restoreInitial?: boolean;
+  /**
+   * Prefix of the player's system names, so several players can share an engine.
+   * Defaults to "replay" (systems "replay.playback" and "replay.verify").
+   */
+  systemName?: string;
+}
+
+/**
+ * Feeds a replay into the fixed phase: every tick, the recorded keys and `world.now` are
+ * written before gameplay runs, and the world checksum is compared after the tick wherever
+ * the replay has one. `world.random` is rewound to where the recording started.
+ *
+ * The world must start where the recording started: either the replay carries an initial
+ * snapshot, or the caller builds the same scene (same systems, same setup) first. Live input
+ * devices may stay attached; recorded keys are overwritten every tick.
+ */
+export class ReplayPlayer {
+  readonly replay: ReplayFile;
+
+  private readonly engine: Engine;
+  private readonly opts: ReplayPlayerOptions;
+  private readonly checksum: (world: World) => number;
+  private readonly entries: ReplayTick[];
+  private readonly expected = new Map<number, number>();
+  private readonly handles: SystemHandle[];
+
+  private readonly values = new Map<string, unknown>();
+  private now = 0;
+  /** Index of the next entry to apply. */
+  private cursor = 0;
+
+  private _divergence: ReplayDivergence | null = null;
+  private _verified = 0;
+
+  constructor(engine: Engine, replay: ReplayFile, opts: ReplayPlayerOptions = {}) {
+    assertReplayVersion(replay);
+    if (replay.fixedDt !== engine.fixedDt) {
+      throw new Error(`ReplayPlayer: replay fixedDt ${replay.fixedDt} does not match engine fixedDt ${engine.fixedDt}`);
+    }
+
+    if (replay.initial && opts.restoreInitial !== false) engine.world.restore(replay.initial);
+    else if (replay.random) engine.world.random.setState(replay.random);
+    if (engine.world.tick !== replay.startTick) {
+      throw new Error(`ReplayPlayer: world is at tick ${engine.world.tick} but the replay starts at tick ${replay.startTick}`);
+    }
+
+    this.engine = engine;
+    this.replay = replay;
+    this.opts = opts;
+    this.checksum = opts.checksum ?? ((world) => worldChecksum(world, { exclude: replay.keys }));
+    this.entries = [...replay.ticks].sort((a, b) => a.tick - b.tick);
+    for (const c of replay.checksums) this.expected.set(c.tick, c.value);
+
+    const prefix = opts.systemName ?? "replay";
+    this.handles = engine.registerSystems([
+      {
+        name: `${prefix}.playback`,
+        phase: "fixed",
+        after: ["net.inputs"],
+        // Before gameplay.
+        order: Number.MIN_SAFE_INTEGER,
+        run: (world) => this.apply(world)
+      },
+      {
+        name: `${prefix}.verify`,
+        phase: "postPhysicsFixed",
+        order: Number.MAX_SAFE_INTEGER,
+        run: (world) => this.verify(world)
+      }
+    ]);
+  }
+
+  /** True once every recorded tick has run. */
+  get finished(): boolean {
+    return this.engine.world.tick >= this.replay.endTick;
+  }
+
+  get divergence(): ReplayDivergence | null {
+    return this._divergence;
+  }
+
+  /** Number of checksums compared so far. */
+  get verified(): number {
+    return this._verified;
+  }
+
+  /** Remove the playback systems. The world keeps its current state. */
+  dispose(): void {
+    this.engine.unregisterSystems(this.handles);
+  }
+
+  private apply(world: World): void {
+    const tick = world.tick;
+    if (tick < this.replay.startTick || tick >= this.replay.endTick) return;
+
+    // Entries are deltas; start over if the world was rewound.
+    const prev = this.cursor > 0 ? this.entries[this.cursor - 1] : undefined;
+    if (prev && prev.tick > tick) {
+      this.cursor = 0;
+      this.values.clear();
+    }
+
+    while (this.cursor < this.entries.length && this.entries[this.cursor]!.tick <= tick) {
+      const entry = this.entries[this.cursor]!;
+      if (entry.now !== undefined) this.now = entry.now;
+      for (const key of entry.del ?? []) this.values.delete(key);
+      for (const [key, value] of Object.entries(entry.set ?? {})) this.values.set(key, value);
+      this.cursor += 1;
+    }
+
+    world.now = this.now;
+    for (const key of this.replay.keys) {
+      if (this.values.has(key)) world.set(key, structuredClone(this.values.get(key)));
+      else world.delete(key);
+    }
+  }
+
+  private verify(world: World): void {
+    const expected = this.expected.get(world.tick);
+    if (expected === undefined || this._divergence) return;
+
+    const actual = this.checksum(world);
+    this._verified += 1;
+    if (actual === expected) return;
+
+    this._divergence = { tick: world.tick, expected, actual };
+    this.opts.onDivergence?.(this._divergence);
+  }
+}
+
+export function createReplayPlayer(engine: Engine, replay: ReplayFile, opts?: ReplayPlayerOptions): ReplayPlayer {
+  return new ReplayPlayer(engine, replay, opts);
+}
+
+export interface ReplayRunResult {
+  ticks: number;
+  /** Checksums compared. */
+  verified: number;
+  divergence: ReplayDivergence | null;
+}
+
+/**
+ * Play a whole replay as fast as possible with `engine.stepTicks(1)`, then remove the player.
+ * The engine must be initialized.
+ */
+export function runReplay(engine: Engine, replay: ReplayFile, opts?: ReplayPlayerOptions): ReplayRunResult {
+  if (!engine.ready) throw new Error("runReplay: engine is not initialized (await engine.init() first)");
+
+  const player = new ReplayPlayer(engine, replay, opts);
+  try {
+    while (!player.finished) engine.stepTicks(1);
+  } finally {
+    player.dispose();
+  }
+
+  return { ticks: replay.endTick - replay.startTick, verified: player.verified, divergence: player.divergence };
+}
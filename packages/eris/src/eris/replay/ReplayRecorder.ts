@@ -0,0 +1,182 @@
+import type { Engine } from "../engine/Engine";
+import type { SystemHandle } from "../engine/system";
+import type { World } from "../world/World";
+import type { RandomState } from "../world/random";
+import { isPlainData, type WorldSnapshot } from "../world/snapshot";
+import { stableStringify, worldChecksum } from "./checksum";
+import { REPLAY_FORMAT, REPLAY_VERSION, type ReplayChecksum, type ReplayFile, type ReplayTick } from "./format";
+
+export interface ReplayRecorderOptions {
+  /**
+   * State keys holding everything the fixed phase reads from outside the simulation: input
+   * intents, inputs applied by a net driver, ... They are captured at the start of every tick.
+   */
+  keys: readonly string[];
+  /** Record a checksum every N ticks (0 disables). Defaults to 60. */
+  checksumInterval?: number;
+  /** Defaults to `worldChecksum(world, { exclude: keys })`. */
+  checksum?(world: World): number;
+  /** Store `World.snapshot()` of the starting world, so playback needs no setup. Defaults to false. */
+  snapshot?: boolean;
+  meta?: Record<string, unknown>;
+  /**
+   * Prefix of the recorder's system names, so several recorders can share an engine.
+   * Defaults to "replay" (systems "replay.record" and "replay.checksum").
+   */
+  systemName?: string;
+}
+
+type RecordedTick = { now: number; values: Map<string, unknown> };
+
+/**
+ * Captures the inputs of every fixed tick from the moment it is created until `stop()`.
+ *
+ * Recording happens in a `fixed` system that runs after net drivers applied their inputs
+ * (the "net.inputs" group) and before gameplay, so ticks replayed by a rollback overwrite what was recorded
+ * for them and the replay always holds the corrected inputs.
+ */
+export class ReplayRecorder {
+  readonly keys: readonly string[];
+  readonly startTick: number;
+  readonly checksumInterval: number;
+
+  private readonly engine: Engine;
+  private readonly opts: ReplayRecorderOptions;
+  private readonly checksum: (world: World) => number;
+  private readonly initial: WorldSnapshot | undefined;
+  private readonly random: RandomState;
+
+  private readonly ticks = new Map<number, RecordedTick>();
+  private readonly checksums = new Map<number, number>();
+  private readonly handles: SystemHandle[];
+  private stopped = false;
+
+  constructor(engine: Engine, opts: ReplayRecorderOptions) {
+    const interval = opts.checksumInterval ?? 60;
+    if (!Number.isInteger(interval) || interval < 0) {
+      throw new Error(`ReplayRecorder: checksumInterval must be an integer >= 0 (got: ${interval})`);
+    }
+
+    this.engine = engine;
+    this.opts = opts;
+    this.keys = [...opts.keys];
+    this.startTick = engine.world.tick;
+    this.checksumInterval = interval;
+    this.checksum = opts.checksum ?? ((world) => worldChecksum(world, { exclude: this.keys }));
+    this.initial = opts.snapshot ? engine.world.snapshot() : undefined;
+    this.random = engine.world.random.getState();
+
+    const prefix = opts.systemName ?? "replay";
+    this.handles = engine.registerSystems([
+      {
+        name: `${prefix}.record`,
+        phase: "fixed",
+        after: ["net.inputs"],
+        // Before gameplay.
+        order: Number.MIN_SAFE_INTEGER,
+        run: (world) => this.record(world)
+      },
+      {
+        name: `${prefix}.checksum`,
+        phase: "postPhysicsFixed",
+        order: Number.MAX_SAFE_INTEGER,
+        run: (world) => {
+          const tick = world.tick;
+          if (interval > 0 && (tick - this.startTick + 1) % interval === 0) {
+            this.checksums.set(tick, this.checksum(world));
+          }
+        }
+      }
+    ]);
+  }
+
+  get recording(): boolean {
+    return !this.stopped;
+  }
+
+  /** Number of ticks recorded so far. */
+  get tickCount(): number {
+    return this.ticks.size;
+  }
+
+  /** Stop recording and build the replay. Later calls return the same content. */
+  stop(): ReplayFile {
+    if (!this.stopped) {
+      this.stopped = true;
+      this.engine.unregisterSystems(this.handles);
+    }
+    return this.build();
+  }
+
+  private record(world: World): void {
+    const values = new Map<string, unknown>();
+    for (const key of this.keys) {
+      if (!world.has(key)) continue;
+      const value = world.get(key);
+      if (!isPlainData(value)) throw new Error(`ReplayRecorder: state "${key}" is not plain data`);
+      values.set(key, structuredClone(value));
+    }
+    this.ticks.set(world.tick, { now: world.now, values });
+  }
+
+  private build(): ReplayFile {
+    let endTick = this.startTick;
+    while (this.ticks.has(endTick)) endTick += 1;
+
+    const ticks: ReplayTick[] = [];
+    const last = new Map<string, string>();
+    let lastNow: number | undefined;
+
+    for (let t = this.startTick; t < endTick; t += 1) {
+      const rec = this.ticks.get(t)!;
+      const entry: ReplayTick = { tick: t };
+
+      if (rec.now !== lastNow) {
+        entry.now = rec.now;
+        lastNow = rec.now;
+      }
+
+      for (const key of this.keys) {
+        const prev = last.get(key);
+        if (!rec.values.has(key)) {
+          if (prev !== undefined || t === this.startTick) (entry.del ??= []).push(key);
+          last.delete(key);
+          continue;
+        }
+
+        const value = rec.values.get(key);
+        const encoded = stableStringify(value);
+        if (encoded === prev) continue;
+        (entry.set ??= {})[key] = value;
+        last.set(key, encoded);
+      }
+
+      if (entry.now !== undefined || entry.set || entry.del) ticks.push(entry);
+    }
+
+    const checksums: ReplayChecksum[] = [...this.checksums]
+      .filter(([tick]) => tick < endTick)
+      .sort((a, b) => a[0] - b[0])
+      .map(([tick, value]) => ({ tick, value }));
+
+    const replay: ReplayFile = {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      fixedDt: this.engine.fixedDt,
+      startTick: this.startTick,
+      endTick,
+      seed: this.random.seed,
+      random: this.random,
+      keys: [...this.keys],
+      ticks,
+      checksums
+    };
+    if (this.initial) replay.initial = this.initial;
+    if (this.opts.meta) replay.meta = { ...this.opts.meta };
+    return replay;
+  }
+}
+
+export function createReplayRecorder(engine: Engine, opts: ReplayRecorderOptions): ReplayRecorder {
+  return new ReplayRecorder(engine, opts);
+}
@@ -0,0 +1,98 @@
+import type { World } from "../world/World";
+import { isPlainData } from "../world/snapshot";
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/** 32-bit FNV-1a. Strings are hashed per UTF-16 code unit. Pass a previous hash as `seed` to chain. */
+export function fnv1a(data: string | Uint8Array, seed = FNV_OFFSET): number {
+  let h = seed >>> 0;
+  if (typeof data === "string") {
+    for (let i = 0; i < data.length; i += 1) {
+      h ^= data.charCodeAt(i);
+      h = Math.imul(h, FNV_PRIME) >>> 0;
+    }
+  } else {
+    for (let i = 0; i < data.length; i += 1) {
+      h ^= data[i]!;
+      h = Math.imul(h, FNV_PRIME) >>> 0;
+    }
+  }
+  return h;
+}
+
+/**
+ * Deterministic text encoding of plain data for hashing: object keys and Map/Set entries are
+ * sorted, numbers keep `-0`/`NaN`, typed arrays are encoded byte-wise.
+ */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return "u";
+  if (value === null) return "null";
+
+  switch (typeof value) {
+    case "number":
+      return Object.is(value, -0) ? "-0" : String(value);
+    case "bigint":
+      return `${value}n`;
+    case "string":
+      return JSON.stringify(value);
+    case "boolean":
+      return value ? "true" : "false";
+    case "object":
+      break;
+    default:
+      return `?${typeof value}`;
+  }
+
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (ArrayBuffer.isView(value)) {
+    return `b[${new Uint8Array(value.buffer, value.byteOffset, value.byteLength).join(",")}]`;
+  }
+  if (value instanceof ArrayBuffer) return `b[${new Uint8Array(value).join(",")}]`;
+  if (value instanceof Date) return `D${value.getTime()}`;
+  if (value instanceof Map) {
+    const entries = [...value].map(([k, v]) => `${stableStringify(k)}:${stableStringify(v)}`);
+    return `M{${entries.sort().join(",")}}`;
+  }
+  if (value instanceof Set) return `S{${[...value].map(stableStringify).sort().join(",")}}`;
+
+  const obj = value as Record<string, unknown>;
+  const fields = Object.keys(obj)
+    .sort()
+    .map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`);
+  return `{${fields.join(",")}}`;
+}
+
+export interface WorldChecksumOptions {
+  /** State keys left out (e.g. recorded inputs, which are not simulation results). */
+  exclude?: Iterable<string>;
+  /** Hash `physics.snapshot()` too, when supported. Defaults to true. */
+  physics?: boolean;
+}
+
+/**
+ * Hash of the simulation state: every non-transient plain-data entry of `World.state` (sorted
+ * by key), the `World.random` streams, the `World.entities` state and the physics snapshot.
+ * Entries holding live objects are skipped; their physics side is covered by the physics
+ * snapshot.
+ */
+export function worldChecksum(world: World, opts: WorldChecksumOptions = {}): number {
+  const exclude = new Set(opts.exclude ?? []);
+  const keys = [...world.state.keys()].filter((k) => !exclude.has(k) && !world.isTransient(k)).sort();
+
+  let h = FNV_OFFSET;
+  for (const key of keys) {
+    const value = world.state.get(key);
+    if (!isPlainData(value)) continue;
+    h = fnv1a(`${JSON.stringify(key)}=${stableStringify(value)};`, h);
+  }
+  h = fnv1a(stableStringify(world.random.getState()), h);
+  h = fnv1a(stableStringify(world.entities.getState()), h);
+
+  if (opts.physics !== false && world.physics.snapshot) {
+    const data = world.physics.snapshot();
+    h = data instanceof Uint8Array ? fnv1a(data, h) : fnv1a(stableStringify(data), h);
+  }
+
+  return h;
+}
@@ -0,0 +1,68 @@
+import { parseTagged, stringifyTagged } from "../world/json";
+import type { RandomState } from "../world/random";
+import type { WorldSnapshot } from "../world/snapshot";
+
+/** Bumped whenever the replay file layout changes incompatibly. */
+export const REPLAY_VERSION = 1;
+
+export const REPLAY_FORMAT = "eris.replay";
+
+/**
+ * Recorded inputs for one tick. Only ticks where something changed are stored; every other
+ * tick repeats the previous values.
+ */
+export interface ReplayTick {
+  tick: number;
+  /** `world.now` as seen by the fixed phase of this tick. */
+  now?: number;
+  /** Recorded keys whose value changed. */
+  set?: Record<string, unknown>;
+  /** Recorded keys that were absent from `World.state`. */
+  del?: string[];
+}
+
+export interface ReplayChecksum {
+  /** Checksum of the world after this tick ran. */
+  tick: number;
+  value: number;
+}
+
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  fixedDt: number;
+  /** First recorded tick. */
+  startTick: number;
+  /** One past the last recorded tick. */
+  endTick: number;
+  /** `world.random.seed` when recording started. */
+  seed?: number;
+  /** `world.random` stream positions when recording started. */
+  random?: RandomState;
+  /** State keys that feed the fixed phase (input intents, net-applied inputs, ...). */
+  keys: string[];
+  /** World at `startTick`, when recorded with `snapshot: true`. */
+  initial?: WorldSnapshot;
+  ticks: ReplayTick[];
+  checksums: ReplayChecksum[];
+  meta?: Record<string, unknown>;
+}
+
+/** JSON text; `Uint8Array` (physics snapshots), `Map` and `Set` values are preserved. */
+export function serializeReplay(replay: ReplayFile): string {
+  return stringifyTagged(replay);
+}
+
+export function parseReplay(text: string): ReplayFile {
+  const data = parseTagged(text) as Partial<ReplayFile> | null;
+
+  if (!data || data.format !== REPLAY_FORMAT) throw new Error("parseReplay: not an eris replay file");
+  assertReplayVersion(data as ReplayFile);
+  return data as ReplayFile;
+}
+
+export function assertReplayVersion(replay: ReplayFile): void {
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${replay.version} (expected ${REPLAY_VERSION})`);
+  }
+}
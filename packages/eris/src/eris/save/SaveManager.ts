@@ -0,0 +1,167 @@
+import { parseTagged, stringifyTagged } from "../world/json";
+import { isPlainData } from "../world/snapshot";
+import type { StateKey, World } from "../world/World";
+import type { SaveStorage } from "./storage";
+
+export const SAVE_FORMAT = "eris.save";
+
+export interface SaveFile {
+  format: typeof SAVE_FORMAT;
+  /** The game's save schema version (`SaveManagerOptions.version` when it was written). */
+  version: number;
+  /** `Date.now()` when it was written. */
+  savedAt: number;
+  /** The saved keys that were present in `World.state`. */
+  state: Record<string, unknown>;
+  meta?: Record<string, unknown>;
+}
+
+/** Upgrade the state of a save by one version. May mutate and return `state`. */
+export type SaveMigration = (state: Record<string, unknown>, file: SaveFile) => Record<string, unknown>;
+
+export interface SaveManagerOptions {
+  storage: SaveStorage;
+  /** Current save schema version, a positive integer. Bump it and add a migration on changes. */
+  version: number;
+  /**
+   * State keys written to and restored from saves. `StateKey`s with options are declared on the
+   * world, so their defaults apply and loaded values are validated.
+   */
+  keys: readonly (string | StateKey<any>)[];
+  /** `migrations[n]` upgrades a version `n` save to `n + 1`. */
+  migrations?: Record<number, SaveMigration>;
+}
+
+const SLOT_NAME = /^[A-Za-z0-9_.-]+$/;
+
+/**
+ * Persists selected world state in named save slots.
+ *
+ * A save holds the schema version and the selected keys (plain data only). Loading runs older
+ * saves through the registered migrations, one version at a time, then writes the keys back
+ * into the world: all of them or, if one is rejected by its validator, none.
+ */
+export class SaveManager {
+  readonly storage: SaveStorage;
+  readonly version: number;
+  private readonly world: World;
+  private readonly keys: readonly string[];
+  private readonly migrations = new Map<number, SaveMigration>();
+
+  constructor(world: World, opts: SaveManagerOptions) {
+    if (!Number.isInteger(opts.version) || opts.version < 1) {
+      throw new Error(`SaveManager: version must be a positive integer (got ${opts.version})`);
+    }
+    this.world = world;
+    this.storage = opts.storage;
+    this.version = opts.version;
+    this.keys = opts.keys.map((k) => (typeof k === "string" ? k : k.key));
+
+    const declared = opts.keys.filter((k): k is StateKey<any> => typeof k !== "string" && k.options !== undefined);
+    if (declared.length > 0) world.declare(declared);
+
+    for (const [from, migrate] of Object.entries(opts.migrations ?? {})) this.addMigration(Number(from), migrate);
+  }
+
+  /** Register the upgrade from version `from` to `from + 1`. */
+  addMigration(from: number, migrate: SaveMigration): void {
+    if (!Number.isInteger(from) || from < 1 || from >= this.version) {
+      throw new Error(`SaveManager.addMigration: no version ${from} to migrate from (current is ${this.version})`);
+    }
+    this.migrations.set(from, migrate);
+  }
+
+  /** Write the selected keys to `slot`, replacing what it held. */
+  async save(slot: string, meta?: Record<string, unknown>): Promise<SaveFile> {
+    assertSlot("save", slot);
+    const state: Record<string, unknown> = {};
+    for (const key of this.keys) {
+      if (!this.world.has(key)) continue;
+      const value = this.world.get(key);
+      if (!isPlainData(value)) throw new Error(`SaveManager.save: state "${key}" is not plain data`);
+      state[key] = value;
+    }
+
+    const file: SaveFile = { format: SAVE_FORMAT, version: this.version, savedAt: Date.now(), state };
+    if (meta) file.meta = meta;
+    await this.storage.write(slot, stringifyTagged(file));
+    return file;
+  }
+
+  /** The save in `slot`, migrated to the current version but not applied. Null when empty. */
+  async read(slot: string): Promise<SaveFile | null> {
+    assertSlot("read", slot);
+    const text = await this.storage.read(slot);
+    if (text === null) return null;
+
+    let data: Partial<SaveFile> | null;
+    try {
+      data = parseTagged(text) as Partial<SaveFile> | null;
+    } catch {
+      data = null;
+    }
+    if (!data || data.format !== SAVE_FORMAT || typeof data.version !== "number" || !data.state) {
+      throw new Error(`SaveManager.read: slot "${slot}" is not an eris save`);
+    }
+    return this.migrate(slot, data as SaveFile);
+  }
+
+  /**
+   * Read `slot` and write copies of its keys into the world. Keys missing from the save keep
+   * their current value. Resolves to the applied save, or null when the slot is empty.
+   */
+  async load(slot: string): Promise<SaveFile | null> {
+    const file = await this.read(slot);
+    if (!file) return null;
+
+    const previous = new Map<string, { had: boolean; value: unknown }>();
+    try {
+      for (const key of this.keys) {
+        if (!Object.hasOwn(file.state, key)) continue;
+        previous.set(key, { had: this.world.has(key), value: this.world.get(key) });
+        this.world.set(key, structuredClone(file.state[key]));
+      }
+    } catch (e) {
+      for (const [key, prev] of previous) {
+        if (prev.had) this.world.set(key, prev.value);
+        else this.world.delete(key);
+      }
+      throw e;
+    }
+    return file;
+  }
+
+  async delete(slot: string): Promise<void> {
+    assertSlot("delete", slot);
+    await this.storage.remove(slot);
+  }
+
+  /** Names of the slots holding a save. */
+  list(): Promise<string[]> {
+    return this.storage.list();
+  }
+
+  private migrate(slot: string, file: SaveFile): SaveFile {
+    if (file.version > this.version) {
+      throw new Error(`SaveManager.read: slot "${slot}" has version ${file.version}, newer than ${this.version}`);
+    }
+
+    let state = file.state;
+    for (let v = file.version; v < this.version; v += 1) {
+      const migrate = this.migrations.get(v);
+      if (!migrate) throw new Error(`SaveManager.read: no migration from version ${v} (slot "${slot}")`);
+      state = migrate(state, { ...file, version: v, state });
+    }
+    return { ...file, version: this.version, state };
+  }
+}
+
+function assertSlot(op: string, slot: string): void {
+  if (!SLOT_NAME.test(slot)) {
+    throw new Error(`SaveManager.${op}: invalid slot name "${slot}" (use letters, digits, "_", "-" and ".")`);
+  }
+}
+
+export function createSaveManager(world: World, opts: SaveManagerOptions): SaveManager {
+  return new SaveManager(world, opts);
+}
@@ -0,0 +1,204 @@
+/**
+ * Where save slots live. Each slot holds one string (the encoded save); slot names are
+ * restricted by `SaveManager` to letters, digits, `_`, `-` and `.`.
+ */
+export interface SaveStorage {
+  /** The slot's data, or null when it is empty. */
+  read(slot: string): Promise<string | null>;
+  write(slot: string, data: string): Promise<void>;
+  /** Removing an empty slot is a no-op. */
+  remove(slot: string): Promise<void>;
+  /** Names of the non-empty slots, sorted. */
+  list(): Promise<string[]>;
+}
+
+/** Slots in a `Map`; for tests, headless runs, or as a fallback when nothing else is available. */
+export function createMemoryStorage(initial: Record<string, string> = {}): SaveStorage {
+  const slots = new Map(Object.entries(initial));
+  return {
+    async read(slot) {
+      return slots.get(slot) ?? null;
+    },
+    async write(slot, data) {
+      slots.set(slot, data);
+    },
+    async remove(slot) {
+      slots.delete(slot);
+    },
+    async list() {
+      return [...slots.keys()].sort();
+    }
+  };
+}
+
+/** The parts of the Web Storage API the adapter uses (`localStorage`, `sessionStorage`). */
+export interface StorageLike {
+  readonly length: number;
+  key(index: number): string | null;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface LocalStorageOptions {
+  /** Prepended to every slot name, so several games can share an origin. Defaults to "eris.save.". */
+  prefix?: string;
+  /** Defaults to `globalThis.localStorage`. */
+  storage?: StorageLike;
+}
+
+/**
+ * Slots in `localStorage`. Writes are synchronous under the hood, so a save started from a
+ * `pagehide` handler still lands. Quota errors reject the write.
+ */
+export function createLocalStorage(opts: LocalStorageOptions = {}): SaveStorage {
+  const prefix = opts.prefix ?? "eris.save.";
+  const storage = opts.storage ?? (globalThis as { localStorage?: StorageLike }).localStorage;
+  if (!storage) throw new Error("createLocalStorage: localStorage is not available");
+
+  return {
+    async read(slot) {
+      return storage.getItem(prefix + slot);
+    },
+    async write(slot, data) {
+      storage.setItem(prefix + slot, data);
+    },
+    async remove(slot) {
+      storage.removeItem(prefix + slot);
+    },
+    async list() {
+      const slots: string[] = [];
+      for (let i = 0; i < storage.length; i += 1) {
+        const key = storage.key(i);
+        if (key !== null && key.startsWith(prefix)) slots.push(key.slice(prefix.length));
+      }
+      return slots.sort();
+    }
+  };
+}
+
+export interface IndexedDbStorageOptions {
+  /** Defaults to "eris". */
+  database?: string;
+  /** Object store holding the slots. Defaults to "saves". */
+  store?: string;
+  /** Defaults to `globalThis.indexedDB`. */
+  indexedDB?: IDBFactory;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Slots in an IndexedDB object store (no size limit worth worrying about, unlike `localStorage`). */
+export function createIndexedDbStorage(opts: IndexedDbStorageOptions = {}): SaveStorage {
+  const database = opts.database ?? "eris";
+  const storeName = opts.store ?? "saves";
+  const factory = opts.indexedDB ?? (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+  if (!factory) throw new Error("createIndexedDbStorage: indexedDB is not available");
+
+  let db: Promise<IDBDatabase> | null = null;
+  const open = (): Promise<IDBDatabase> => {
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const req = factory.open(database, 1);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(storeName)) req.result.createObjectStore(storeName);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    }).catch((e: unknown) => {
+      db = null;
+      throw e;
+    });
+    return db;
+  };
+
+  const store = async (mode: IDBTransactionMode): Promise<IDBObjectStore> =>
+    (await open()).transaction(storeName, mode).objectStore(storeName);
+
+  return {
+    async read(slot) {
+      const value = await request((await store("readonly")).get(slot));
+      return typeof value === "string" ? value : null;
+    },
+    async write(slot, data) {
+      await request((await store("readwrite")).put(data, slot));
+    },
+    async remove(slot) {
+      await request((await store("readwrite")).delete(slot));
+    },
+    async list() {
+      const keys = await request((await store("readonly")).getAllKeys());
+      return keys.map(String).sort();
+    }
+  };
+}
+
+/**
+ * The parts of Node's `fs/promises` the adapter uses. Pass the module itself
+ * (`await import("node:fs/promises")`); it is not imported here so browser bundles stay clean.
+ */
+export interface FileSystemLike {
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+  rm(path: string, opts: { force: boolean }): Promise<void>;
+  readdir(path: string): Promise<string[]>;
+  mkdir(path: string, opts: { recursive: boolean }): Promise<unknown>;
+}
+
+export interface FileStorageOptions {
+  /** Directory holding one `<slot>.json` file per slot; created on the first write. */
+  dir: string;
+  fs: FileSystemLike;
+}
+
+function isMissing(e: unknown): boolean {
+  return (e as { code?: unknown } | null)?.code === "ENOENT";
+}
+
+/**
+ * Slots as files, for Node (servers, tools, tests). Writes go to a temporary file that is then
+ * renamed over the slot, so a crash mid-write never leaves a truncated save.
+ */
+export function createFileStorage(opts: FileStorageOptions): SaveStorage {
+  const { fs } = opts;
+  const dir = opts.dir.replace(/[\\/]+$/, "");
+  const file = (slot: string) => `${dir}/${slot}.json`;
+
+  return {
+    async read(slot) {
+      try {
+        return await fs.readFile(file(slot), "utf8");
+      } catch (e) {
+        if (isMissing(e)) return null;
+        throw e;
+      }
+    },
+    async write(slot, data) {
+      await fs.mkdir(dir, { recursive: true });
+      const tmp = `${file(slot)}.tmp`;
+      await fs.writeFile(tmp, data, "utf8");
+      await fs.rename(tmp, file(slot));
+    },
+    async remove(slot) {
+      await fs.rm(file(slot), { force: true });
+    },
+    async list() {
+      let names: string[];
+      try {
+        names = await fs.readdir(dir);
+      } catch (e) {
+        if (isMissing(e)) return [];
+        throw e;
+      }
+      return names
+        .filter((n) => n.endsWith(".json"))
+        .map((n) => n.slice(0, -".json".length))
+        .sort();
+    }
+  };
+}
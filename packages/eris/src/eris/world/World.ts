@@ -1,5 +1,25 @@
+import { InputDevices } from "../input/device";
 import type { NetDriver } from "../net/NetDriver";
 import type { PhysicsModule } from "../physics/PhysicsModule";
+import { WorldEntities } from "./entities";
+import { WorldRandom, randomSeed } from "./random";
+import {
+  assertSnapshotVersion,
+  isPlainData,
+  WORLD_SNAPSHOT_VERSION,
+  type StateSerializer,
+  type WorldSnapshot
+} from "./snapshot";
+
+/** What `World.declare` knows about a key. */
+export interface StateKeyOptions<T> {
+  /** Returned by `get` while the key is unset. Not stored or copied: keep it immutable. */
+  default?: T;
+  /** Checked by `set` once the key is declared; returning false rejects the value. */
+  validate?: (value: unknown) => boolean;
+  /** Declaring the key marks it transient (see `markTransient`). */
+  transient?: boolean;
+}
 
 /**
  * A typed key for `World.state`.
@@ -7,10 +27,41 @@ import type { PhysicsModule } from "../physics/PhysicsModule";
  * This keeps runtime storage debuggable (string keys) while giving TypeScript
  * a way to associate a value type with a particular key.
  */
-export type StateKey<T> = { readonly key: string } & { readonly __stateKeyBrand?: T };
+export type StateKey<T> = { readonly key: string; readonly options?: StateKeyOptions<T> } & {
+  readonly __stateKeyBrand?: T;
+};
+
+/** A key with a default: `getKey` never returns `undefined` for it. */
+export type DefaultedStateKey<T> = StateKey<T> & { readonly options: StateKeyOptions<T> & { default: T } };
+
+export type StateListener<T> = (value: T | undefined, key: string) => void;
+
+export function createStateKey<T>(key: string, options: StateKeyOptions<T> & { default: T }): DefaultedStateKey<T>;
+export function createStateKey<T>(key: string, options?: StateKeyOptions<T>): StateKey<T>;
+export function createStateKey<T>(key: string, options?: StateKeyOptions<T>): StateKey<T> {
+  return (options ? { key, options } : { key }) as StateKey<T>;
+}
+
+function keyString(key: string | StateKey<unknown>): string {
+  return typeof key === "string" ? key : key.key;
+}
+
+/** The part before the first "." (the whole key without one). */
+function namespaceOf(key: string): string {
+  const dot = key.indexOf(".");
+  return dot < 0 ? key : key.slice(0, dot);
+}
 
-export function createStateKey<T>(key: string): StateKey<T> {
-  return { key } as StateKey<T>;
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      row[j] = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length]!;
 }
 
 export class World {
@@ -20,25 +71,54 @@ export class World {
 
   readonly physics: PhysicsModule;
   readonly net: NetDriver;
+  /** Attached input devices, combined; polled by the Engine once per frame before `preFrame`. */
+  readonly input: InputDevices;
+  /** Seeded, snapshot-able randomness; use instead of `Math.random()` in simulation code. */
+  readonly random: WorldRandom;
+  /** Entities with stable ids; spawns and despawns during a phase apply when it ends. */
+  readonly entities: WorldEntities;
 
   readonly state = new Map<string, unknown>();
 
-  constructor(opts: { fixedDt: number; physics: PhysicsModule; net: NetDriver }) {
+  private readonly serializers = new Map<string, StateSerializer<any, any>>();
+  private readonly transientKeys = new Set<string>();
+  private readonly declared = new Map<string, StateKeyOptions<unknown>>();
+  private readonly strictNamespaces = new Set<string>();
+  private readonly listeners = new Map<string, Set<StateListener<any>>>();
+  private readonly changed = new Set<string>();
+
+  constructor(opts: { fixedDt: number; physics: PhysicsModule; net: NetDriver; input?: InputDevices; seed?: number }) {
     this.fixedDt = opts.fixedDt;
     this.physics = opts.physics;
     this.net = opts.net;
+    this.input = opts.input ?? new InputDevices();
+    this.random = new WorldRandom(opts.seed ?? randomSeed());
+    this.entities = new WorldEntities(this);
   }
 
+  /** The stored value, else the declared default. */
   get<T>(key: string): T | undefined {
-    return this.state.get(key) as T | undefined;
+    this.checkKey("get", key);
+    const value = this.state.get(key);
+    if (value !== undefined || this.state.has(key)) return value as T;
+    return this.declared.get(key)?.default as T | undefined;
   }
 
+  getKey<T>(key: DefaultedStateKey<T>): T;
+  getKey<T>(key: StateKey<T>): T | undefined;
   getKey<T>(key: StateKey<T>): T | undefined {
-    return this.get<T>(key.key);
+    const value = this.get<T>(key.key);
+    if (value !== undefined || this.state.has(key.key)) return value;
+    return key.options?.default;
   }
 
   set<T>(key: string, value: T): void {
+    this.checkKey("set", key);
+    const validate = this.declared.get(key)?.validate;
+    if (validate && !validate(value)) throw new Error(`World.set: invalid value for state "${key}"`);
+
     this.state.set(key, value);
+    this.touch(key);
   }
 
   setKey<T>(key: StateKey<T>, value: T): void {
@@ -46,6 +126,7 @@ export class World {
   }
 
   has(key: string): boolean {
+    this.checkKey("has", key);
     return this.state.has(key);
   }
 
@@ -54,11 +135,218 @@ export class World {
   }
 
   delete(key: string): void {
-    this.state.delete(key);
+    this.checkKey("delete", key);
+    if (this.state.delete(key)) this.touch(key);
   }
 
   deleteKey(key: StateKey<unknown>): void {
     this.delete(key.key);
   }
+
+  /**
+   * Declare state keys: their defaults, validators and transient flags apply from now on.
+   *
+   * With `strict`, the keys' namespaces (the part before the first ".") become closed: reading
+   * or writing an undeclared key in them throws, which catches typos. Other namespaces are
+   * unaffected. Declaring a key again replaces its options.
+   */
+  declare(keys: readonly StateKey<any>[], opts: { strict?: boolean } = {}): void {
+    for (const key of keys) {
+      this.declared.set(key.key, key.options ?? {});
+      if (key.options?.transient) this.markTransient(key);
+    }
+    if (opts.strict) for (const key of keys) this.strictNamespaces.add(namespaceOf(key.key));
+  }
+
+  /**
+   * Drop declarations: defaults and validators stop applying, and keys that `declare` marked
+   * transient no longer are. A namespace closed by `strict` opens again once none of its keys
+   * are declared.
+   */
+  undeclare(keys: readonly (string | StateKey<any>)[]): void {
+    for (const key of keys) {
+      const k = keyString(key);
+      const options = this.declared.get(k);
+      if (!options) continue;
+      this.declared.delete(k);
+      if (options.transient) this.transientKeys.delete(k);
+
+      const ns = namespaceOf(k);
+      if (this.strictNamespaces.has(ns) && ![...this.declared.keys()].some((d) => namespaceOf(d) === ns)) {
+        this.strictNamespaces.delete(ns);
+      }
+    }
+  }
+
+  isDeclared(key: string | StateKey<unknown>): boolean {
+    return this.declared.has(keyString(key));
+  }
+
+  /**
+   * Call `listener` with the current value after `key` was set or deleted (including by
+   * `restore()`). Notifications are batched: each changed key is reported once per
+   * `flushChanges()`, which the Engine calls at the end of every frame. Writes that bypass
+   * `set` / `delete` (through `state` directly) are not seen. Returns an unsubscribe function.
+   */
+  subscribe<T>(key: string | StateKey<T>, listener: StateListener<T>): () => void {
+    const k = keyString(key);
+    this.checkKey("subscribe", k);
+
+    let set = this.listeners.get(k);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(k, set);
+    }
+    set.add(listener);
+
+    return () => {
+      const current = this.listeners.get(k);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) this.listeners.delete(k);
+    };
+  }
+
+  /** Notify subscribers of the keys changed since the last flush. */
+  flushChanges(): void {
+    if (this.changed.size === 0) return;
+
+    // Changes made by listeners are reported by the next flush.
+    const keys = [...this.changed];
+    this.changed.clear();
+
+    for (const key of keys) {
+      const listeners = this.listeners.get(key);
+      if (!listeners) continue;
+      const value = this.get(key);
+      for (const listener of [...listeners]) listener(value, key);
+    }
+  }
+
+  private touch(key: string): void {
+    if (this.listeners.has(key)) this.changed.add(key);
+  }
+
+  private checkKey(op: string, key: string): void {
+    if (this.strictNamespaces.size === 0 || this.declared.has(key)) return;
+    if (!this.strictNamespaces.has(namespaceOf(key))) return;
+
+    let suggestion: string | null = null;
+    let best = 4;
+    for (const declared of this.declared.keys()) {
+      const d = editDistance(key, declared);
+      if (d < best) {
+        best = d;
+        suggestion = declared;
+      }
+    }
+    throw new Error(
+      `World.${op}: undeclared state "${key}"` + (suggestion ? ` (did you mean "${suggestion}"?)` : "")
+    );
+  }
+
+  /**
+   * Control how a state entry is captured by `snapshot()` and rebuilt by `restore()`.
+   *
+   * Entries without a serializer are deep-cloned, which only works for plain data.
+   */
+  registerSerializer<T, S>(key: string | StateKey<T>, serializer: StateSerializer<T, S>): void {
+    const k = keyString(key);
+    this.transientKeys.delete(k);
+    this.serializers.set(k, serializer);
+  }
+
+  /**
+   * Exclude a state entry from snapshots. Transient entries (meshes, input devices, caches)
+   * are left untouched by `restore()`.
+   */
+  markTransient(key: string | StateKey<unknown>): void {
+    const k = keyString(key);
+    this.serializers.delete(k);
+    this.transientKeys.add(k);
+  }
+
+  isTransient(key: string | StateKey<unknown>): boolean {
+    return this.transientKeys.has(keyString(key));
+  }
+
+  /**
+   * Capture tick, clock, state, random streams, entities and (when the physics module supports it) physics
+   * into a versioned, structured-clone-able object.
+   *
+   * Throws if a non-transient entry without a serializer, or an entity's data, holds something
+   * other than plain data.
+   */
+  snapshot(): WorldSnapshot {
+    const state: Record<string, unknown> = {};
+
+    for (const [key, value] of this.state) {
+      if (this.transientKeys.has(key)) continue;
+
+      const serializer = this.serializers.get(key);
+      if (serializer) {
+        state[key] = serializer.serialize(value, this);
+        continue;
+      }
+
+      if (!isPlainData(value)) {
+        throw new Error(
+          `World.snapshot: state "${key}" is not plain data; register a serializer or mark it transient`
+        );
+      }
+      state[key] = structuredClone(value);
+    }
+
+    const snapshot: WorldSnapshot = {
+      version: WORLD_SNAPSHOT_VERSION,
+      tick: this.tick,
+      now: this.now,
+      state,
+      random: this.random.getState(),
+      entities: this.entities.getState()
+    };
+    if (this.physics.snapshot) snapshot.physics = this.physics.snapshot();
+    return snapshot;
+  }
+
+  /**
+   * Roll the world back to a snapshot.
+   *
+   * Physics is restored first so serializers can resolve bodies against the restored physics
+   * world. Non-transient entries missing from the snapshot are deleted; transient entries are
+   * kept as-is. Entities are restored last, once the rest of the world is back, since their
+   * hooks run. The snapshot itself is not modified and can be restored again.
+   */
+  restore(snapshot: WorldSnapshot): void {
+    assertSnapshotVersion(snapshot);
+
+    if (snapshot.physics !== undefined && this.physics.restore) this.physics.restore(snapshot.physics);
+
+    for (const key of [...this.state.keys()]) {
+      if (this.transientKeys.has(key)) continue;
+      if (!Object.hasOwn(snapshot.state, key)) {
+        this.state.delete(key);
+        this.touch(key);
+      }
+    }
+
+    for (const [key, data] of Object.entries(snapshot.state)) {
+      if (this.transientKeys.has(key)) continue;
+
+      const serializer = this.serializers.get(key);
+      this.state.set(
+        key,
+        serializer ? serializer.deserialize(data, this, this.state.get(key)) : structuredClone(data)
+      );
+      this.touch(key);
+    }
+
+    if (snapshot.random) this.random.setState(snapshot.random);
+
+    this.tick = snapshot.tick;
+    this.now = snapshot.now;
+
+    if (snapshot.entities) this.entities.setState(snapshot.entities);
+  }
 }
 
@@ -0,0 +1,420 @@
+import { isRapierPhysics, type RapierPhysicsModule } from "../physics/RapierPhysicsModule";
+import type { BodyDesc, BodyHandle, ColliderDesc } from "../physics/types";
+import { PoseInterpolator, type PoseTarget } from "../render/PoseInterpolator";
+import { isPlainData } from "./snapshot";
+import type { World } from "./World";
+
+export type EntityHook<D = unknown> = (entity: Entity<D>, world: World) => void;
+
+export interface SpawnDesc<D = unknown> {
+  /** Groups entities (`list(kind)`) and selects the pool, if one is defined for it. */
+  kind?: string;
+  /** Must be plain data when the world is snapshotted (rollback, replays). */
+  data?: D;
+  /** Created with the entity, tagged with its id, and removed (or pooled) on despawn. */
+  body?: BodyDesc;
+  /** Attached to `body`. */
+  colliders?: readonly ColliderDesc[];
+  /** Drawn at the body's interpolated pose while the entity is alive. */
+  object?: PoseTarget;
+  /** Runs once the entity is alive. */
+  onSpawn?: EntityHook<D>;
+  /** First link of the despawn chain for this entity. */
+  onDespawn?: EntityHook<D>;
+}
+
+export interface Entity<D = unknown> {
+  /**
+   * Unique for the lifetime of the world; never reused, not even by pooled entities (only a
+   * restore rewinds them, see `WorldEntities.setState()`).
+   */
+  readonly id: number;
+  readonly kind: string | null;
+  data: D;
+  /** Null until the spawn is applied, and for entities without a body. */
+  readonly body: BodyHandle | null;
+  readonly object: PoseTarget | null;
+  /** True from the applied spawn until the applied despawn. */
+  readonly alive: boolean;
+}
+
+export interface EntityPoolOptions<D = unknown> {
+  /** Despawned entities kept for reuse; beyond that they are released for real. Defaults to 32. */
+  max?: number;
+  /** Prepare a reused entity (its body and object are kept) before its `onSpawn`. */
+  reset?(entity: Entity<D>, desc: SpawnDesc<D>): void;
+}
+
+/** `WorldEntities.getState()` data; part of `WorldSnapshot`. */
+export interface EntitiesState {
+  nextId: number;
+  /** Alive entities in spawn order. */
+  alive: { id: number; kind: string | null; data: unknown; body: BodyHandle | null }[];
+  /** Bodies parked in each pool. */
+  pooled: Record<string, (BodyHandle | null)[]>;
+}
+
+type Parked = { body: BodyHandle | null; object: PoseTarget | null };
+type Pool = { max: number; reset?: EntityPoolOptions<any>["reset"]; parked: Parked[] };
+type Release = "pool" | "remove" | "keep";
+
+class EntityRecord<D> implements Entity<D> {
+  body: BodyHandle | null = null;
+  object: PoseTarget | null = null;
+  alive = false;
+  /** Despawned (or cancelled) before or after being alive; it won't come back. */
+  ended = false;
+
+  constructor(
+    readonly id: number,
+    readonly kind: string | null,
+    public data: D,
+    readonly desc: SpawnDesc<D>
+  ) {}
+}
+
+function setVisible(object: PoseTarget | null, visible: boolean): void {
+  if (object && "visible" in object) (object as { visible: boolean }).visible = visible;
+}
+
+// What a state can't hold (records with their objects and hooks), for restoring it in-process.
+type LiveParts = { records: Map<number, EntityRecord<any>>; parked: Map<string, Parked[]> };
+const liveParts = new WeakMap<EntitiesState, LiveParts>();
+
+/**
+ * Entities with stable ids, owned by the world (`world.entities`).
+ *
+ * While the Engine runs a phase, `spawn()` and `despawn()` are queued and applied when the
+ * phase ends, so systems iterating `list()` never see it change under them. Outside of phases
+ * (setup code, React effects) they apply immediately.
+ *
+ * Despawning runs a hook chain: the entity's own `onDespawn`, the `onDespawn()` hooks (last
+ * added first), then the built-in steps: its render binding is dropped and its body removed,
+ * or parked in the kind's pool for the next `spawn()` of that kind.
+ *
+ * `world.snapshot()` captures the alive entities, the pools and the next id (`getState()`);
+ * `world.restore()` brings them back in line with the restored physics (`setState()`).
+ */
+export class WorldEntities {
+  /** Moves the bound objects of entities; the Engine feeds it every tick and frame. */
+  readonly interpolator = new PoseInterpolator();
+
+  private readonly world: World;
+  private readonly alive = new Map<number, EntityRecord<any>>();
+  private readonly pools = new Map<string, Pool>();
+  private readonly spawnHooks: EntityHook<any>[] = [];
+  private readonly despawnHooks: EntityHook<any>[] = [];
+  private queue: { op: "spawn" | "despawn"; entity: EntityRecord<any> }[] = [];
+  private deferring = false;
+  private nextId = 1;
+
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  get count(): number {
+    return this.alive.size;
+  }
+
+  /**
+   * Create an entity. Its id is assigned right away; it becomes alive (body created, binding
+   * set up, hooks run) now or at the end of the running phase.
+   */
+  spawn<D = undefined>(desc: SpawnDesc<D> = {}): Entity<D> {
+    if (desc.body || desc.colliders?.length) this.requirePhysics("spawn");
+    if (desc.colliders?.length && !desc.body) {
+      throw new Error("WorldEntities.spawn: colliders need a body");
+    }
+
+    const entity = new EntityRecord<D>(this.nextId++, desc.kind ?? null, desc.data as D, desc);
+    this.enqueue("spawn", entity);
+    return entity;
+  }
+
+  /**
+   * Remove an entity (now or at the end of the running phase). Returns false when it is
+   * unknown or already despawned. Despawning a spawn that was not applied yet cancels it.
+   */
+  despawn(target: number | Entity<any>): boolean {
+    const entity = typeof target === "number" ? this.alive.get(target) : (target as EntityRecord<any>);
+    if (!entity || entity.ended || !(entity instanceof EntityRecord)) return false;
+
+    entity.ended = true;
+    this.enqueue("despawn", entity);
+    return true;
+  }
+
+  /** An alive entity. */
+  get<D = unknown>(id: number): Entity<D> | undefined {
+    return this.alive.get(id);
+  }
+
+  has(id: number): boolean {
+    return this.alive.has(id);
+  }
+
+  /** Alive entities in spawn order, optionally of one kind. */
+  list<D = unknown>(kind?: string): Entity<D>[] {
+    const all = [...this.alive.values()];
+    return kind === undefined ? all : all.filter((e) => e.kind === kind);
+  }
+
+  /** Run `hook` for every applied spawn. Returns a function removing it. */
+  onSpawn(hook: EntityHook<any>): () => void {
+    return addHook(this.spawnHooks, hook);
+  }
+
+  /** Add a link to the despawn chain. Returns a function removing it. */
+  onDespawn(hook: EntityHook<any>): () => void {
+    return addHook(this.despawnHooks, hook);
+  }
+
+  /**
+   * Reuse despawned entities of `kind`: their body is disabled and their object hidden (when
+   * it has `visible`) instead of being released. A reused entity gets a new id; its body is
+   * moved to the new `body.position` / `rotation` / velocities, and new `colliders` are ignored.
+   */
+  definePool<D = unknown>(kind: string, opts: EntityPoolOptions<D> = {}): void {
+    const max = opts.max ?? 32;
+    if (!Number.isInteger(max) || max < 0) {
+      throw new Error(`WorldEntities.definePool: max must be a non-negative integer (got ${max})`);
+    }
+    const existing = this.pools.get(kind);
+    this.pools.set(kind, { max, reset: opts.reset, parked: existing?.parked ?? [] });
+  }
+
+  /** How many despawned entities of `kind` are parked for reuse. */
+  pooled(kind: string): number {
+    return this.pools.get(kind)?.parked.length ?? 0;
+  }
+
+  /** Queue spawns and despawns until `flush()`. Called by the Engine when a phase starts. */
+  defer(): void {
+    this.deferring = true;
+  }
+
+  /** Apply queued spawns and despawns, in call order. Called by the Engine when a phase ends. */
+  flush(): void {
+    this.deferring = false;
+    // Hooks may spawn or despawn more; those apply right away.
+    const queue = this.queue;
+    this.queue = [];
+    for (const { op, entity } of queue) {
+      if (op === "spawn") this.applySpawn(entity);
+      else this.applyDespawn(entity);
+    }
+  }
+
+  /** Record the poses of bound bodies. Called by the Engine at the end of each fixed tick. */
+  capture(): void {
+    const physics = this.physics();
+    if (physics) this.interpolator.capture(physics);
+  }
+
+  /** Move bound objects to the interpolated poses. Called by the Engine before `renderApply`. */
+  present(alpha: number): void {
+    const physics = this.physics();
+    if (physics) this.interpolator.apply(physics, alpha);
+  }
+
+  /** Alive entities, pools and the next id as plain data. Called by `World.snapshot()`. */
+  getState(): EntitiesState {
+    const alive: EntitiesState["alive"] = [];
+    for (const e of this.alive.values()) {
+      if (!isPlainData(e.data)) throw new Error(`WorldEntities.getState: data of entity ${e.id} is not plain data`);
+      alive.push({ id: e.id, kind: e.kind, data: structuredClone(e.data), body: e.body });
+    }
+
+    const pooled: EntitiesState["pooled"] = {};
+    const parked = new Map<string, Parked[]>();
+    for (const [kind, pool] of this.pools) {
+      pooled[kind] = pool.parked.map((p) => p.body);
+      parked.set(kind, [...pool.parked]);
+    }
+
+    const state: EntitiesState = { nextId: this.nextId, alive, pooled };
+    liveParts.set(state, { records: new Map(this.alive), parked });
+    return state;
+  }
+
+  /**
+   * Return to `getState()` data, after the physics state of the same moment was restored.
+   * Called by `World.restore()`.
+   *
+   * Entities missing from `state` despawn and entities it brings back spawn again, with their
+   * hooks, but bodies are left to the physics state. Queued spawns and despawns are dropped,
+   * and ids handed out after the state was taken are given out again. Restoring a copy of
+   * the state (e.g. from a replay file) brings entities back without their objects and hooks.
+   */
+  setState(state: EntitiesState): void {
+    const live = liveParts.get(state);
+
+    for (const { entity } of this.queue.splice(0)) entity.ended = !entity.alive;
+    const wanted = new Set(state.alive.map((e) => e.id));
+    for (const entity of [...this.alive.values()].reverse()) {
+      if (wanted.has(entity.id)) continue;
+      entity.ended = true;
+      this.applyDespawn(entity, "keep");
+    }
+
+    const revived: EntityRecord<any>[] = [];
+    const ordered: EntityRecord<any>[] = [];
+    for (const s of state.alive) {
+      let entity = this.alive.get(s.id);
+      if (!entity) {
+        const desc = s.kind === null ? {} : { kind: s.kind };
+        entity = live?.records.get(s.id) ?? new EntityRecord(s.id, s.kind, undefined, desc);
+        entity.body = s.body;
+        revived.push(entity);
+      }
+      entity.data = structuredClone(s.data);
+      entity.ended = false;
+      ordered.push(entity);
+    }
+
+    for (const [kind, pool] of this.pools) {
+      const parked = live?.parked.get(kind) ?? [];
+      pool.parked = (state.pooled[kind] ?? []).map((body, i) => ({
+        body,
+        object: parked[i]?.body === body ? parked[i]!.object : null
+      }));
+      for (const p of pool.parked) setVisible(p.object, false);
+    }
+
+    this.nextId = state.nextId;
+    this.alive.clear();
+    for (const entity of ordered) this.alive.set(entity.id, entity);
+    for (const entity of revived) {
+      if (entity.kind !== null && this.pools.has(entity.kind)) setVisible(entity.object, true);
+      if (entity.body !== null && entity.object) this.interpolator.track(entity.body, entity.object);
+      entity.alive = true;
+      this.runSpawnHooks(entity);
+    }
+  }
+
+  /** Despawn everything immediately and release pooled bodies. Called by `Engine.dispose()`. */
+  dispose(): void {
+    this.deferring = false;
+    for (const { entity } of this.queue.splice(0)) entity.ended = true;
+    for (const entity of [...this.alive.values()].reverse()) {
+      entity.ended = true;
+      this.applyDespawn(entity, "remove");
+    }
+
+    const physics = this.physics();
+    for (const pool of this.pools.values()) {
+      for (const { body } of pool.parked.splice(0)) if (physics && body !== null) physics.removeBody(body);
+    }
+  }
+
+  private enqueue(op: "spawn" | "despawn", entity: EntityRecord<any>): void {
+    if (this.deferring) this.queue.push({ op, entity });
+    else if (op === "spawn") this.applySpawn(entity);
+    else this.applyDespawn(entity);
+  }
+
+  private applySpawn(entity: EntityRecord<any>): void {
+    if (entity.ended) return;
+
+    const { desc } = entity;
+    const pool = entity.kind === null ? undefined : this.pools.get(entity.kind);
+    const parked = pool?.parked.pop();
+
+    if (parked) {
+      this.unpark(entity, parked);
+      pool!.reset?.(entity, desc);
+    } else if (desc.body) {
+      const physics = this.requirePhysics("spawn");
+      const body = physics.createBody({ entity: entity.id, ...desc.body });
+      try {
+        for (const collider of desc.colliders ?? []) physics.createCollider(collider, body);
+      } catch (e) {
+        // Removing the body also removes the colliders already attached to it.
+        physics.removeBody(body);
+        throw e;
+      }
+      entity.body = body;
+      entity.object = desc.object ?? null;
+    } else {
+      entity.object = desc.object ?? null;
+    }
+
+    if (entity.body !== null && entity.object) this.interpolator.track(entity.body, entity.object);
+
+    entity.alive = true;
+    this.alive.set(entity.id, entity);
+    this.runSpawnHooks(entity);
+  }
+
+  private runSpawnHooks(entity: EntityRecord<any>): void {
+    entity.desc.onSpawn?.(entity, this.world);
+    for (const hook of [...this.spawnHooks]) hook(entity, this.world);
+  }
+
+  /** `keep` leaves the body alone: after a restore it belongs to the restored physics state. */
+  private applyDespawn(entity: EntityRecord<any>, release: Release = "pool"): void {
+    if (!entity.alive) return;
+
+    entity.desc.onDespawn?.(entity, this.world);
+    for (const hook of [...this.despawnHooks].reverse()) hook(entity, this.world);
+
+    entity.alive = false;
+    this.alive.delete(entity.id);
+
+    const { body, object } = entity;
+    if (body !== null) this.interpolator.untrack(body);
+    if (release === "keep") return;
+
+    const physics = this.physics();
+    const pool = entity.kind === null ? undefined : this.pools.get(entity.kind);
+    if (release === "pool" && pool && pool.parked.length < pool.max && (body === null || physics)) {
+      if (body !== null) {
+        physics!.setBodyEnabled(body, false);
+        physics!.setBodyEntity(body, null);
+      }
+      setVisible(object, false);
+      pool.parked.push({ body, object });
+    } else if (body !== null && physics) {
+      // A disposed or swapped-out module took its bodies with it.
+      physics.removeBody(body);
+    }
+  }
+
+  private unpark(entity: EntityRecord<any>, parked: Parked): void {
+    const { desc } = entity;
+    entity.body = parked.body;
+    entity.object = desc.object ?? parked.object;
+    setVisible(entity.object, true);
+
+    const body = parked.body;
+    if (body === null) return;
+
+    const physics = this.requirePhysics("spawn");
+    const zero = { x: 0, y: 0, z: 0 };
+    physics.setBodyEnabled(body, true);
+    physics.setBodyEntity(body, desc.body?.entity ?? entity.id);
+    if (desc.body?.position) physics.setPosition(body, desc.body.position);
+    if (desc.body?.rotation) physics.setRotation(body, desc.body.rotation);
+    physics.setLinearVelocity(body, desc.body?.linearVelocity ?? zero);
+    physics.setAngularVelocity(body, desc.body?.angularVelocity ?? zero);
+  }
+
+  private physics(): RapierPhysicsModule | null {
+    const physics = this.world.physics;
+    return isRapierPhysics(physics) && physics.ready ? physics : null;
+  }
+
+  private requirePhysics(op: string): RapierPhysicsModule {
+    const physics = this.physics();
+    if (!physics) throw new Error(`WorldEntities.${op}: bodies need a ready RapierPhysicsModule`);
+    return physics;
+  }
+}
+
+function addHook(hooks: EntityHook<any>[], hook: EntityHook<any>): () => void {
+  hooks.push(hook);
+  return () => {
+    const i = hooks.indexOf(hook);
+    if (i >= 0) hooks.splice(i, 1);
+  };
+}
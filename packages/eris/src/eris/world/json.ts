@@ -0,0 +1,48 @@
+type Tagged =
+  | { $type: "Uint8Array"; base64: string }
+  | { $type: "Map"; entries: [unknown, unknown][] }
+  | { $type: "Set"; values: unknown[] };
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** JSON text; `Uint8Array` (physics snapshots), `Map` and `Set` values are preserved. */
+export function stringifyTagged(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v instanceof Uint8Array) return { $type: "Uint8Array", base64: toBase64(v) } satisfies Tagged;
+    if (v instanceof Map) return { $type: "Map", entries: [...v] } satisfies Tagged;
+    if (v instanceof Set) return { $type: "Set", values: [...v] } satisfies Tagged;
+    return v;
+  });
+}
+
+/** Inverse of `stringifyTagged`. */
+export function parseTagged(text: string): unknown {
+  return JSON.parse(text, (_key, value: unknown) => {
+    if (!value || typeof value !== "object" || !("$type" in value)) return value;
+    const tagged = value as Tagged;
+    switch (tagged.$type) {
+      case "Uint8Array":
+        return fromBase64(tagged.base64);
+      case "Map":
+        return new Map(tagged.entries);
+      case "Set":
+        return new Set(tagged.values);
+      default:
+        return value;
+    }
+  });
+}
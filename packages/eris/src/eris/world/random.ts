@@ -0,0 +1,150 @@
+/** Everything needed to resume `World.random` exactly: the seed plus each used stream's position. */
+export interface RandomState {
+  seed: number;
+  streams: Record<string, number>;
+}
+
+function assertSeed(seed: number): void {
+  if (!Number.isFinite(seed)) throw new Error(`Random seed must be a finite number (got: ${seed})`);
+}
+
+// FNV-1a over the name, then a murmur3 finalizer mixed with the seed.
+function deriveStreamSeed(seed: number, name: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < name.length; i += 1) {
+    h ^= name.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  h ^= seed >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * A seeded PRNG (mulberry32). Fast, small (one 32-bit word of state) and fully reproducible;
+ * not suitable for cryptography.
+ */
+export class RandomStream {
+  private s: number;
+
+  constructor(seed: number) {
+    assertSeed(seed);
+    this.s = seed >>> 0;
+  }
+
+  /** Internal position; assign a previously read value to rewind. */
+  get state(): number {
+    return this.s;
+  }
+
+  set state(value: number) {
+    this.s = value >>> 0;
+  }
+
+  /** Uniform integer in [0..2^32). */
+  nextUint32(): number {
+    this.s = (this.s + 0x6d2b79f5) >>> 0;
+    let t = this.s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+
+  /** Uniform in [0..1). */
+  float(): number {
+    return this.nextUint32() / 4294967296;
+  }
+
+  /** Uniform in [min..max). */
+  range(min: number, max: number): number {
+    return min + (max - min) * this.float();
+  }
+
+  /** Uniform integer in [min..max] (both inclusive). */
+  int(min: number, max: number): number {
+    const lo = Math.ceil(min);
+    const hi = Math.floor(max);
+    if (hi < lo) throw new Error(`RandomStream.int: empty range [${min}..${max}]`);
+    return lo + Math.floor(this.float() * (hi - lo + 1));
+  }
+
+  /** True with probability `p`. */
+  bool(p = 0.5): boolean {
+    return this.float() < p;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) throw new Error("RandomStream.pick: empty list");
+    return items[Math.floor(this.float() * items.length)]!;
+  }
+
+  /** Fisher-Yates, in place. */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i -= 1) {
+      const j = Math.floor(this.float() * (i + 1));
+      const tmp = items[i]!;
+      items[i] = items[j]!;
+      items[j] = tmp;
+    }
+    return items;
+  }
+}
+
+/**
+ * The world's randomness: independent named streams derived from one seed.
+ *
+ * Each system should draw from its own stream (`world.random.stream("loot")`), so adding a
+ * system or changing how often one draws never shifts another system's sequence. Stream
+ * positions are part of `World.snapshot()`, so rollback and replays reproduce them.
+ */
+export class WorldRandom {
+  private _seed: number;
+  private readonly streams = new Map<string, RandomStream>();
+
+  constructor(seed: number) {
+    assertSeed(seed);
+    this._seed = seed >>> 0;
+  }
+
+  get seed(): number {
+    return this._seed;
+  }
+
+  /** The stream for `name`, created on first use. The same object is returned every time. */
+  stream(name: string): RandomStream {
+    let s = this.streams.get(name);
+    if (!s) {
+      s = new RandomStream(deriveStreamSeed(this._seed, name));
+      this.streams.set(name, s);
+    }
+    return s;
+  }
+
+  /** Change the seed and rewind every stream to its start. */
+  reseed(seed: number): void {
+    assertSeed(seed);
+    this._seed = seed >>> 0;
+    for (const [name, s] of this.streams) s.state = deriveStreamSeed(this._seed, name);
+  }
+
+  getState(): RandomState {
+    const streams: Record<string, number> = {};
+    for (const [name, s] of this.streams) streams[name] = s.state;
+    return { seed: this._seed, streams };
+  }
+
+  /**
+   * Resume from `getState()`. Stream objects already handed out stay valid; streams missing
+   * from `state` are rewound to their start.
+   */
+  setState(state: RandomState): void {
+    this.reseed(state.seed);
+    for (const [name, value] of Object.entries(state.streams)) this.stream(name).state = value;
+  }
+}
+
+/** A seed from `Math.random()`, for sessions that don't need to be reproducible. */
+export function randomSeed(): number {
+  return (Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,80 @@
+import type { EntitiesState } from "./entities";
+import type { World } from "./World";
+import type { RandomState } from "./random";
+
+/** Bumped whenever the `WorldSnapshot` layout changes incompatibly. */
+export const WORLD_SNAPSHOT_VERSION = 1;
+
+/**
+ * Converts one `World.state` entry to and from structured-clone-able data.
+ *
+ * Use this for entries that hold live objects (physics bodies, class instances): serialize a
+ * stable identifier or the plain fields, and resolve/rebuild the live object on restore.
+ */
+export interface StateSerializer<T = unknown, S = unknown> {
+  serialize(value: T, world: World): S;
+  /** `current` is the value in the world right before restoring (if any). */
+  deserialize(data: S, world: World, current: T | undefined): T;
+}
+
+export interface WorldSnapshot {
+  version: number;
+  tick: number;
+  now: number;
+  /** Serialized state entries (transient keys are omitted). */
+  state: Record<string, unknown>;
+  /** `World.random` seed and stream positions. */
+  random?: RandomState;
+  /** `World.entities`: alive entities, pools and the next id. */
+  entities?: EntitiesState;
+  /** Opaque physics state from `PhysicsModule.snapshot()`, when supported. */
+  physics?: unknown;
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * True for data that survives `structuredClone` unchanged in meaning: primitives, arrays,
+ * plain objects, Map/Set of plain data, Dates and typed arrays. Class instances (THREE
+ * objects, physics bodies, ...) are rejected because cloning would strip their prototype.
+ */
+export function isPlainData(value: unknown, seen = new Set<object>()): boolean {
+  if (value === null || value === undefined) return true;
+
+  const t = typeof value;
+  if (t === "number" || t === "string" || t === "boolean" || t === "bigint") return true;
+  if (t !== "object") return false;
+
+  const obj = value as object;
+  if (seen.has(obj)) return true;
+  seen.add(obj);
+
+  if (Array.isArray(obj)) return obj.every((v) => isPlainData(v, seen));
+  if (obj instanceof Date || ArrayBuffer.isView(obj) || obj instanceof ArrayBuffer) return true;
+  if (obj instanceof Map) {
+    for (const [k, v] of obj) {
+      if (!isPlainData(k, seen) || !isPlainData(v, seen)) return false;
+    }
+    return true;
+  }
+  if (obj instanceof Set) {
+    for (const v of obj) {
+      if (!isPlainData(v, seen)) return false;
+    }
+    return true;
+  }
+  if (!isPlainObject(obj)) return false;
+
+  return Object.values(obj).every((v) => isPlainData(v, seen));
+}
+
+export function assertSnapshotVersion(snapshot: WorldSnapshot): void {
+  if (snapshot.version !== WORLD_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported world snapshot version: ${snapshot.version} (expected ${WORLD_SNAPSHOT_VERSION})`
+    );
+  }
+}
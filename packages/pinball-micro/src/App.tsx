@@ -1,14 +1,26 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo } from "react";
 import { Canvas } from "@react-three/fiber";
 import rapierWasmUrl from "@rapier-wasm-url";
 import {
   createEngine,
+  createGamepadInput,
   createKeyboardInput,
+  createLocalStorage,
   createRapierPhysics,
   EngineLoop,
-  type Engine
+  EngineProvider,
+  shallowEqual,
+  useWorldState
 } from "react-three-eris";
-import { PinballMicroScene, registerPinballMicroSystems, type PinballGameState } from "./scene/PinballMicroScene";
+import {
+  createPinballSaves,
+  PINBALL_LAYERS,
+  PINBALL_STATE,
+  PinballMicroScene,
+  type PinballGameState
+} from "./scene/PinballMicroScene";
+
+const SAVE_SLOT = "progress";
 
 type HudState = {
   mode: PinballGameState["mode"];
@@ -17,8 +29,7 @@ type HudState = {
   plungerCharge: number;
 };
 
-function readHud(engine: Engine): HudState {
-  const game = engine.world.get<PinballGameState>("pinball.game");
+function readHud(game: PinballGameState | undefined): HudState {
   return {
     mode: game?.mode ?? "ready",
     score: game?.score ?? 0,
@@ -35,28 +46,17 @@ export function App() {
         physics: createRapierPhysics({
           // Tilt the world slightly along +Z so the ball naturally drifts toward the drain.
           gravity: { x: 0, y: -9.81, z: 2.5 },
-          wasmUrl: rapierWasmUrl
+          wasmUrl: rapierWasmUrl,
+          layers: PINBALL_LAYERS
         })
       }),
     []
   );
 
-  const [hud, setHud] = useState<HudState>(() => readHud(engine));
-  const prevHud = useRef<string>(JSON.stringify(hud));
-
   useEffect(() => {
-    // Register systems once per engine instance (StrictMode can remount components in dev).
-    if (!engine.world.has("pinball.systemsInstalled")) {
-      registerPinballMicroSystems(engine);
-      engine.world.set("pinball.systemsInstalled", true);
-    }
-
     // Input is mounted/unmounted with the React tree.
-    const kb = createKeyboardInput();
-    engine.world.set("input.keyboard", kb);
-
-    // Ensure physics/net init happens even if an app forgets to mount <EngineLoop />.
-    void engine.init();
+    const devices = [createKeyboardInput(), createGamepadInput()];
+    const detach = devices.map((d) => engine.world.input.add(d));
 
     // Dev helper: inspect runtime state from the browser console.
     if (import.meta.env.DEV) {
@@ -64,72 +64,103 @@ export function App() {
       (window as any).__rapierWasmUrl = rapierWasmUrl;
     }
 
-    // HUD refresh loop (low frequency; no fancy store subscription needed for this example).
-    const id = window.setInterval(() => {
-      const next = readHud(engine);
-      const json = JSON.stringify(next);
-      if (json !== prevHud.current) {
-        prevHud.current = json;
-        setHud(next);
-      }
-    }, 100);
+    return () => {
+      for (const off of detach) off();
+      for (const d of devices) d.dispose();
+    };
+  }, [engine]);
+
+  useEffect(() => {
+    // The high score survives reloads: restored on mount, saved whenever it changes. An
+    // unreadable save (corrupt, or from a newer build) starts from 0.
+    const saves = createPinballSaves(engine.world, createLocalStorage({ prefix: "pinball-micro." }));
+    let cancelled = false;
+    let off: (() => void) | undefined;
+
+    void saves
+      .load(SAVE_SLOT)
+      .catch(() => null)
+      .then(() => {
+        if (cancelled) return;
+        off = engine.world.subscribe(PINBALL_STATE.highScore, () => void saves.save(SAVE_SLOT).catch(() => {}));
+      });
 
     return () => {
-      window.clearInterval(id);
-      kb.dispose();
-      engine.world.delete("input.keyboard");
+      cancelled = true;
+      off?.();
     };
   }, [engine]);
 
+  // The provider also initializes physics/net, even before <EngineLoop /> mounts.
   return (
-    <div className="pinballRoot">
-      <Canvas
-        shadows
-        camera={{ position: [0, 7, 10], fov: 55 }}
-        onCreated={({ gl }) => {
-          gl.setClearColor("#0b0f17");
-        }}
-        className="pinballCanvas"
-      >
-        <ambientLight intensity={0.25} />
-        <directionalLight position={[6, 10, 4]} intensity={1.15} castShadow />
-
-        <EngineLoop engine={engine} />
-        <PinballMicroScene engine={engine} />
-      </Canvas>
-
-      <div className="pinballHud">
-        <div className="pinballHud__row">
-          <div>
-            <div className="pinballHud__label">Score</div>
-            <div className="pinballHud__value">{hud.score}</div>
-          </div>
-          <div>
-            <div className="pinballHud__label">Balls</div>
-            <div className="pinballHud__value">{hud.ballsRemaining}</div>
-          </div>
-        </div>
+    <EngineProvider engine={engine}>
+      <div className="pinballRoot">
+        <Canvas
+          shadows
+          camera={{ position: [0, 7, 10], fov: 55 }}
+          onCreated={({ gl }) => {
+            gl.setClearColor("#0b0f17");
+          }}
+          className="pinballCanvas"
+        >
+          <ambientLight intensity={0.25} />
+          <directionalLight position={[6, 10, 4]} intensity={1.15} castShadow />
+
+          <EngineLoop />
+          <PinballMicroScene />
+        </Canvas>
+
+        <PinballHud />
+      </div>
+    </EngineProvider>
+  );
+}
+
+function PinballHud() {
+  // Low frequency is plenty for a HUD; only changed fields re-render.
+  const hud = useWorldState(PINBALL_STATE.game, {
+    select: readHud,
+    equals: shallowEqual,
+    throttleMs: 100
+  });
+  const highScore = useWorldState(PINBALL_STATE.highScore) ?? 0;
 
-        <div className="pinballHud__hint">
-          {hud.mode === "gameOver" ? (
-            <div>
-              <div className="pinballHud__strong">Game Over</div>
-              <div>Press R to reset</div>
-            </div>
-          ) : hud.mode === "ready" ? (
-            <div>Hold Space to charge, release to launch</div>
-          ) : (
-            <div>Flippers: Z/← and / /→</div>
-          )}
+  return (
+    <div className="pinballHud">
+      <div className="pinballHud__row">
+        <div>
+          <div className="pinballHud__label">Score</div>
+          <div className="pinballHud__value">{hud.score}</div>
+        </div>
+        <div>
+          <div className="pinballHud__label">Best</div>
+          <div className="pinballHud__value">{highScore}</div>
         </div>
+        <div>
+          <div className="pinballHud__label">Balls</div>
+          <div className="pinballHud__value">{hud.ballsRemaining}</div>
+        </div>
+      </div>
 
-        <div className="pinballHud__plunger">
-          <div className="pinballHud__plungerTop">
-            <span>Plunger</span>
-            <span>{Math.round(hud.plungerCharge * 100)}%</span>
+      <div className="pinballHud__hint">
+        {hud.mode === "gameOver" ? (
+          <div>
+            <div className="pinballHud__strong">Game Over</div>
+            <div>Press R to reset</div>
           </div>
-          <progress className="pinballHud__progress" value={hud.plungerCharge} max={1} />
+        ) : hud.mode === "ready" ? (
+          <div>Hold Space to charge, release to launch</div>
+        ) : (
+          <div>Flippers: Z/← and / /→</div>
+        )}
+      </div>
+
+      <div className="pinballHud__plunger">
+        <div className="pinballHud__plungerTop">
+          <span>Plunger</span>
+          <span>{Math.round(hud.plungerCharge * 100)}%</span>
         </div>
+        <progress className="pinballHud__progress" value={hud.plungerCharge} max={1} />
       </div>
     </div>
   );
@@ -1,6 +1,28 @@
 import { useEffect, useLayoutEffect, useMemo, useRef } from "react";
 import * as THREE from "three";
-import type { Engine, KeyboardInput, System } from "react-three-eris";
+import {
+  createCollisionLayers,
+  createInputMap,
+  createSaveManager,
+  createStateKey,
+  createPoseInterpolator,
+  isRapierPhysics,
+  otherCollider,
+  useEngine,
+  type BodyHandle,
+  type ColliderHandle,
+  type Engine,
+  type InputMap,
+  type Level,
+  type LevelContext,
+  type PoseInterpolator,
+  type Quat,
+  type RapierPhysicsModule,
+  type SaveManager,
+  type SaveStorage,
+  type System,
+  type SystemHandle
+} from "react-three-eris";
 
 export type PinballMode = "ready" | "inPlay" | "gameOver";
 
@@ -32,7 +54,7 @@ type FlipperSide = "left" | "right";
 
 type FlipperState = {
   side: FlipperSide;
-  rb: any;
+  body: BodyHandle;
   pivot: { x: number; y: number; z: number };
   yaw: number;
   restYaw: number;
@@ -41,6 +63,7 @@ type FlipperState = {
 
 type BumperState = {
   id: string;
+  collider: ColliderHandle;
   center: { x: number; y: number; z: number };
   radius: number;
   cooldownUntil: number;
@@ -51,8 +74,46 @@ const FLIPPER_HALF_LEN = 0.75;
 const FLIPPER_HALF_H = 0.09;
 const FLIPPER_HALF_W = 0.18;
 
+/**
+ * Every `pinball.*` state key. They are declared strict (`declarePinballState`), so a misspelled
+ * key throws instead of silently reading `undefined`.
+ */
+export const PINBALL_STATE = {
+  config: createStateKey<PinballConfig>("pinball.config"),
+  game: createStateKey<PinballGameState>("pinball.game"),
+  inputMap: createStateKey<InputMap<PinballAction>>("pinball.input.map", { transient: true }),
+  intentLeft: createStateKey("pinball.intent.left", { default: false }),
+  intentRight: createStateKey("pinball.intent.right", { default: false }),
+  intentPlungerHeld: createStateKey("pinball.intent.plungerHeld", { default: false }),
+  intentPlungerReleased: createStateKey("pinball.intent.plungerReleased", { default: false }),
+  intentResetPressed: createStateKey("pinball.intent.resetPressed", { default: false }),
+  intentDebugPressed: createStateKey("pinball.intent.debugPressed", { default: false }),
+  debug: createStateKey("pinball.debug", { default: false }),
+  highScore: createStateKey("pinball.highScore", {
+    default: 0,
+    validate: (v) => typeof v === "number" && Number.isFinite(v) && v >= 0
+  }),
+  flipperLeft: createStateKey<FlipperState>("pinball.flipper.left"),
+  flipperRight: createStateKey<FlipperState>("pinball.flipper.right"),
+  ballBody: createStateKey<BodyHandle>("pinball.ball.body"),
+  bumpers: createStateKey<BumperState[]>("pinball.bumpers"),
+  physicsBuilt: createStateKey<boolean>("pinball.physicsBuilt"),
+  meshBall: createStateKey<THREE.Object3D>("pinball.mesh.ball", { transient: true }),
+  meshFlipperLeft: createStateKey<THREE.Object3D>("pinball.mesh.flipper.left", { transient: true }),
+  meshFlipperRight: createStateKey<THREE.Object3D>("pinball.mesh.flipper.right", { transient: true }),
+  meshDebug: createStateKey<THREE.Object3D>("pinball.mesh.debug", { transient: true })
+};
+
+/**
+ * Declare `PINBALL_STATE`. The scene does it before loading the table, so the declarations
+ * outlive the level; the systems do it too, for headless use.
+ */
+export function declarePinballState(world: Engine["world"]): void {
+  world.declare(Object.values(PINBALL_STATE), { strict: true });
+}
+
 function getConfig(world: Engine["world"]): PinballConfig {
-  const existing = world.get<PinballConfig>("pinball.config");
+  const existing = world.getKey(PINBALL_STATE.config);
   if (existing) return existing;
 
   const cfg: PinballConfig = {
@@ -72,99 +133,123 @@ function getConfig(world: Engine["world"]): PinballConfig {
     bumperCooldownSeconds: 0.18
   };
 
-  world.set("pinball.config", cfg);
+  world.setKey(PINBALL_STATE.config, cfg);
   return cfg;
 }
 
 function getOrInitGame(world: Engine["world"]): PinballGameState {
-  const existing = world.get<PinballGameState>("pinball.game");
+  const existing = world.getKey(PINBALL_STATE.game);
   if (existing) return existing;
   const next: PinballGameState = { mode: "ready", score: 0, ballsRemaining: 3, plungerCharge: 0 };
-  world.set("pinball.game", next);
+  world.setKey(PINBALL_STATE.game, next);
   return next;
 }
 
 function setGame(world: Engine["world"], patch: Partial<PinballGameState>): void {
   const g = getOrInitGame(world);
-  world.set("pinball.game", { ...g, ...patch });
+  world.setKey(PINBALL_STATE.game, { ...g, ...patch });
+}
+
+/** Collision layers of the table; pass them to `createRapierPhysics({ layers })`. */
+export const PINBALL_LAYERS = createCollisionLayers({
+  layers: ["ball", "table", "flipper", "bumper"],
+  collisions: { ball: ["ball", "table", "flipper", "bumper"] }
+});
+
+export type PinballAction = "flipLeft" | "flipRight" | "plunger" | "reset" | "debug";
+
+export function createPinballInputMap(): InputMap<PinballAction> {
+  return createInputMap({
+    actions: {
+      flipLeft: ["KeyZ", "ArrowLeft", "GamepadLB", "GamepadLT"],
+      flipRight: ["Slash", "ArrowRight", "GamepadRB", "GamepadRT"],
+      plunger: ["Space", "GamepadA"],
+      reset: ["KeyR", "GamepadStart"],
+      debug: ["KeyD", "GamepadBack"]
+    }
+  });
+}
+
+function getOrInitInputMap(world: Engine["world"]): InputMap<PinballAction> {
+  const existing = world.getKey(PINBALL_STATE.inputMap);
+  if (existing) return existing;
+
+  const map = createPinballInputMap();
+  world.setKey(PINBALL_STATE.inputMap, map);
+  return map;
+}
+
+function writeIntents(world: Engine["world"], map: InputMap<PinballAction>): void {
+  world.setKey(PINBALL_STATE.intentLeft, map.held("flipLeft"));
+  world.setKey(PINBALL_STATE.intentRight, map.held("flipRight"));
+  world.setKey(PINBALL_STATE.intentPlungerHeld, map.held("plunger"));
+  world.setKey(PINBALL_STATE.intentPlungerReleased, map.released("plunger"));
+  world.setKey(PINBALL_STATE.intentResetPressed, map.pressed("reset"));
+  world.setKey(PINBALL_STATE.intentDebugPressed, map.pressed("debug"));
 }
 
 function clamp01(x: number): number {
   return Math.max(0, Math.min(1, x));
 }
 
-function yawToQuat(yaw: number): { x: number; y: number; z: number; w: number } {
+function yawToQuat(yaw: number): Quat {
   const q = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), yaw);
   return { x: q.x, y: q.y, z: q.z, w: q.w };
 }
 
-function setColliderYaw(desc: any, yaw: number): any {
-  if (desc && typeof desc.setRotation === "function") {
-    return desc.setRotation(yawToQuat(yaw));
-  }
-  return desc;
+/** The Rapier module once it is initialized; null in tests without physics. */
+function getPhysics(world: Engine["world"]): RapierPhysicsModule | null {
+  return isRapierPhysics(world.physics) && world.physics.ready ? world.physics : null;
 }
 
-function setRigidBodyPoseKinematic(rb: any, pivot: { x: number; y: number; z: number }, yaw: number): void {
-  if (!rb) return;
-
-  const q = yawToQuat(yaw);
-  if (typeof rb.setNextKinematicTranslation === "function") {
-    rb.setNextKinematicTranslation(pivot);
-  }
-  if (typeof rb.setNextKinematicRotation === "function") {
-    rb.setNextKinematicRotation(q);
-  } else if (typeof rb.setNextKinematicRotation === "undefined" && typeof rb.setNextKinematicPosition === "function") {
-    // Some rapier builds expose setNextKinematicPosition(pos: Isometry)
-    rb.setNextKinematicPosition({ translation: pivot, rotation: q });
-  }
+/** The ball body with the physics module that owns it; null until the table is built. */
+function getBall(world: Engine["world"]): { physics: RapierPhysicsModule; ball: BodyHandle } | null {
+  const physics = getPhysics(world);
+  const ball = world.getKey(PINBALL_STATE.ballBody);
+  return physics && ball !== undefined ? { physics, ball } : null;
 }
 
-function resetBall(rb: any, cfg: PinballConfig): void {
-  if (!rb) return;
-  if (typeof rb.setTranslation === "function") rb.setTranslation(cfg.ballStart, true);
-  if (typeof rb.setLinvel === "function") rb.setLinvel({ x: 0, y: 0, z: 0 }, true);
-  if (typeof rb.setAngvel === "function") rb.setAngvel({ x: 0, y: 0, z: 0 }, true);
-  // Some builds support sleeping/waking; keep it defensive.
-  if (typeof rb.wakeUp === "function") rb.wakeUp();
+function setFlipperPose(physics: RapierPhysicsModule, flipper: FlipperState): void {
+  physics.setNextKinematicPosition(flipper.body, flipper.pivot);
+  physics.setNextKinematicRotation(flipper.body, yawToQuat(flipper.yaw));
 }
 
-function applyImpulse(rb: any, impulse: { x: number; y: number; z: number }): void {
-  if (!rb) return;
-  if (typeof rb.applyImpulse === "function") rb.applyImpulse(impulse, true);
+function resetBall(physics: RapierPhysicsModule, ball: BodyHandle, cfg: PinballConfig, interp: PoseInterpolator): void {
+  interp.teleport(ball);
+  physics.setPosition(ball, cfg.ballStart);
+  physics.setLinearVelocity(ball, { x: 0, y: 0, z: 0 });
+  physics.setAngularVelocity(ball, { x: 0, y: 0, z: 0 });
 }
 
-export function registerPinballMicroSystems(engine: Engine) {
-  const systems: System[] = [
+export function createPinballMicroSystems(): System[] {
+  // Ball and flipper meshes are drawn between fixed ticks from the last two physics poses.
+  const interp = createPoseInterpolator();
+
+  return [
+    ...interp.systems("pinball.interpolate"),
     {
       name: "pinball.input",
       phase: "preFrame",
+      onRegister(world) {
+        declarePinballState(world);
+      },
+      run(world) {
+        const map = getOrInitInputMap(world);
+        map.update(world.input);
+        writeIntents(world, map);
+      }
+    },
+    {
+      // Edges (plungerReleased, resetPressed, debugPressed) are consumed by exactly one fixed tick.
+      name: "pinball.input.endTick",
+      phase: "postPhysicsFixed",
+      order: Number.MAX_SAFE_INTEGER,
       run(world) {
-        const kb = world.get<KeyboardInput>("input.keyboard");
-        if (!kb) return;
-
-        const prev = world.get<any>("pinball.input.prev") ?? {
-          left: false,
-          right: false,
-          plunger: false,
-          reset: false,
-          debug: false
-        };
-
-        const left = kb.isDown("KeyZ") || kb.isDown("ArrowLeft");
-        const right = kb.isDown("Slash") || kb.isDown("ArrowRight");
-        const plunger = kb.isDown("Space");
-        const reset = kb.isDown("KeyR");
-        const debug = kb.isDown("KeyD");
-
-        world.set("pinball.intent.left", left);
-        world.set("pinball.intent.right", right);
-        world.set("pinball.intent.plungerHeld", plunger);
-        world.set("pinball.intent.plungerReleased", !plunger && prev.plunger);
-        world.set("pinball.intent.resetPressed", reset && !prev.reset);
-        world.set("pinball.intent.debugPressed", debug && !prev.debug);
-
-        world.set("pinball.input.prev", { left, right, plunger, reset, debug });
+        const map = world.getKey(PINBALL_STATE.inputMap);
+        if (!map) return;
+
+        map.endTick();
+        writeIntents(world, map);
       }
     },
     {
@@ -173,42 +258,43 @@ export function registerPinballMicroSystems(engine: Engine) {
       run(world, dt) {
         const cfg = getConfig(world);
         const game = getOrInitGame(world);
-        const resetPressed = world.get<boolean>("pinball.intent.resetPressed") ?? false;
-        const debugPressed = world.get<boolean>("pinball.intent.debugPressed") ?? false;
+        const resetPressed = world.getKey(PINBALL_STATE.intentResetPressed);
+        const debugPressed = world.getKey(PINBALL_STATE.intentDebugPressed);
 
         if (debugPressed) {
-          const on = world.get<boolean>("pinball.debug") ?? false;
-          world.set("pinball.debug", !on);
+          const on = world.getKey(PINBALL_STATE.debug);
+          world.setKey(PINBALL_STATE.debug, !on);
         }
 
-        const ball = world.get<any>("pinball.ball.rb");
+        const physics = getPhysics(world);
+        const ball = getBall(world);
         if (resetPressed) {
           setGame(world, { mode: "ready", score: 0, ballsRemaining: 3, plungerCharge: 0 });
-          resetBall(ball, cfg);
+          if (ball) resetBall(ball.physics, ball.ball, cfg, interp);
           return;
         }
 
         // Flippers (kinematic)
-        const leftHeld = world.get<boolean>("pinball.intent.left") ?? false;
-        const rightHeld = world.get<boolean>("pinball.intent.right") ?? false;
+        const leftHeld = world.getKey(PINBALL_STATE.intentLeft);
+        const rightHeld = world.getKey(PINBALL_STATE.intentRight);
 
-        const lf = world.get<FlipperState>("pinball.flipper.left");
-        const rf = world.get<FlipperState>("pinball.flipper.right");
+        const lf = world.getKey(PINBALL_STATE.flipperLeft);
+        const rf = world.getKey(PINBALL_STATE.flipperRight);
         if (lf) {
           const target = leftHeld ? lf.upYaw : lf.restYaw;
           const step = cfg.flipperSpeedRadPerSec * dt;
           const nextYaw = Math.abs(target - lf.yaw) <= step ? target : lf.yaw + Math.sign(target - lf.yaw) * step;
           lf.yaw = nextYaw;
-          world.set("pinball.flipper.left", lf);
-          setRigidBodyPoseKinematic(lf.rb, lf.pivot, lf.yaw);
+          world.setKey(PINBALL_STATE.flipperLeft, lf);
+          if (physics) setFlipperPose(physics, lf);
         }
         if (rf) {
           const target = rightHeld ? rf.upYaw : rf.restYaw;
           const step = cfg.flipperSpeedRadPerSec * dt;
           const nextYaw = Math.abs(target - rf.yaw) <= step ? target : rf.yaw + Math.sign(target - rf.yaw) * step;
           rf.yaw = nextYaw;
-          world.set("pinball.flipper.right", rf);
-          setRigidBodyPoseKinematic(rf.rb, rf.pivot, rf.yaw);
+          world.setKey(PINBALL_STATE.flipperRight, rf);
+          if (physics) setFlipperPose(physics, rf);
         }
 
         // Plunger
@@ -217,8 +303,8 @@ export function registerPinballMicroSystems(engine: Engine) {
           return;
         }
 
-        const plungerHeld = world.get<boolean>("pinball.intent.plungerHeld") ?? false;
-        const plungerReleased = world.get<boolean>("pinball.intent.plungerReleased") ?? false;
+        const plungerHeld = world.getKey(PINBALL_STATE.intentPlungerHeld);
+        const plungerReleased = world.getKey(PINBALL_STATE.intentPlungerReleased);
 
         let charge = game.plungerCharge;
         if (plungerHeld) {
@@ -230,10 +316,10 @@ export function registerPinballMicroSystems(engine: Engine) {
           const impulseMag = cfg.plungerImpulseMin + (cfg.plungerImpulseMax - cfg.plungerImpulseMin) * charge;
 
           // Only launch if the ball is in the lane region.
-          const t = ball?.translation?.();
+          const t = ball?.physics.getPosition(ball.ball);
           const inLane = t && t.x > 1.8 && t.z > 3.8;
-          if (inLane) {
-            applyImpulse(ball, { x: 0, y: 0, z: -impulseMag });
+          if (ball && inLane) {
+            ball.physics.applyImpulse(ball.ball, { x: 0, y: 0, z: -impulseMag });
             setGame(world, { mode: "inPlay" });
           }
           setGame(world, { plungerCharge: 0 });
@@ -245,38 +331,39 @@ export function registerPinballMicroSystems(engine: Engine) {
       phase: "postPhysicsFixed",
       run(world) {
         const cfg = getConfig(world);
-        const ball = world.get<any>("pinball.ball.rb");
+        const ball = getBall(world);
         const game = getOrInitGame(world);
         if (!ball || game.mode !== "inPlay") return;
 
-        const t = ball.translation?.();
-        if (!t) return;
-
-        const bumpers = world.get<BumperState[]>("pinball.bumpers") ?? [];
+        const bumpers = world.getKey(PINBALL_STATE.bumpers) ?? [];
         if (bumpers.length === 0) return;
 
         let scored = 0;
         const now = world.now;
 
-        for (const b of bumpers) {
-          if (now < b.cooldownUntil) continue;
+        // Bumper colliders report contact events; kick on the tick the ball touches one.
+        for (const contact of ball.physics.events.contacts) {
+          if (contact.type !== "start" || (contact.body1 !== ball.ball && contact.body2 !== ball.ball)) continue;
+
+          const b = bumpers.find((x) => otherCollider(contact, x.collider) !== null);
+          if (!b || now < b.cooldownUntil) continue;
 
+          const t = ball.physics.getPosition(ball.ball);
           const dx = t.x - b.center.x;
           const dz = t.z - b.center.z;
           const dist = Math.hypot(dx, dz);
-          const hitDist = b.radius + cfg.ballRadius;
-          if (dist <= hitDist) {
-            const nx = dist > 1e-6 ? dx / dist : 0;
-            const nz = dist > 1e-6 ? dz / dist : 1;
-            applyImpulse(ball, { x: nx * cfg.bumperKickImpulse, y: 0, z: nz * cfg.bumperKickImpulse });
-            b.cooldownUntil = now + cfg.bumperCooldownSeconds;
-            scored += cfg.bumperScore;
-          }
+          const nx = dist > 1e-6 ? dx / dist : 0;
+          const nz = dist > 1e-6 ? dz / dist : 1;
+          ball.physics.applyImpulse(ball.ball, { x: nx * cfg.bumperKickImpulse, y: 0, z: nz * cfg.bumperKickImpulse });
+          b.cooldownUntil = now + cfg.bumperCooldownSeconds;
+          scored += cfg.bumperScore;
         }
 
         if (scored !== 0) {
-          setGame(world, { score: game.score + scored });
-          world.set("pinball.bumpers", bumpers);
+          const score = game.score + scored;
+          setGame(world, { score });
+          world.setKey(PINBALL_STATE.bumpers, bumpers);
+          if (score > world.getKey(PINBALL_STATE.highScore)) world.setKey(PINBALL_STATE.highScore, score);
         }
       }
     },
@@ -285,14 +372,13 @@ export function registerPinballMicroSystems(engine: Engine) {
       phase: "postPhysicsFixed",
       run(world) {
         const cfg = getConfig(world);
-        const ball = world.get<any>("pinball.ball.rb");
+        const ball = getBall(world);
         if (!ball) return;
 
         const game = getOrInitGame(world);
         if (game.mode === "gameOver") return;
 
-        const t = ball.translation?.();
-        if (!t) return;
+        const t = ball.physics.getPosition(ball.ball);
 
         const drained = t.y < cfg.drainY || t.z > cfg.drainZ;
         if (!drained) return;
@@ -300,7 +386,7 @@ export function registerPinballMicroSystems(engine: Engine) {
         const remaining = Math.max(0, (game.ballsRemaining ?? 0) - 1);
         if (remaining > 0) {
           setGame(world, { ballsRemaining: remaining, mode: "ready", plungerCharge: 0 });
-          resetBall(ball, cfg);
+          resetBall(ball.physics, ball.ball, cfg, interp);
         } else {
           setGame(world, { ballsRemaining: 0, mode: "gameOver", plungerCharge: 0 });
         }
@@ -309,42 +395,224 @@ export function registerPinballMicroSystems(engine: Engine) {
     {
       name: "pinball.renderApply",
       phase: "renderApply",
+      before: ["pinball.interpolate.apply"],
       run(world) {
-        const debugGroup = world.get<THREE.Object3D>("pinball.mesh.debug");
+        const debugGroup = world.getKey(PINBALL_STATE.meshDebug);
         if (debugGroup) {
-          const on = world.get<boolean>("pinball.debug") ?? false;
+          const on = world.getKey(PINBALL_STATE.debug);
           debugGroup.visible = on;
         }
 
-        const ball = world.get<any>("pinball.ball.rb");
-        const ballMesh = world.get<THREE.Object3D>("pinball.mesh.ball");
-        if (ball && ballMesh) {
-          const t = ball.translation?.();
-          if (t) ballMesh.position.set(t.x, t.y, t.z);
-        }
-
-        const lf = world.get<FlipperState>("pinball.flipper.left");
-        const rf = world.get<FlipperState>("pinball.flipper.right");
-        const leftGroup = world.get<THREE.Object3D>("pinball.mesh.flipper.left");
-        const rightGroup = world.get<THREE.Object3D>("pinball.mesh.flipper.right");
-
-        if (lf && leftGroup) {
-          leftGroup.position.set(lf.pivot.x, lf.pivot.y, lf.pivot.z);
-          leftGroup.rotation.set(0, lf.yaw, 0);
-        }
-        if (rf && rightGroup) {
-          rightGroup.position.set(rf.pivot.x, rf.pivot.y, rf.pivot.z);
-          rightGroup.rotation.set(0, rf.yaw, 0);
-        }
+        // Bind meshes once both sides exist; the interpolator moves them from then on.
+        const ball = world.getKey(PINBALL_STATE.ballBody);
+        const ballMesh = world.getKey(PINBALL_STATE.meshBall);
+        if (ball !== undefined && ballMesh) interp.track(ball, ballMesh);
+
+        const lf = world.getKey(PINBALL_STATE.flipperLeft);
+        const rf = world.getKey(PINBALL_STATE.flipperRight);
+        const leftGroup = world.getKey(PINBALL_STATE.meshFlipperLeft);
+        const rightGroup = world.getKey(PINBALL_STATE.meshFlipperRight);
+        if (lf && leftGroup) interp.track(lf.body, leftGroup);
+        if (rf && rightGroup) interp.track(rf.body, rightGroup);
       }
     }
   ];
+}
 
-  engine.registerSystems(systems);
+export function registerPinballMicroSystems(engine: Engine): SystemHandle[] {
+  return engine.registerSystems(createPinballMicroSystems());
 }
 
-export function PinballMicroScene(props: { engine: Engine }) {
-  const { engine } = props;
+/** Where the table's physics content is created: the physics module itself, or a level context. */
+type TableFactory = Pick<LevelContext, "createBody" | "createCollider">;
+
+function buildTable(world: Engine["world"], physics: RapierPhysicsModule, create: TableFactory): void {
+  const cfg = getConfig(world);
+
+  // Floor (table): use a finite floor so the ball can fall off to drain.
+  create.createCollider({
+    shape: "box",
+    halfExtents: { x: cfg.tableHalfWidth, y: cfg.tableFloorHalfThickness, z: cfg.tableHalfLength },
+    position: { x: 0, y: -cfg.tableFloorHalfThickness, z: 0 },
+    layer: "table"
+  });
+
+  // Side walls (slightly taller than the ball).
+  const wallH = 0.55;
+  const wallT = 0.15;
+  const wallY = wallH / 2;
+  const wallZ = -0.3; // keep the bottom area more open
+
+  for (const side of [-1, 1]) {
+    create.createCollider({
+      shape: "box",
+      halfExtents: { x: wallT, y: wallH / 2, z: cfg.tableHalfLength - 0.7 },
+      position: { x: side * (cfg.tableHalfWidth + wallT), y: wallY, z: wallZ },
+      restitution: 0.2,
+      friction: 0.6,
+      layer: "table"
+    });
+  }
+  // Back wall (top).
+  // Instead of a perfectly flat back wall (which tends to bounce the ball
+  // straight back down the center), use a shallow V-shape to add lateral
+  // deflection and make the play feel more "pinball".
+  const backZ = -cfg.tableHalfLength - wallT;
+  const backYaw = 0.32;
+  for (const side of [-1, 1]) {
+    create.createCollider({
+      shape: "box",
+      halfExtents: { x: cfg.tableHalfWidth * 0.65, y: wallH / 2, z: wallT },
+      position: { x: side * cfg.tableHalfWidth * 0.2, y: wallY, z: backZ },
+      rotation: yawToQuat(-side * backYaw),
+      restitution: 0.22,
+      friction: 0.6,
+      layer: "table"
+    });
+  }
+
+  // Plunger lane guide wall (keeps the ball on the right at the start).
+  create.createCollider({
+    shape: "box",
+    halfExtents: { x: 0.08, y: 0.35, z: 1.7 },
+    position: { x: 1.85, y: 0.35, z: 4.9 },
+    restitution: 0.1,
+    friction: 0.7,
+    layer: "table"
+  });
+
+  // Bumpers (static colliders with contact events). We also keep a small gameplay array for scoring + kick.
+  const bumpers: BumperState[] = [
+    { id: "b1", center: { x: -1.2, y: 0.25, z: -3.2 }, radius: 0.5 },
+    { id: "b2", center: { x: 0.0, y: 0.25, z: -4.3 }, radius: 0.5 },
+    { id: "b3", center: { x: 1.1, y: 0.25, z: -3.0 }, radius: 0.5 }
+  ].map((b) => ({
+    ...b,
+    collider: create.createCollider({
+      shape: "ball",
+      radius: b.radius,
+      position: b.center,
+      restitution: 0.9,
+      friction: 0.2,
+      events: true,
+      entity: b.id,
+      layer: "bumper"
+    }),
+    cooldownUntil: 0
+  }));
+  world.setKey(PINBALL_STATE.bumpers, bumpers);
+
+  // Ball
+  const ball = create.createBody({
+    type: "dynamic",
+    position: cfg.ballStart,
+    linearDamping: 0.15,
+    angularDamping: 0.35,
+    ccd: true
+  });
+  create.createCollider(
+    { shape: "ball", radius: cfg.ballRadius, restitution: 0.55, friction: 0.55, density: 1.0, layer: "ball" },
+    ball
+  );
+  world.setKey(PINBALL_STATE.ballBody, ball);
+
+  // Flippers (kinematic). Each flipper is a kinematic body at the pivot, with a cuboid collider offset.
+  const flipperY = 0.18;
+
+  // Spread pivots slightly so the flippers don't overlap visually or physically.
+  const leftPivot = { x: -1.55, y: flipperY, z: 4.35 };
+  const rightPivot = { x: 1.55, y: flipperY, z: 4.35 };
+
+  const createFlipperBody = (pivot: typeof leftPivot, offsetX: number): BodyHandle => {
+    const body = create.createBody({ type: "kinematicPosition", position: pivot });
+    create.createCollider(
+      {
+        shape: "box",
+        halfExtents: { x: FLIPPER_HALF_LEN, y: FLIPPER_HALF_H, z: FLIPPER_HALF_W },
+        position: { x: offsetX, y: 0, z: 0 },
+        restitution: 0.25,
+        friction: 0.9,
+        layer: "flipper"
+      },
+      body
+    );
+    return body;
+  };
+
+  const left: FlipperState = {
+    side: "left",
+    body: createFlipperBody(leftPivot, FLIPPER_HALF_LEN),
+    pivot: leftPivot,
+    yaw: -0.25,
+    restYaw: -0.25,
+    upYaw: 0.62
+  };
+  const right: FlipperState = {
+    side: "right",
+    body: createFlipperBody(rightPivot, -FLIPPER_HALF_LEN),
+    pivot: rightPivot,
+    // IMPORTANT: keep yaw near 0 so the collider offset (-X) stays on the left
+    // side of the pivot. A +π yaw would flip it into the plunger lane.
+    yaw: 0.25,
+    restYaw: 0.25,
+    upYaw: -0.62
+  };
+  world.setKey(PINBALL_STATE.flipperLeft, left);
+  world.setKey(PINBALL_STATE.flipperRight, right);
+  setFlipperPose(physics, left);
+  setFlipperPose(physics, right);
+
+  // Game state defaults
+  getOrInitGame(world);
+}
+
+/**
+ * Create the table (colliders, ball, flippers) in the Rapier world and the matching state
+ * entries. Runs once per world; returns false until Rapier is initialized. The physics module
+ * must be created with `PINBALL_LAYERS`.
+ *
+ * For headless use; the app loads `PINBALL_LEVEL` instead.
+ */
+export function buildPinballTable(engine: Engine): boolean {
+  if (engine.world.hasKey(PINBALL_STATE.physicsBuilt)) return true;
+
+  const physics = getPhysics(engine.world);
+  if (!physics) return false;
+
+  buildTable(engine.world, physics, physics);
+  engine.world.setKey(PINBALL_STATE.physicsBuilt, true);
+  return true;
+}
+
+/**
+ * The table as a level: its systems, physics content and `pinball.*` state come and go with
+ * `engine.levels.load()` / `unload()`. Mesh keys belong to `PinballMicroScene` and the high
+ * score outlives the table, so those stay.
+ */
+export const PINBALL_LEVEL: Level = {
+  name: "pinball.table",
+  state: Object.values(PINBALL_STATE).filter(
+    (key) =>
+      !key.key.startsWith("pinball.mesh.") && key !== PINBALL_STATE.physicsBuilt && key !== PINBALL_STATE.highScore
+  ),
+  systems: createPinballMicroSystems,
+  load(ctx) {
+    const physics = ctx.physics;
+    if (!physics) throw new Error("PINBALL_LEVEL: needs a ready RapierPhysicsModule");
+    buildTable(ctx.world, physics, ctx);
+  }
+};
+
+/** Bump (and add a migration) when the saved keys change shape. */
+export const PINBALL_SAVE_VERSION = 1;
+
+/** Saves the high score. */
+export function createPinballSaves(world: Engine["world"], storage: SaveStorage): SaveManager {
+  return createSaveManager(world, { storage, version: PINBALL_SAVE_VERSION, keys: [PINBALL_STATE.highScore] });
+}
+
+export function PinballMicroScene() {
+  const engine = useEngine();
 
   const ballRef = useRef<THREE.Mesh>(null);
   const leftFlipperGroupRef = useRef<THREE.Group>(null);
@@ -352,178 +620,23 @@ export function PinballMicroScene(props: { engine: Engine }) {
   const debugGroupRef = useRef<THREE.Group>(null);
 
   useLayoutEffect(() => {
-    if (ballRef.current) engine.world.set("pinball.mesh.ball", ballRef.current);
-    if (leftFlipperGroupRef.current) engine.world.set("pinball.mesh.flipper.left", leftFlipperGroupRef.current);
-    if (rightFlipperGroupRef.current) engine.world.set("pinball.mesh.flipper.right", rightFlipperGroupRef.current);
-    if (debugGroupRef.current) engine.world.set("pinball.mesh.debug", debugGroupRef.current);
+    if (ballRef.current) engine.world.setKey(PINBALL_STATE.meshBall, ballRef.current);
+    if (leftFlipperGroupRef.current) engine.world.setKey(PINBALL_STATE.meshFlipperLeft, leftFlipperGroupRef.current);
+    if (rightFlipperGroupRef.current) engine.world.setKey(PINBALL_STATE.meshFlipperRight, rightFlipperGroupRef.current);
+    if (debugGroupRef.current) engine.world.setKey(PINBALL_STATE.meshDebug, debugGroupRef.current);
   }, [engine]);
 
   const cfg = useMemo(() => getConfig(engine.world), [engine]);
 
+  // The table follows the component lifecycle (StrictMode remounts supersede the first load).
   useEffect(() => {
-    let cancelled = false;
-
-    void engine.init().then(() => {
-      if (cancelled) return;
-      if (engine.world.has("pinball.physicsBuilt")) return;
-
-      const physics: any = engine.world.physics;
-      if (physics?.kind !== "rapier") return;
-      const RAPIER = physics.rapier;
-      const world = physics.world;
-      if (!RAPIER || !world) return;
-
-      // Floor (table): use a finite floor so the ball can fall off to drain.
-      world.createCollider(
-        RAPIER.ColliderDesc.cuboid(cfg.tableHalfWidth, cfg.tableFloorHalfThickness, cfg.tableHalfLength).setTranslation(
-          0,
-          -cfg.tableFloorHalfThickness,
-          0
-        )
-      );
-
-      // Side walls (slightly taller than the ball).
-      const wallH = 0.55;
-      const wallT = 0.15;
-      const wallY = wallH / 2;
-      const wallZ = -0.3; // keep the bottom area more open
-
-      world.createCollider(
-        RAPIER.ColliderDesc.cuboid(wallT, wallH / 2, cfg.tableHalfLength - 0.7)
-          .setTranslation(-cfg.tableHalfWidth - wallT, wallY, wallZ)
-          .setRestitution(0.2)
-          .setFriction(0.6)
-      );
-      world.createCollider(
-        RAPIER.ColliderDesc.cuboid(wallT, wallH / 2, cfg.tableHalfLength - 0.7)
-          .setTranslation(cfg.tableHalfWidth + wallT, wallY, wallZ)
-          .setRestitution(0.2)
-          .setFriction(0.6)
-      );
-      // Back wall (top).
-      // Instead of a perfectly flat back wall (which tends to bounce the ball
-      // straight back down the center), use a shallow V-shape to add lateral
-      // deflection and make the play feel more "pinball".
-      const backZ = -cfg.tableHalfLength - wallT;
-      const backYaw = 0.32;
-      world.createCollider(
-        setColliderYaw(
-          RAPIER.ColliderDesc.cuboid(cfg.tableHalfWidth * 0.65, wallH / 2, wallT)
-            .setTranslation(-cfg.tableHalfWidth * 0.2, wallY, backZ)
-            .setRestitution(0.22)
-            .setFriction(0.6),
-          +backYaw
-        )
-      );
-      world.createCollider(
-        setColliderYaw(
-          RAPIER.ColliderDesc.cuboid(cfg.tableHalfWidth * 0.65, wallH / 2, wallT)
-            .setTranslation(cfg.tableHalfWidth * 0.2, wallY, backZ)
-            .setRestitution(0.22)
-            .setFriction(0.6),
-          -backYaw
-        )
-      );
-
-      // Plunger lane guide wall (keeps the ball on the right at the start).
-      world.createCollider(
-        RAPIER.ColliderDesc.cuboid(0.08, 0.35, 1.7)
-          .setTranslation(1.85, 0.35, 4.9)
-          .setRestitution(0.1)
-          .setFriction(0.7)
-      );
-
-      // Bumpers (static colliders). We also keep a small gameplay array for scoring + kick.
-      const bumpers: BumperState[] = [
-        { id: "b1", center: { x: -1.2, y: 0.25, z: -3.2 }, radius: 0.5, cooldownUntil: 0 },
-        { id: "b2", center: { x: 0.0, y: 0.25, z: -4.3 }, radius: 0.5, cooldownUntil: 0 },
-        { id: "b3", center: { x: 1.1, y: 0.25, z: -3.0 }, radius: 0.5, cooldownUntil: 0 }
-      ];
-      for (const b of bumpers) {
-        world.createCollider(
-          RAPIER.ColliderDesc.ball(b.radius)
-            .setTranslation(b.center.x, b.center.y, b.center.z)
-            .setRestitution(0.9)
-            .setFriction(0.2)
-        );
-      }
-      engine.world.set("pinball.bumpers", bumpers);
-
-      // Ball
-      const rbDesc: any = RAPIER.RigidBodyDesc.dynamic().setTranslation(cfg.ballStart.x, cfg.ballStart.y, cfg.ballStart.z);
-      if (typeof rbDesc.setLinearDamping === "function") rbDesc.setLinearDamping(0.15);
-      if (typeof rbDesc.setAngularDamping === "function") rbDesc.setAngularDamping(0.35);
-      if (typeof rbDesc.setCcdEnabled === "function") rbDesc.setCcdEnabled(true);
-      const ballRb = world.createRigidBody(rbDesc);
-      const ballColDesc: any = RAPIER.ColliderDesc.ball(cfg.ballRadius)
-        .setRestitution(0.55)
-        .setFriction(0.55);
-      if (typeof ballColDesc.setDensity === "function") ballColDesc.setDensity(1.0);
-      world.createCollider(ballColDesc, ballRb);
-      engine.world.set("pinball.ball.rb", ballRb);
-
-      // Flippers (kinematic). Each flipper is a kinematic body at the pivot, with a cuboid collider offset.
-      const flipperY = 0.18;
-
-      // Spread pivots slightly so the flippers don't overlap visually or physically.
-      const leftPivot = { x: -1.55, y: flipperY, z: 4.35 };
-      const rightPivot = { x: 1.55, y: flipperY, z: 4.35 };
-
-      const leftRb = world.createRigidBody(
-        RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(leftPivot.x, leftPivot.y, leftPivot.z)
-      );
-      world.createCollider(
-        RAPIER.ColliderDesc.cuboid(FLIPPER_HALF_LEN, FLIPPER_HALF_H, FLIPPER_HALF_W)
-          .setTranslation(FLIPPER_HALF_LEN, 0, 0)
-          .setRestitution(0.25)
-          .setFriction(0.9),
-        leftRb
-      );
-
-      const rightRb = world.createRigidBody(
-        RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(rightPivot.x, rightPivot.y, rightPivot.z)
-      );
-      world.createCollider(
-        RAPIER.ColliderDesc.cuboid(FLIPPER_HALF_LEN, FLIPPER_HALF_H, FLIPPER_HALF_W)
-          .setTranslation(-FLIPPER_HALF_LEN, 0, 0)
-          .setRestitution(0.25)
-          .setFriction(0.9),
-        rightRb
-      );
-
-      const left: FlipperState = {
-        side: "left",
-        rb: leftRb,
-        pivot: leftPivot,
-        yaw: -0.25,
-        restYaw: -0.25,
-        upYaw: 0.62
-      };
-      const right: FlipperState = {
-        side: "right",
-        rb: rightRb,
-        pivot: rightPivot,
-        // IMPORTANT: keep yaw near 0 so the collider offset (-X) stays on the left
-        // side of the pivot. A +π yaw would flip it into the plunger lane.
-        yaw: 0.25,
-        restYaw: 0.25,
-        upYaw: -0.62
-      };
-      engine.world.set("pinball.flipper.left", left);
-      engine.world.set("pinball.flipper.right", right);
-      setRigidBodyPoseKinematic(leftRb, leftPivot, left.yaw);
-      setRigidBodyPoseKinematic(rightRb, rightPivot, right.yaw);
-
-      // Game state defaults
-      getOrInitGame(engine.world);
-
-      engine.world.set("pinball.physicsBuilt", true);
-    });
-
+    declarePinballState(engine.world);
+    // A failed load is published in `LEVEL_STATUS`.
+    engine.levels.load(PINBALL_LEVEL).catch(() => {});
     return () => {
-      cancelled = true;
+      void engine.levels.unload();
     };
-  }, [engine, cfg]);
+  }, [engine]);
 
   return (
     <>
@@ -1,7 +1,16 @@
-import { describe, expect, it, vi } from "vitest";
-import * as THREE from "three";
-import { createEngine, type KeyboardInput } from "react-three-eris";
-import { registerBasicCharacterSystems } from "../../../packages/basic-character/src/scene/BasicCharacterScene";
+import { describe, expect, it } from "vitest";
+import {
+  createEngine,
+  createHeadlessRunner,
+  createMemoryStorage,
+  createRapierPhysics,
+  type CharacterState,
+  type KeyboardInput
+} from "react-three-eris";
+import {
+  createBasicCharacterSaves,
+  registerBasicCharacterSystems
+} from "../../../packages/basic-character/src/scene/BasicCharacterScene";
 
 function makeKeyboardInput(down: Set<string>): KeyboardInput {
   return {
@@ -17,7 +26,7 @@ describe("basic-character systems", () => {
     const engine = createEngine({ fixedDt: 1, maxFrameDt: 10 });
     registerBasicCharacterSystems(engine);
 
-    engine.world.set("input.keyboard", makeKeyboardInput(new Set(["KeyW", "KeyD"])));
+    engine.world.input.add(makeKeyboardInput(new Set(["KeyW", "KeyD"])));
     await engine.init();
 
     engine.frame(0.016);
@@ -28,47 +37,58 @@ describe("basic-character systems", () => {
     expect(move!.z).toBeCloseTo(-Math.SQRT1_2, 6);
   });
 
-  it("fixed moves a kinematic body via setNextKinematicTranslation()", async () => {
-    const engine = createEngine({ fixedDt: 0.2, maxFrameDt: 10 });
+  it("fixed walks the player with the character controller until a wall stops it", async () => {
+    const physics = createRapierPhysics();
+    const engine = createEngine({ fixedDt: 1 / 60, physics });
     registerBasicCharacterSystems(engine);
 
-    engine.world.set("input.keyboard", makeKeyboardInput(new Set(["KeyD"])));
-    engine.world.set("player.speed", 5);
+    const down = new Set(["KeyD"]);
+    engine.world.input.add(makeKeyboardInput(down));
+    await engine.init();
 
-    const body = {
-      translation: () => ({ x: 0, y: 1, z: 0 }),
-      setNextKinematicTranslation: vi.fn()
-    };
+    physics.createCollider({ shape: "box", halfExtents: { x: 20, y: 0.1, z: 20 }, position: { x: 0, y: -0.1, z: 0 } });
+    physics.createCollider({ shape: "box", halfExtents: { x: 0.5, y: 1, z: 5 }, position: { x: 2.5, y: 1, z: 0 } });
+    const body = physics.createBody({ type: "kinematicPosition", position: { x: 0, y: 0.75, z: 0 } });
+    physics.createCollider({ shape: "capsule", halfHeight: 0.45, radius: 0.25 }, body);
     engine.world.set("player.body", body);
 
-    await engine.init();
-    engine.frame(0.2); // exactly one fixed tick
-
-    expect(body.setNextKinematicTranslation).toHaveBeenCalledTimes(1);
-    expect(body.setNextKinematicTranslation).toHaveBeenCalledWith({ x: 1, y: 1, z: 0 });
+    const runner = createHeadlessRunner(engine);
+    runner.runTicks(12);
+    const walking = engine.world.get<CharacterState>("player.character")!;
+    expect(walking.grounded).toBe(true);
+    expect(walking.velocity.x).toBeCloseTo(5, 1);
+
+    runner.runTicks(60);
+    expect(physics.getPosition(body).x).toBeLessThan(1.8);
+    expect(physics.getPosition(body).x).toBeGreaterThan(1.6);
+
+    // Jump: Space is a pressed edge, consumed by one tick.
+    down.add("Space");
+    engine.frame(1 / 60);
+    runner.runTicks(10);
+    expect(physics.getPosition(body).y).toBeGreaterThan(1);
   });
 
-  it("renderApply writes body translation to the mesh position", async () => {
-    const engine = createEngine({ fixedDt: 10, maxFrameDt: 10 }); // avoid running fixed
+  it("tracks the player position as plain data for saves", async () => {
+    const physics = createRapierPhysics();
+    const engine = createEngine({ fixedDt: 1 / 60, physics });
     registerBasicCharacterSystems(engine);
+    engine.world.input.add(makeKeyboardInput(new Set(["KeyD"])));
+    await engine.init();
 
-    engine.world.set("input.keyboard", makeKeyboardInput(new Set()));
-
-    const mesh = new THREE.Object3D();
-    engine.world.set("player.mesh", mesh);
-
-    const body = {
-      translation: () => ({ x: 2, y: 3, z: 4 }),
-      setNextKinematicTranslation: vi.fn()
-    };
+    physics.createCollider({ shape: "box", halfExtents: { x: 20, y: 0.1, z: 20 }, position: { x: 0, y: -0.1, z: 0 } });
+    const body = physics.createBody({ type: "kinematicPosition", position: { x: 0, y: 0.75, z: 0 } });
+    physics.createCollider({ shape: "capsule", halfHeight: 0.45, radius: 0.25 }, body);
     engine.world.set("player.body", body);
+    createHeadlessRunner(engine).runTicks(30);
 
-    await engine.init();
-    engine.frame(0.016);
+    const storage = createMemoryStorage();
+    await createBasicCharacterSaves(engine.world, storage).save("autosave");
 
-    expect(mesh.position.x).toBeCloseTo(2, 6);
-    expect(mesh.position.y).toBeCloseTo(3, 6);
-    expect(mesh.position.z).toBeCloseTo(4, 6);
+    const reloaded = createEngine();
+    await createBasicCharacterSaves(reloaded.world, storage).load("autosave");
+    expect(reloaded.world.get("player.position")).toEqual(physics.getPosition(body));
+    expect(physics.getPosition(body).x).toBeGreaterThan(1);
   });
 });
 
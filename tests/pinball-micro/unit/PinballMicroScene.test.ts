@@ -1,6 +1,18 @@
 import { describe, expect, it, vi } from "vitest";
-import { createEngine, type KeyboardInput } from "react-three-eris";
 import {
+  createEngine,
+  createHeadlessRunner,
+  createMemoryStorage,
+  createRapierPhysics,
+  type BodyHandle,
+  type KeyboardInput
+} from "react-three-eris";
+import {
+  createPinballSaves,
+  declarePinballState,
+  PINBALL_LAYERS,
+  PINBALL_LEVEL,
+  PINBALL_STATE,
   registerPinballMicroSystems,
   type PinballGameState
 } from "../../../packages/pinball-micro/src/scene/PinballMicroScene";
@@ -14,13 +26,30 @@ function makeKeyboardInput(down: Set<string>): KeyboardInput {
   };
 }
 
+/** Stands in for `RapierPhysicsModule`; every body reports `position`. */
+function makePhysics(position = { x: 0, y: 0, z: 0 }) {
+  return {
+    kind: "rapier" as const,
+    ready: true,
+    step() {},
+    getPosition: vi.fn(() => position),
+    setPosition: vi.fn(),
+    setLinearVelocity: vi.fn(),
+    setAngularVelocity: vi.fn(),
+    setNextKinematicPosition: vi.fn(),
+    setNextKinematicRotation: vi.fn(),
+    applyImpulse: vi.fn(),
+    events: { contacts: [] as unknown[], forces: [], sensors: [] }
+  };
+}
+
 describe("pinball-micro systems", () => {
   it("preFrame writes intent booleans and edge events", async () => {
     const engine = createEngine({ fixedDt: 1, maxFrameDt: 10 });
     registerPinballMicroSystems(engine);
 
     const down = new Set<string>(["KeyZ", "Space"]);
-    engine.world.set("input.keyboard", makeKeyboardInput(down));
+    engine.world.input.add(makeKeyboardInput(down));
 
     await engine.init();
     engine.frame(0.016);
@@ -36,19 +65,42 @@ describe("pinball-micro systems", () => {
     expect(engine.world.get<boolean>("pinball.intent.plungerReleased")).toBe(true);
   });
 
-  it("fixed updates kinematic flipper pose", async () => {
+  it("declares pinball state strictly, so misspelled keys throw", () => {
+    const engine = createEngine();
+    registerPinballMicroSystems(engine);
+
+    expect(engine.world.get<boolean>("pinball.intent.left")).toBe(false);
+    expect(() => engine.world.get("pinball.intent.lef")).toThrow(/did you mean "pinball.intent.left"/);
+  });
+
+  it("edge events are seen by exactly one fixed tick", async () => {
     const engine = createEngine({ fixedDt: 0.1, maxFrameDt: 10 });
     registerPinballMicroSystems(engine);
 
-    engine.world.set("input.keyboard", makeKeyboardInput(new Set(["KeyZ"])));
+    const down = new Set<string>(["KeyD"]);
+    engine.world.input.add(makeKeyboardInput(down));
+
+    await engine.init();
+    // One frame, two fixed ticks: the debug toggle must flip once, not twice.
+    engine.frame(0.2);
+    expect(engine.world.get<boolean>("pinball.debug")).toBe(true);
+    expect(engine.world.get<boolean>("pinball.intent.debugPressed")).toBe(false);
+
+    // Still held: no new edge.
+    engine.frame(0.1);
+    expect(engine.world.get<boolean>("pinball.debug")).toBe(true);
+  });
+
+  it("fixed updates kinematic flipper pose", async () => {
+    const physics = makePhysics();
+    const engine = createEngine({ fixedDt: 0.1, maxFrameDt: 10, physics: physics as any });
+    registerPinballMicroSystems(engine);
+
+    engine.world.input.add(makeKeyboardInput(new Set(["KeyZ"])));
 
-    const rb = {
-      setNextKinematicTranslation: vi.fn(),
-      setNextKinematicRotation: vi.fn()
-    };
     engine.world.set("pinball.flipper.left", {
       side: "left",
-      rb,
+      body: 3,
       pivot: { x: 0, y: 0, z: 0 },
       yaw: -0.25,
       restYaw: -0.25,
@@ -56,66 +108,116 @@ describe("pinball-micro systems", () => {
     });
 
     await engine.init();
-    engine.frame(0.1); // one fixed tick
+    createHeadlessRunner(engine).runTicks(1);
 
-    expect(rb.setNextKinematicTranslation).toHaveBeenCalled();
-    expect(rb.setNextKinematicRotation).toHaveBeenCalled();
+    expect(physics.setNextKinematicPosition).toHaveBeenCalledWith(3, { x: 0, y: 0, z: 0 });
+    expect(physics.setNextKinematicRotation).toHaveBeenCalled();
 
     const lf = engine.world.get<any>("pinball.flipper.left");
     expect(lf?.yaw).toBeCloseTo(0.62, 6);
   });
 
   it("plunger release applies impulse when ball is in lane", async () => {
-    const engine = createEngine({ fixedDt: 0.1, maxFrameDt: 10 });
+    const physics = makePhysics({ x: 2.2, y: 0.3, z: 5.0 });
+    const engine = createEngine({ fixedDt: 0.1, maxFrameDt: 10, physics: physics as any });
     registerPinballMicroSystems(engine);
 
     const down = new Set<string>(["Space"]);
-    engine.world.set("input.keyboard", makeKeyboardInput(down));
+    engine.world.input.add(makeKeyboardInput(down));
 
-    const ball = {
-      translation: () => ({ x: 2.2, y: 0.3, z: 5.0 }),
-      applyImpulse: vi.fn(),
-      setTranslation: vi.fn(),
-      setLinvel: vi.fn(),
-      setAngvel: vi.fn()
-    };
-    engine.world.set("pinball.ball.rb", ball);
+    engine.world.set("pinball.ball.body", 0);
 
     await engine.init();
+    const runner = createHeadlessRunner(engine);
 
     // Charge for one fixed tick.
-    engine.frame(0.1);
+    runner.runTicks(1);
     const game1 = engine.world.get<PinballGameState>("pinball.game");
     expect(game1?.plungerCharge).toBeGreaterThan(0);
 
     // Release.
     down.delete("Space");
-    engine.frame(0.1);
-    expect(ball.applyImpulse).toHaveBeenCalled();
-    const impulse = (ball.applyImpulse as any).mock.calls[0][0];
+    runner.runTicks(1);
+    expect(physics.applyImpulse).toHaveBeenCalled();
+    const [body, impulse] = (physics.applyImpulse as any).mock.calls[0];
+    expect(body).toBe(0);
     expect(impulse.z).toBeLessThan(0);
   });
 
+  it("bumper contact events kick the ball away and score once per cooldown", async () => {
+    const physics = makePhysics({ x: 0, y: 0.2, z: -3.2 });
+    const engine = createEngine({ fixedDt: 0.1, maxFrameDt: 10, physics: physics as any });
+    registerPinballMicroSystems(engine);
+
+    engine.world.input.add(makeKeyboardInput(new Set()));
+
+    engine.world.set("pinball.ball.body", 0);
+    engine.world.set("pinball.game", { mode: "inPlay", score: 0, ballsRemaining: 3, plungerCharge: 0 });
+    engine.world.set("pinball.bumpers", [
+      { id: "b1", collider: 4, center: { x: -1, y: 0.25, z: -3.2 }, radius: 0.5, cooldownUntil: 0 }
+    ]);
+    physics.events.contacts = [
+      { type: "start", collider1: 4, collider2: 9, body1: null, body2: 0, entity1: "b1", entity2: null, force: null }
+    ];
+
+    await engine.init();
+    createHeadlessRunner(engine).runTicks(2);
+
+    // The second tick is within the cooldown.
+    expect(physics.applyImpulse).toHaveBeenCalledTimes(1);
+    const [body, impulse] = (physics.applyImpulse as any).mock.calls[0];
+    expect(body).toBe(0);
+    expect(impulse.x).toBeGreaterThan(0);
+    expect(engine.world.get<PinballGameState>("pinball.game")?.score).toBe(100);
+    expect(engine.world.get<number>("pinball.highScore")).toBe(100);
+  });
+
+  it("saves the high score and restores it after a reload", async () => {
+    const storage = createMemoryStorage();
+    const before = createEngine();
+    before.world.setKey(PINBALL_STATE.highScore, 2400);
+    await createPinballSaves(before.world, storage).save("progress");
+
+    const after = createEngine();
+    registerPinballMicroSystems(after);
+    expect(after.world.getKey(PINBALL_STATE.highScore)).toBe(0);
+    await createPinballSaves(after.world, storage).load("progress");
+    expect(after.world.getKey(PINBALL_STATE.highScore)).toBe(2400);
+  });
+
   it("drain decrements balls and triggers game over", async () => {
-    const engine = createEngine({ fixedDt: 0.1, maxFrameDt: 10 });
+    const physics = makePhysics({ x: 0, y: -3, z: 0 });
+    const engine = createEngine({ fixedDt: 0.1, maxFrameDt: 10, physics: physics as any });
     registerPinballMicroSystems(engine);
 
-    engine.world.set("input.keyboard", makeKeyboardInput(new Set()));
+    engine.world.input.add(makeKeyboardInput(new Set()));
 
-    const ball = {
-      translation: () => ({ x: 0, y: -3, z: 0 }),
-      setTranslation: vi.fn(),
-      setLinvel: vi.fn(),
-      setAngvel: vi.fn()
-    };
-    engine.world.set("pinball.ball.rb", ball);
+    engine.world.set("pinball.ball.body", 0);
     engine.world.set("pinball.game", { mode: "inPlay", score: 0, ballsRemaining: 1, plungerCharge: 0 });
 
     await engine.init();
-    engine.frame(0.1);
+    createHeadlessRunner(engine).runTicks(1);
 
     const game = engine.world.get<PinballGameState>("pinball.game");
     expect(game?.ballsRemaining).toBe(0);
     expect(game?.mode).toBe("gameOver");
   });
+
+  it("loads the table as a level and unloads it again", async () => {
+    const physics = createRapierPhysics({ layers: PINBALL_LAYERS });
+    const engine = createEngine({ fixedDt: 1 / 60, physics });
+    declarePinballState(engine.world);
+
+    expect(await engine.levels.load(PINBALL_LEVEL)).toBe(true);
+    const ball = engine.world.getKey(PINBALL_STATE.ballBody) as BodyHandle;
+    expect(physics.hasBody(ball)).toBe(true);
+    expect(engine.hasSystem("pinball.input")).toBe(true);
+    engine.frame(1 / 60);
+
+    expect(await engine.levels.unload()).toBe(true);
+    expect(physics.hasBody(ball)).toBe(false);
+    expect(engine.hasSystem("pinball.input")).toBe(false);
+    expect(engine.world.hasKey(PINBALL_STATE.game)).toBe(false);
+    expect(engine.world.isDeclared(PINBALL_STATE.game)).toBe(true);
+  });
 });
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  createEngine,
+  createRapierPhysics,
+  createReplayRecorder,
+  createScriptedInput,
+  parseReplay,
+  runReplay,
+  serializeReplay,
+  type BodyHandle,
+  type Engine,
+  type RapierPhysicsModule,
+  type ScriptedInputStep
+} from "react-three-eris";
+import {
+  buildPinballTable,
+  PINBALL_LAYERS,
+  registerPinballMicroSystems,
+  type PinballGameState
+} from "../../../packages/pinball-micro/src/scene/PinballMicroScene";
+
+const INTENT_KEYS = [
+  "pinball.intent.left",
+  "pinball.intent.right",
+  "pinball.intent.plungerHeld",
+  "pinball.intent.plungerReleased",
+  "pinball.intent.resetPressed",
+  "pinball.intent.debugPressed"
+];
+
+// Launch the ball, then flap both flippers for a while.
+const SCRIPT: ScriptedInputStep[] = [
+  { frame: 0, press: ["Space"] },
+  { frame: 50, release: ["Space"] },
+  { frame: 120, press: ["KeyZ"] },
+  { frame: 135, release: ["KeyZ"], press: ["Slash"] },
+  { frame: 150, release: ["Slash"] },
+  { frame: 200, press: ["KeyZ", "Slash"] },
+  { frame: 230, release: ["KeyZ", "Slash"] }
+];
+
+async function makePinball(): Promise<Engine> {
+  const engine = createEngine({ fixedDt: 1 / 60, physics: createRapierPhysics({ layers: PINBALL_LAYERS }) });
+  registerPinballMicroSystems(engine);
+  await engine.init();
+  expect(buildPinballTable(engine)).toBe(true);
+  return engine;
+}
+
+describe("pinball replay", () => {
+  it("reproduces a recorded session and pinpoints divergence", async () => {
+    const live = await makePinball();
+    live.world.input.add(createScriptedInput(SCRIPT));
+    const recorder = createReplayRecorder(live, { keys: INTENT_KEYS, checksumInterval: 30 });
+
+    // Uneven frame times: several ticks in some frames, none in others.
+    const frames = [1 / 60, 1 / 30, 1 / 120, 1 / 50];
+    for (let i = 0; i < 300; i += 1) live.frame(frames[i % frames.length]!);
+
+    const replay = parseReplay(serializeReplay(recorder.stop()));
+    const game = live.world.get<PinballGameState>("pinball.game")!;
+    expect(game.score).toBeGreaterThan(0);
+    expect(replay.endTick).toBe(live.world.tick);
+
+    const played = await makePinball();
+    const result = runReplay(played, replay);
+    expect(result.divergence).toBeNull();
+    expect(result.verified).toBe(replay.checksums.length);
+    expect(played.world.get("pinball.game")).toEqual(game);
+
+    const ballPosition = (engine: Engine) =>
+      (engine.world.physics as RapierPhysicsModule).getPosition(engine.world.get<BodyHandle>("pinball.ball.body")!);
+    expect(ballPosition(played)).toEqual(ballPosition(live));
+
+    // Tamper with the recording: launch 10 ticks late.
+    const release = replay.ticks.find((t) => t.set?.["pinball.intent.plungerReleased"] === true)!;
+    const tampered = structuredClone(replay);
+    for (const t of tampered.ticks) {
+      if (t.tick === release.tick) t.tick += 10;
+    }
+
+    const diverged = runReplay(await makePinball(), tampered);
+    expect(diverged.divergence).not.toBeNull();
+    expect(diverged.divergence!.tick).toBeGreaterThanOrEqual(release.tick);
+    expect(diverged.divergence!.tick).toBeLessThan(release.tick + 30);
+  });
+});
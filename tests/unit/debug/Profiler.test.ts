@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { computeTimingStats, FrameProfiler } from "../../../packages/eris/src/eris/debug/Profiler";
+
+/** A fake clock that each system advances by a known amount. */
+function fakeClock() {
+  let now = 0;
+  return {
+    clock: () => now,
+    advance: (ms: number) => void (now += ms)
+  };
+}
+
+describe("FrameProfiler", () => {
+  it("records per-system, per-phase and per-substep timings", async () => {
+    const c = fakeClock();
+    const profiler = new FrameProfiler({ clock: c.clock });
+    const engine = new Engine({
+      fixedDt: 0.1,
+      maxFrameDt: 1,
+      profiler,
+      physics: { step: () => c.advance(3) }
+    });
+
+    engine.registerSystems([
+      { name: "input", phase: "preFrame", run: () => c.advance(1) },
+      { name: "move", phase: "fixed", run: () => c.advance(2) },
+      { name: "render", phase: "renderApply", run: () => c.advance(4) }
+    ]);
+
+    await engine.init();
+    engine.frame(0.25); // two fixed ticks
+
+    const frame = profiler.latest()!;
+    expect(frame.subSteps).toBe(2);
+    expect(frame.duration).toBe(1 + 2 * (2 + 3) + 4);
+    expect(frame.fixedSteps.map((s) => [s.tick, s.duration, s.physics])).toEqual([
+      [0, 5, 3],
+      [1, 5, 3]
+    ]);
+    expect(frame.systems.filter((s) => s.name === "move").map((s) => s.subStep)).toEqual([0, 1]);
+
+    const stats = profiler.stats();
+    expect(stats.frames).toBe(1);
+    expect(stats.systems.move).toMatchObject({ phase: "fixed", avg: 4 });
+    expect(stats.phases.fixed?.avg).toBe(4);
+    expect(stats.phases.renderApply?.avg).toBe(4);
+    expect(stats.physicsStep.avg).toBe(3);
+    expect(stats.subSteps.max).toBe(2);
+  });
+
+  it("keeps a bounded ring buffer and tracks droppedTime", async () => {
+    const profiler = new FrameProfiler({ capacity: 3 });
+    const engine = new Engine({ fixedDt: 0.1, maxSubSteps: 1, maxFrameDt: 1, profiler });
+    await engine.init();
+
+    for (let i = 0; i < 5; i += 1) engine.frame(0.35);
+
+    const frames = profiler.frames();
+    expect(frames.map((f) => f.frame)).toEqual([2, 3, 4]);
+    expect(profiler.stats().droppedTime.frames).toBe(3);
+    expect(profiler.stats().droppedTime.total).toBeGreaterThan(0);
+  });
+
+  it("does not record when disabled or detached", async () => {
+    const profiler = new FrameProfiler();
+    const engine = new Engine({ profiler });
+    await engine.init();
+
+    profiler.enabled = false;
+    engine.frame(1 / 60);
+    expect(profiler.frames()).toHaveLength(0);
+
+    profiler.enabled = true;
+    engine.setProfiler(null);
+    engine.frame(1 / 60);
+    expect(profiler.frames()).toHaveLength(0);
+    expect(engine.profiler).toBeNull();
+  });
+
+  it("keeps recorded frames when detached or attached again", async () => {
+    const profiler = new FrameProfiler();
+    const engine = new Engine({ profiler });
+    await engine.init();
+
+    engine.frame(1 / 60);
+    engine.setProfiler(profiler);
+    engine.frame(1 / 60);
+    expect(profiler.frames()).toHaveLength(2);
+
+    engine.setProfiler(null);
+    expect(profiler.frames()).toHaveLength(2);
+  });
+
+  it("exports Chrome trace events", async () => {
+    const c = fakeClock();
+    const engine = new Engine({ fixedDt: 0.1, profiler: new FrameProfiler({ clock: c.clock }) });
+    engine.registerSystem({ name: "sys", phase: "update", run: () => c.advance(0.5) });
+
+    await engine.init();
+    engine.frame(0.1);
+
+    const trace = JSON.parse(engine.profiler!.exportChromeTrace());
+    const sys = trace.traceEvents.find((e: any) => e.name === "sys");
+    expect(sys).toMatchObject({ ph: "X", cat: "system", dur: 500, pid: 1, tid: 1 });
+    expect(trace.traceEvents.some((e: any) => e.cat === "fixed")).toBe(true);
+    expect(trace.traceEvents.some((e: any) => e.ph === "C")).toBe(true);
+  });
+
+  it("computes percentiles", () => {
+    const values = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(computeTimingStats(values)).toEqual({ count: 100, avg: 50.5, min: 1, max: 100, p50: 50, p95: 95, p99: 99 });
+    expect(computeTimingStats([]).count).toBe(0);
+  });
+});
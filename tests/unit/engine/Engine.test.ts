@@ -49,6 +49,19 @@ describe("Engine", () => {
     expect(ran).toBe(false);
   });
 
+  it("ignores resimulateTick() before init()", () => {
+    const physics = makePhysics();
+    const engine = new Engine({ physics });
+    const fixed = vi.fn();
+    engine.registerSystem({ name: "fixed.test", phase: "fixed", run: fixed });
+
+    engine.resimulateTick();
+
+    expect(fixed).not.toHaveBeenCalled();
+    expect(physics.step).not.toHaveBeenCalled();
+    expect(engine.world.tick).toBe(0);
+  });
+
   it("runs phases with fixed-step stepping and calls physics once per fixed tick", async () => {
     const physics = makePhysics();
     const net = makeNet();
@@ -113,6 +126,132 @@ describe("Engine", () => {
     expect(ran).toEqual(["a", "b", "c"]);
   });
 
+  it("unregisters systems by name, object or handle and calls lifecycle hooks", async () => {
+    const engine = new Engine({ fixedDt: 0.1 });
+    const calls: string[] = [];
+
+    const make = (name: string) => ({
+      name,
+      phase: "update" as const,
+      run: () => void calls.push(`run:${name}`),
+      onRegister: () => void calls.push(`register:${name}`),
+      onUnregister: () => void calls.push(`unregister:${name}`),
+      dispose: () => void calls.push(`dispose:${name}`)
+    });
+
+    const a = make("a");
+    const b = make("b");
+    const handle = engine.registerSystem(make("c"));
+    engine.registerSystems([a, b]);
+    expect(calls).toEqual(["register:c", "register:a", "register:b"]);
+
+    await engine.init();
+    calls.length = 0;
+
+    expect(engine.unregisterSystem("a")).toBe(true);
+    expect(engine.unregisterSystem(b)).toBe(true);
+    handle.unregister();
+    expect(handle.registered).toBe(false);
+    expect(calls).toEqual([
+      "unregister:a",
+      "dispose:a",
+      "unregister:b",
+      "dispose:b",
+      "unregister:c",
+      "dispose:c"
+    ]);
+
+    calls.length = 0;
+    engine.frame(0.016);
+    expect(calls).toEqual([]);
+
+    expect(engine.unregisterSystem("a")).toBe(false);
+    expect(engine.hasSystem("a")).toBe(false);
+
+    // Re-registering after removal (e.g. a React remount) is allowed.
+    expect(() => engine.registerSystem(make("a"))).not.toThrow();
+  });
+
+  it("rejects duplicate names across phases and ignores stale objects with the same name", () => {
+    const engine = new Engine();
+    const first = { name: "dup", phase: "update" as const, run() {} };
+    engine.registerSystem(first);
+
+    expect(() => engine.registerSystem({ name: "dup", phase: "late", run() {} })).toThrow(/already registered/);
+    expect(engine.unregisterSystem({ name: "dup", phase: "update", run() {} })).toBe(false);
+    expect(engine.getSystem("dup")).toBe(first);
+  });
+
+  it("skips disabled systems without changing their order", async () => {
+    const engine = new Engine({ fixedDt: 0.1 });
+    const ran: string[] = [];
+
+    engine.registerSystems([
+      { name: "a", phase: "update", run: () => ran.push("a") },
+      { name: "b", phase: "update", enabled: false, run: () => ran.push("b") },
+      { name: "c", phase: "update", run: () => ran.push("c") }
+    ]);
+
+    await engine.init();
+    engine.frame(0.016);
+    expect(ran).toEqual(["a", "c"]);
+
+    engine.setSystemEnabled("b", true);
+    engine.setSystemEnabled("c", false);
+    expect(engine.isSystemEnabled("c")).toBe(false);
+
+    ran.length = 0;
+    engine.frame(0.016);
+    expect(ran).toEqual(["a", "b"]);
+
+    expect(() => engine.setSystemEnabled("missing", true)).toThrow(/not registered/);
+  });
+
+  it("lets a system unregister itself (or others) while its phase is running", async () => {
+    const engine = new Engine({ fixedDt: 0.1 });
+    const ran: string[] = [];
+
+    engine.registerSystems([
+      {
+        name: "once",
+        phase: "update",
+        run() {
+          ran.push("once");
+          engine.unregisterSystem("once");
+          engine.unregisterSystem("victim");
+        }
+      },
+      { name: "other", phase: "update", run: () => ran.push("other") },
+      { name: "victim", phase: "update", run: () => ran.push("victim"), dispose: () => ran.push("dispose:victim") }
+    ]);
+
+    await engine.init();
+    engine.frame(0.016);
+    engine.frame(0.016);
+
+    // "victim" is later in the same phase: it is disposed and never runs afterwards.
+    expect(ran).toEqual(["once", "dispose:victim", "other", "other"]);
+  });
+
+  it("rolls back a partially registered batch when an entry throws", () => {
+    const engine = new Engine();
+    const disposed: string[] = [];
+    engine.registerSystem({ name: "x", phase: "update", run() {} });
+
+    expect(() =>
+      engine.registerSystems([
+        { name: "y", phase: "update", run() {}, dispose: () => disposed.push("y") },
+        { name: "z", phase: "late", run() {}, dispose: () => disposed.push("z") },
+        { name: "x", phase: "update", run() {} }
+      ])
+    ).toThrow(/already registered: x/);
+
+    expect(engine.hasSystem("y")).toBe(false);
+    expect(engine.hasSystem("z")).toBe(false);
+    expect(engine.hasSystem("x")).toBe(true);
+    expect(disposed).toEqual(["z", "y"]);
+  });
+
   it("clamps render alpha to [0..1] even when maxSubSteps is hit", async () => {
     const engine = new Engine({ fixedDt: 0.1, maxSubSteps: 2, maxFrameDt: 1 });
     let alpha: number | null = null;
@@ -156,4 +295,30 @@ describe("Engine", () => {
     expect(() => engine.frame(Number.NaN)).toThrow(/frame/i);
     expect(() => engine.frame(-0.01)).toThrow(/frame/i);
   });
+
+  it("notifies onFrame listeners after every frame, paused or stepped", async () => {
+    const engine = new Engine({ fixedDt: 0.1, maxFrameDt: 1 });
+    let ticksSeen = -1;
+    const off = engine.onFrame(() => {
+      ticksSeen = engine.world.tick;
+    });
+
+    engine.frame(0.1); // not ready: no frame
+    expect(ticksSeen).toBe(-1);
+
+    await engine.init();
+    engine.frame(0.25);
+    expect(ticksSeen).toBe(2);
+
+    engine.pause();
+    ticksSeen = -1;
+    engine.frame(0.1);
+    expect(ticksSeen).toBe(2);
+    engine.stepTicks(1);
+    expect(ticksSeen).toBe(3);
+
+    off();
+    engine.stepTicks(1);
+    expect(ticksSeen).toBe(3);
+  });
 });
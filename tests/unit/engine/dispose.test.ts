@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { createRapierPhysics } from "../../../packages/eris/src/eris/physics/RapierPhysicsModule";
+import { createClientNet } from "../../../packages/eris/src/eris/net/ClientNet";
+import { createServerNet } from "../../../packages/eris/src/eris/net/ServerNet";
+import { createLoopbackPair } from "../../../packages/eris/src/eris/net/transport";
+
+describe("Engine.dispose", () => {
+  it("tears down systems, net, physics and input, then rejects further use", async () => {
+    const calls: string[] = [];
+    const physics = { step: vi.fn(), dispose: vi.fn(() => calls.push("physics")) };
+    const net = {
+      pollIncoming: vi.fn(),
+      applyIncoming: vi.fn(),
+      collectOutgoing: vi.fn(),
+      flushOutgoing: vi.fn(),
+      dispose: vi.fn(() => calls.push("net"))
+    };
+    const engine = new Engine({ physics, net });
+    const device = { isDown: () => false, dispose: vi.fn(() => calls.push("input")) };
+    engine.world.input.add(device);
+
+    for (const [name, phase] of [["a", "fixed"], ["b", "update"], ["c", "update"]] as const) {
+      engine.registerSystem({
+        name,
+        phase,
+        run() {},
+        onUnregister: () => calls.push(`${name}.unregister`),
+        dispose: () => calls.push(`${name}.dispose`)
+      });
+    }
+
+    await engine.init();
+    engine.dispose();
+    engine.dispose();
+
+    expect(calls).toEqual([
+      "c.unregister",
+      "c.dispose",
+      "b.unregister",
+      "b.dispose",
+      "a.unregister",
+      "a.dispose",
+      "net",
+      "physics",
+      "input"
+    ]);
+    expect(engine.disposed).toBe(true);
+    expect(engine.ready).toBe(false);
+    expect(engine.world.input.list()).toEqual([]);
+
+    expect(() => engine.frame(1 / 60)).toThrow(/Engine.frame: engine is disposed/);
+    expect(() => engine.stepTicks(1)).toThrow(/disposed/);
+    expect(() => engine.registerSystem({ name: "d", phase: "update", run() {} })).toThrow(/disposed/);
+    await expect(engine.init()).rejects.toThrow(/disposed/);
+  });
+
+  it("frees the Rapier world and event queue", async () => {
+    const physics = createRapierPhysics();
+    const engine = new Engine({ physics });
+    await engine.init();
+    physics.createBody({ type: "dynamic" });
+
+    const freeWorld = vi.spyOn(physics.world as { free(): void }, "free");
+    const freeQueue = vi.spyOn((physics as any).queue as { free(): void }, "free");
+    engine.dispose();
+
+    expect(freeWorld).toHaveBeenCalledTimes(1);
+    expect(freeQueue).toHaveBeenCalledTimes(1);
+    expect(physics.ready).toBe(false);
+    expect(physics.world).toBeNull();
+    expect(() => physics.createBody({ type: "dynamic" })).toThrow(/not initialized/);
+  });
+
+  it("doesn't allocate a Rapier world when disposed during init", async () => {
+    const physics = createRapierPhysics();
+    const engine = new Engine({ physics });
+    const init = engine.init();
+    engine.dispose();
+    await init;
+
+    expect(engine.ready).toBe(false);
+    expect(physics.world).toBeNull();
+  });
+
+  it("does not leak Rapier worlds across many engines", async () => {
+    const worlds: { free(): void }[] = [];
+    for (let i = 0; i < 20; i += 1) {
+      const physics = createRapierPhysics();
+      const engine = new Engine({ physics });
+      await engine.init();
+      physics.createCollider({ shape: "ball", radius: 1 });
+      const world = physics.world as { free(): void };
+      worlds.push(world);
+      vi.spyOn(world, "free");
+      engine.dispose();
+    }
+    for (const w of worlds) expect(w.free).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes net transports", async () => {
+    const [serverSide, clientSide] = createLoopbackPair<any>();
+    const closeServerSide = vi.spyOn(serverSide, "close" as never);
+    const closeClientSide = vi.spyOn(clientSide, "close" as never);
+    const server = createServerNet({ replicate: ["x"] });
+    server.addClient("c1", serverSide);
+    const client = createClientNet({ transport: clientSide });
+
+    const serverEngine = new Engine({ net: server });
+    const clientEngine = new Engine({ net: client });
+    await serverEngine.init();
+    await clientEngine.init();
+
+    clientEngine.dispose();
+    expect(clientEngine.hasSystem("net.client.interpolate")).toBe(false);
+    expect(closeClientSide).toHaveBeenCalledTimes(1);
+
+    serverEngine.dispose();
+    expect(server.getClientIds()).toEqual([]);
+    expect(closeServerSide).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { orderSystems } from "../../../packages/eris/src/eris/engine/ordering";
+import type { System } from "../../../packages/eris/src/eris/engine/system";
+
+function sys(name: string, extra: Partial<System> = {}): System {
+  return { name, phase: "update", run() {}, ...extra };
+}
+
+const names = (systems: readonly System[]) => systems.map((s) => s.name);
+
+describe("orderSystems", () => {
+  it("falls back to order then name when there are no constraints", () => {
+    expect(names(orderSystems([sys("b"), sys("a"), sys("c", { order: -1 })]))).toEqual(["c", "a", "b"]);
+  });
+
+  it("honours before/after constraints over order", () => {
+    const ordered = orderSystems([
+      sys("render", { order: -10, after: ["camera"] }),
+      sys("camera", { after: ["input"] }),
+      sys("input", { order: 5 })
+    ]);
+    expect(names(ordered)).toEqual(["input", "camera", "render"]);
+  });
+
+  it("resolves group labels and ignores unknown targets", () => {
+    const ordered = orderSystems([
+      sys("late.sync", { after: ["physics"] }),
+      sys("z.body", { groups: ["physics"] }),
+      sys("a.body", { groups: ["physics"] }),
+      sys("early", { before: ["physics", "does.not.exist"] })
+    ]);
+    expect(names(ordered)).toEqual(["early", "a.body", "z.body", "late.sync"]);
+  });
+
+  it("breaks ties deterministically regardless of input order", () => {
+    const make = () => [sys("c", { after: ["a"] }), sys("b", { after: ["a"] }), sys("a"), sys("d")];
+    const forward = names(orderSystems(make()));
+    const reversed = names(orderSystems(make().reverse()));
+    expect(forward).toEqual(["a", "b", "c", "d"]);
+    expect(reversed).toEqual(forward);
+  });
+
+  it("throws with the cycle listed", () => {
+    expect(() =>
+      orderSystems([sys("a", { before: ["b"] }), sys("b", { before: ["c"] }), sys("c", { before: ["a"] }), sys("x")])
+    ).toThrow('System ordering cycle in phase "update": a -> b -> c -> a');
+  });
+});
+
+describe("Engine ordering constraints", () => {
+  it("rejects a registration that would create a cycle and keeps the previous order", async () => {
+    const engine = new Engine({ fixedDt: 0.1 });
+    const ran: string[] = [];
+
+    engine.registerSystems([
+      { name: "a", phase: "update", before: ["b"], run: () => ran.push("a") },
+      { name: "b", phase: "update", run: () => ran.push("b") }
+    ]);
+
+    expect(() =>
+      engine.registerSystem({ name: "c", phase: "update", after: ["b"], before: ["a"], run: () => ran.push("c") })
+    ).toThrow(/cycle.*a -> b -> c -> a/);
+    expect(engine.hasSystem("c")).toBe(false);
+
+    await engine.init();
+    engine.frame(0.016);
+    expect(ran).toEqual(["a", "b"]);
+  });
+});
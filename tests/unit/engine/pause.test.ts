@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import type { Phase } from "../../../packages/eris/src/eris/engine/phases";
+import type { SystemContext } from "../../../packages/eris/src/eris/engine/system";
+
+const PHASES: Phase[] = ["preFrame", "fixed", "postPhysicsFixed", "update", "late", "renderApply"];
+
+function track(engine: Engine) {
+  const runs: { phase: Phase; dt: number; ctx: SystemContext }[] = [];
+  for (const phase of PHASES) {
+    engine.registerSystem({
+      name: `track.${phase}`,
+      phase,
+      run(_world, dt, ctx) {
+        runs.push({ phase, dt, ctx: ctx! });
+      }
+    });
+  }
+  return {
+    runs,
+    phases: () => runs.map((r) => r.phase),
+    clear: () => void (runs.length = 0)
+  };
+}
+
+describe("Engine pause / step", () => {
+  it("paused frames only run late + renderApply and don't advance time", async () => {
+    const physics = { step: vi.fn() };
+    const net = { pollIncoming: vi.fn(), applyIncoming: vi.fn(), collectOutgoing: vi.fn(), flushOutgoing: vi.fn() };
+    const engine = new Engine({ fixedDt: 0.1, maxFrameDt: 1, physics, net });
+    const t = track(engine);
+
+    await engine.init();
+    engine.frame(0.15); // one tick, accumulator 0.05
+    t.clear();
+
+    engine.pause();
+    expect(engine.paused).toBe(true);
+    engine.frame(0.5);
+
+    expect(t.phases()).toEqual(["late", "renderApply"]);
+    expect(t.runs[0]!.ctx.paused).toBe(true);
+    expect(t.runs[0]!.dt).toBeCloseTo(0.5, 6); // real dt for presentation
+    expect(t.runs[1]!.ctx.alpha).toBeCloseTo(0.5, 6); // alpha held where it was
+
+    expect(engine.world.tick).toBe(1);
+    expect(engine.world.now).toBeCloseTo(0.15, 6);
+    expect(physics.step).toHaveBeenCalledTimes(1);
+    expect(net.pollIncoming).toHaveBeenCalledTimes(1);
+
+    engine.resume();
+    t.clear();
+    engine.frame(0.06); // resumes from the held accumulator (~0.05) -> one tick
+    expect(t.phases()).toEqual(PHASES);
+    expect(t.runs[0]!.ctx.paused).toBe(false);
+    expect(engine.world.tick).toBe(2);
+  });
+
+  it("stepTicks runs exactly N fixed ticks while paused", async () => {
+    const physics = { step: vi.fn() };
+    const engine = new Engine({ fixedDt: 0.1, maxSubSteps: 2, physics });
+    const t = track(engine);
+
+    await engine.init();
+    engine.pause();
+    engine.stepTicks(3); // maxSubSteps does not cap explicit steps
+
+    expect(t.phases()).toEqual([
+      "preFrame",
+      "fixed",
+      "postPhysicsFixed",
+      "fixed",
+      "postPhysicsFixed",
+      "fixed",
+      "postPhysicsFixed",
+      "update",
+      "late",
+      "renderApply"
+    ]);
+    expect(t.runs.every((r) => r.ctx.stepping && r.ctx.paused)).toBe(true);
+    expect(t.runs.filter((r) => r.phase === "fixed").map((r) => r.ctx.tick)).toEqual([0, 1, 2]);
+    expect(physics.step).toHaveBeenCalledTimes(3);
+    expect(engine.world.tick).toBe(3);
+    expect(engine.world.now).toBeCloseTo(0.3, 6);
+    expect(engine.paused).toBe(true);
+
+    expect(() => engine.stepTicks(0)).toThrow(/stepTicks/);
+    expect(() => engine.stepTicks(1.5)).toThrow(/stepTicks/);
+  });
+
+  it("stepFrame advances one accumulator-driven frame while paused", async () => {
+    const engine = new Engine({ fixedDt: 0.1, maxFrameDt: 1 });
+    const t = track(engine);
+
+    await engine.init();
+    engine.pause();
+    engine.stepFrame(0.25);
+
+    expect(t.runs.filter((r) => r.phase === "fixed")).toHaveLength(2);
+    expect(t.runs.find((r) => r.phase === "renderApply")!.ctx.alpha).toBeCloseTo(0.5, 6);
+    expect(engine.world.tick).toBe(2);
+
+    t.clear();
+    engine.frame(1);
+    expect(t.phases()).toEqual(["late", "renderApply"]);
+  });
+
+  it("step methods are no-ops before init()", () => {
+    const engine = new Engine();
+    const t = track(engine);
+
+    engine.stepTicks(1);
+    engine.stepFrame(1 / 60);
+    expect(t.runs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { createHeadlessRunner } from "../../../packages/eris/src/eris/headless/HeadlessRunner";
+
+describe("createHeadlessRunner", () => {
+  it("runTicks drives frame() synchronously until N ticks have run", async () => {
+    const engine = new Engine({ fixedDt: 1 / 60 });
+    const ticks: number[] = [];
+    engine.registerSystem({ name: "t", phase: "fixed", run: (w) => void ticks.push(w.tick) });
+
+    await engine.init();
+    const runner = createHeadlessRunner(engine);
+    runner.runTicks(120);
+
+    expect(engine.world.tick).toBe(120);
+    expect(runner.frames).toBe(120); // default hz = one tick per frame
+    expect(ticks[119]).toBe(119);
+  });
+
+  it("uses the configured hz for frame dt", async () => {
+    const engine = new Engine({ fixedDt: 0.1 });
+    await engine.init();
+
+    const runner = createHeadlessRunner(engine, { hz: 40 });
+    runner.runTicks(2);
+
+    expect(runner.frames).toBe(8);
+    expect(engine.world.now).toBeCloseTo(0.2, 6);
+  });
+
+  it("throws when the engine can't advance", async () => {
+    const engine = new Engine();
+    const runner = createHeadlessRunner(engine);
+    expect(() => runner.runTicks(1)).toThrow(/not initialized/);
+
+    await engine.init();
+    engine.pause();
+    expect(() => runner.runTicks(1)).toThrow(/paused/);
+    expect(() => runner.runFrames(0)).toThrow(/runFrames/);
+  });
+
+  it("stops runTicks when a system pauses the engine or zeroes timeScale mid-run", async () => {
+    const engine = new Engine({ fixedDt: 1 / 60 });
+    engine.registerSystem({
+      name: "halt",
+      phase: "fixed",
+      run: (w) => {
+        if (w.tick === 3) engine.pause();
+        if (w.tick === 8) engine.timeScale = 0;
+      }
+    });
+    await engine.init();
+    const runner = createHeadlessRunner(engine);
+
+    expect(() => runner.runTicks(10)).toThrow(/paused or timeScale is 0 at tick 4/);
+    engine.resume();
+    expect(() => runner.runTicks(10)).toThrow(/at tick 9/);
+  });
+
+  it("asFastAsPossible mode resolves waitForTick and can be stopped", async () => {
+    const engine = new Engine({ fixedDt: 1 / 60 });
+    const runner = createHeadlessRunner(engine, { mode: "asFastAsPossible", batchSize: 16 });
+
+    await runner.start();
+    expect(engine.ready).toBe(true);
+    expect(runner.running).toBe(true);
+
+    await runner.waitForTick(100);
+    expect(engine.world.tick).toBeGreaterThanOrEqual(100);
+
+    runner.stop();
+    runner.stop(); // idempotent
+    const frames = runner.frames;
+    await new Promise((r) => setTimeout(r, 10));
+    expect(runner.frames).toBe(frames);
+    expect(runner.running).toBe(false);
+  });
+
+  it("rejects pending waiters on stop() and when a system throws", async () => {
+    const engine = new Engine({ fixedDt: 1 / 60 });
+    const runner = createHeadlessRunner(engine, { mode: "asFastAsPossible" });
+    await runner.start();
+
+    const stopped = runner.waitForTick(1e9);
+    runner.stop();
+    await expect(stopped).rejects.toThrow(/stopped/);
+
+    engine.registerSystem({
+      name: "boom",
+      phase: "fixed",
+      run(world) {
+        if (world.tick === 200) throw new Error("boom");
+      }
+    });
+    await runner.start();
+    await expect(runner.waitForTick(1e9)).rejects.toThrow("boom");
+    expect(runner.running).toBe(false);
+  });
+
+  it("realtime mode feeds wall-clock deltas into frame()", async () => {
+    vi.useFakeTimers();
+    try {
+      let now = 0;
+      const engine = new Engine({ fixedDt: 0.01 });
+      const runner = createHeadlessRunner(engine, { hz: 100, clock: () => now });
+      const frame = vi.spyOn(engine, "frame");
+
+      await runner.start();
+      now = 25;
+      await vi.advanceTimersByTimeAsync(10);
+      expect(frame).toHaveBeenLastCalledWith(0.025);
+
+      runner.stop();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { createScriptedInput } from "../../../packages/eris/src/eris/input/scripted";
+import { createInputMap, INPUT_BINDINGS_VERSION } from "../../../packages/eris/src/eris/input/InputMap";
+
+function makeSource(down: Set<string>) {
+  return { isDown: (code: string) => down.has(code) };
+}
+
+function makeMap() {
+  return createInputMap({
+    actions: { jump: ["Space"], fire: ["KeyF", "Enter"] },
+    axes: { moveX: { negative: ["KeyA", "ArrowLeft"], positive: ["KeyD", "ArrowRight"] } }
+  });
+}
+
+describe("InputMap", () => {
+  it("maps any bound code to held actions and composite axes", () => {
+    const down = new Set<string>(["Enter", "ArrowRight"]);
+    const map = makeMap();
+    map.update(makeSource(down));
+
+    expect(map.held("fire")).toBe(true);
+    expect(map.held("jump")).toBe(false);
+    expect(map.axis("moveX")).toBe(1);
+
+    down.add("KeyA");
+    map.update(makeSource(down));
+    expect(map.axis("moveX")).toBe(0);
+
+    map.update(undefined);
+    expect(map.held("fire")).toBe(false);
+    expect(map.axis("moveX")).toBe(0);
+  });
+
+  it("latches pressed/released edges until endTick()", () => {
+    const down = new Set<string>();
+    const source = makeSource(down);
+    const map = makeMap();
+
+    down.add("Space");
+    map.update(source);
+    expect(map.pressed("jump")).toBe(true);
+
+    // A second frame without a fixed tick keeps the edge.
+    map.update(source);
+    expect(map.pressed("jump")).toBe(true);
+
+    map.endTick();
+    expect(map.pressed("jump")).toBe(false);
+    expect(map.held("jump")).toBe(true);
+
+    down.delete("Space");
+    map.update(source);
+    expect(map.released("jump")).toBe(true);
+    map.endTick();
+    expect(map.released("jump")).toBe(false);
+  });
+
+  it("systems() samples world.input every frame and clears edges after every fixed tick", async () => {
+    const engine = new Engine({ fixedDt: 0.1 });
+    const device = createScriptedInput();
+    engine.world.input.add(device);
+    const map = makeMap();
+    const seen: boolean[] = [];
+
+    engine.registerSystems([
+      ...map.systems(),
+      { name: "game.jump", phase: "fixed", run: () => seen.push(map.pressed("jump")) }
+    ]);
+    expect(engine.hasSystem("input.map.endTick")).toBe(true);
+    await engine.init();
+
+    device.press("Space");
+    engine.frame(0.05); // no tick yet: the edge waits
+    engine.frame(0.05);
+    engine.frame(0.1);
+
+    expect(seen).toEqual([true, false]);
+    expect(map.held("jump")).toBe(true);
+  });
+
+  it("keeps a tap that starts and ends between two ticks", () => {
+    const down = new Set<string>(["Space"]);
+    const map = makeMap();
+
+    map.update(makeSource(down));
+    down.clear();
+    map.update(makeSource(down));
+
+    expect(map.pressed("jump")).toBe(true);
+    expect(map.released("jump")).toBe(true);
+    expect(map.held("jump")).toBe(false);
+  });
+
+  it("rebinds at runtime and resets to the defaults", () => {
+    const map = makeMap();
+    map.rebindAction("jump", ["KeyJ"]);
+    map.rebindAxis("moveX", { negative: ["KeyQ"], positive: ["KeyE"] });
+
+    map.update(makeSource(new Set(["KeyJ", "KeyE"])));
+    expect(map.held("jump")).toBe(true);
+    expect(map.axis("moveX")).toBe(1);
+
+    map.resetBindings();
+    expect(map.getBindings().actions.jump).toEqual(["Space"]);
+    expect(() => map.rebindAction("nope" as "jump", [])).toThrow(/unknown action "nope"/);
+    expect(() => map.rebindAxis("nope" as "moveX", { negative: [], positive: [] })).toThrow(/unknown axis/);
+  });
+
+  it("round-trips bindings through JSON", () => {
+    const a = makeMap();
+    a.rebindAction("fire", ["Mouse0"]);
+    const json = a.serializeBindings();
+    expect(JSON.parse(json).version).toBe(INPUT_BINDINGS_VERSION);
+
+    const b = makeMap();
+    b.loadBindings(json);
+    expect(b.getBindings()).toEqual(a.getBindings());
+  });
+
+  it("ignores unknown entries and rejects malformed or unsupported bindings", () => {
+    const map = makeMap();
+    map.loadBindings(JSON.stringify({ version: INPUT_BINDINGS_VERSION, actions: { removed: ["KeyX"], jump: ["KeyK"] } }));
+    expect(map.getBindings().actions).toEqual({ jump: ["KeyK"], fire: ["KeyF", "Enter"] });
+
+    expect(() => map.loadBindings(JSON.stringify({ version: 99, actions: {} }))).toThrow(/version/);
+    expect(() =>
+      map.loadBindings(JSON.stringify({ version: INPUT_BINDINGS_VERSION, actions: { jump: "Space" } }))
+    ).toThrow(/action "jump"/);
+  });
+});
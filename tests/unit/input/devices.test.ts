@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { applyRadialDeadzone, InputDevices } from "../../../packages/eris/src/eris/input/device";
+import { createScriptedInput } from "../../../packages/eris/src/eris/input/scripted";
+import { createInputMap } from "../../../packages/eris/src/eris/input/InputMap";
+
+describe("InputDevices", () => {
+  it("combines devices: any down, strongest value", () => {
+    const a = createScriptedInput();
+    const b = createScriptedInput();
+    const devices = new InputDevices();
+    devices.add(a);
+    const detachB = devices.add(b);
+
+    a.press("KeyW");
+    b.setValue("GamepadLeftStickX", -0.6);
+    a.setValue("GamepadLeftStickX", 0.2);
+
+    expect(devices.isDown("KeyW")).toBe(true);
+    expect(devices.value("KeyW")).toBe(1);
+    expect(devices.value("GamepadLeftStickX")).toBe(-0.6);
+
+    detachB();
+    expect(devices.value("GamepadLeftStickX")).toBe(0.2);
+    expect(devices.list()).toEqual([a]);
+  });
+
+  it("falls back to isDown for digital-only devices", () => {
+    const devices = new InputDevices();
+    devices.add({ isDown: (code) => code === "Space", dispose() {} });
+    expect(devices.value("Space")).toBe(1);
+  });
+
+  it("dispose() disposes and detaches every device", () => {
+    const device = { isDown: () => false, dispose: vi.fn() };
+    const devices = new InputDevices();
+    devices.add(device);
+    devices.dispose();
+
+    expect(device.dispose).toHaveBeenCalledTimes(1);
+    expect(devices.list()).toEqual([]);
+  });
+
+  it("is polled by the Engine once per frame, before preFrame", async () => {
+    const engine = new Engine({ fixedDt: 1 / 60 });
+    const device = createScriptedInput([{ frame: 0, press: ["Space"] }, { frame: 2, release: ["Space"] }]);
+    engine.world.input.add(device);
+
+    const seen: boolean[] = [];
+    engine.registerSystem({
+      name: "probe",
+      phase: "preFrame",
+      run: (world) => void seen.push(world.input.isDown("Space"))
+    });
+
+    await engine.init();
+    for (let i = 0; i < 3; i += 1) engine.frame(1 / 60);
+
+    expect(seen).toEqual([true, true, false]);
+    expect(device.frame).toBe(3);
+  });
+});
+
+describe("applyRadialDeadzone", () => {
+  it("zeroes small input and rescales the rest", () => {
+    expect(applyRadialDeadzone(0.1, 0.05, 0.2)).toEqual({ x: 0, y: 0 });
+    expect(applyRadialDeadzone(1, 0, 0.2).x).toBeCloseTo(1, 6);
+    expect(applyRadialDeadzone(0.6, 0, 0.2).x).toBeCloseTo(0.5, 6);
+  });
+});
+
+describe("InputMap with analog devices", () => {
+  it("uses the strongest bound value for axes", () => {
+    const device = createScriptedInput();
+    const map = createInputMap({
+      actions: {},
+      axes: { moveX: { negative: ["KeyA", "StickLeft"], positive: ["KeyD", "StickRight"] } }
+    });
+
+    device.setValue("StickRight", 0.4);
+    map.update(device);
+    expect(map.axis("moveX")).toBeCloseTo(0.4, 6);
+
+    device.press("KeyD");
+    map.update(device);
+    expect(map.axis("moveX")).toBe(1);
+  });
+});
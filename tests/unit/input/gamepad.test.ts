@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createGamepadInput, type GamepadLike } from "../../../packages/eris/src/eris/input/gamepad";
+
+function makePad(pressed: number[], axes: number[]): GamepadLike {
+  return {
+    connected: true,
+    buttons: Array.from({ length: 17 }, (_, i) => ({ pressed: pressed.includes(i), value: pressed.includes(i) ? 1 : 0 })),
+    axes
+  };
+}
+
+describe("createGamepadInput", () => {
+  it("samples buttons and sticks on poll()", () => {
+    let pad: GamepadLike | null = makePad([0, 7], [0.9, 0, 0, -0.05]);
+    const input = createGamepadInput({ deadzone: 0.1, getGamepads: () => [pad] });
+
+    expect(input.isDown("GamepadA")).toBe(false); // nothing until polled
+    input.poll();
+
+    expect(input.connected).toBe(true);
+    expect(input.isDown("GamepadA")).toBe(true);
+    expect(input.isDown("GamepadRT")).toBe(true);
+    expect(input.isDown("GamepadB")).toBe(false);
+
+    expect(input.value("GamepadLeftStickX")).toBeCloseTo((0.9 - 0.1) / 0.9, 6);
+    expect(input.value("GamepadLeftStickRight")).toBeCloseTo((0.9 - 0.1) / 0.9, 6);
+    expect(input.value("GamepadLeftStickLeft")).toBe(0);
+    expect(input.isDown("GamepadLeftStickRight")).toBe(true);
+
+    // Inside the deadzone.
+    expect(input.value("GamepadRightStickY")).toBe(0);
+
+    pad = null;
+    input.poll();
+    expect(input.connected).toBe(false);
+    expect(input.isDown("GamepadA")).toBe(false);
+  });
+
+  it("reads the configured pad index", () => {
+    const input = createGamepadInput({ index: 1, getGamepads: () => [makePad([], [0, 0]), makePad([1], [0, 0])] });
+    input.poll();
+    expect(input.isDown("GamepadB")).toBe(true);
+  });
+
+  it("validates the deadzone", () => {
+    expect(() => createGamepadInput({ deadzone: 1 })).toThrow(/deadzone/);
+  });
+});
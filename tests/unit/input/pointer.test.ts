@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { createPointerInput } from "../../../packages/eris/src/eris/input/pointer";
+import { createTouchInput } from "../../../packages/eris/src/eris/input/touch";
+
+function pointerEvent(type: string, props: Record<string, unknown>): Event {
+  return Object.assign(new Event(type, { bubbles: true }), props);
+}
+
+describe("createPointerInput", () => {
+  it("tracks buttons, position and per-frame deltas", () => {
+    const el = document.createElement("div");
+    document.body.appendChild(el);
+    const pointer = createPointerInput(el);
+
+    el.dispatchEvent(pointerEvent("pointerdown", { button: 0 }));
+    expect(pointer.isDown("Mouse0")).toBe(true);
+    expect(pointer.isDown("Mouse2")).toBe(false);
+
+    window.dispatchEvent(pointerEvent("pointermove", { clientX: 10, clientY: 20, movementX: 3, movementY: -1 }));
+    window.dispatchEvent(pointerEvent("pointermove", { clientX: 12, clientY: 21, movementX: 2, movementY: 1 }));
+    expect(pointer.value("PointerDeltaX")).toBe(0); // latched on poll
+
+    pointer.poll();
+    expect(pointer.value("PointerX")).toBe(12);
+    expect(pointer.value("PointerDeltaX")).toBe(5);
+    expect(pointer.value("PointerDeltaY")).toBe(0);
+
+    pointer.poll();
+    expect(pointer.value("PointerDeltaX")).toBe(0);
+
+    window.dispatchEvent(pointerEvent("pointerup", { button: 0 }));
+    expect(pointer.isDown("Mouse0")).toBe(false);
+
+    pointer.dispose();
+    el.dispatchEvent(pointerEvent("pointerdown", { button: 0 }));
+    expect(pointer.isDown("Mouse0")).toBe(false);
+    el.remove();
+  });
+});
+
+describe("createTouchInput", () => {
+  const rect = () => ({ left: 0, top: 0, width: 400, height: 200 });
+
+  it("drives a floating virtual stick and buttons per touch", () => {
+    const el = document.createElement("div");
+    const touch = createTouchInput(el, {
+      stick: { zone: { x: 0, y: 0, width: 0.5, height: 1 }, radius: 50 },
+      buttons: { TouchJump: { x: 0.75, y: 0.5, width: 0.25, height: 0.5 } },
+      getRect: rect
+    });
+
+    el.dispatchEvent(pointerEvent("pointerdown", { pointerId: 1, pointerType: "touch", clientX: 100, clientY: 100 }));
+    el.dispatchEvent(pointerEvent("pointermove", { pointerId: 1, pointerType: "touch", clientX: 125, clientY: 100 }));
+    expect(touch.stick.active).toBe(true);
+    expect(touch.value("TouchStickX")).toBeCloseTo(0.5, 6);
+    expect(touch.value("TouchStickRight")).toBeCloseTo(0.5, 6);
+    expect(touch.isDown("TouchStickRight")).toBe(false);
+
+    // Beyond the radius the stick clamps to full deflection.
+    el.dispatchEvent(pointerEvent("pointermove", { pointerId: 1, pointerType: "touch", clientX: 100, clientY: 300 }));
+    expect(touch.value("TouchStickY")).toBeCloseTo(1, 6);
+    expect(touch.isDown("TouchStickDown")).toBe(true);
+
+    el.dispatchEvent(pointerEvent("pointerdown", { pointerId: 2, pointerType: "touch", clientX: 350, clientY: 150 }));
+    expect(touch.isDown("TouchJump")).toBe(true);
+
+    el.dispatchEvent(pointerEvent("pointerup", { pointerId: 1, pointerType: "touch" }));
+    expect(touch.stick.active).toBe(false);
+    expect(touch.value("TouchStickY")).toBe(0);
+    expect(touch.isDown("TouchJump")).toBe(true);
+
+    el.dispatchEvent(pointerEvent("pointercancel", { pointerId: 2, pointerType: "touch" }));
+    expect(touch.isDown("TouchJump")).toBe(false);
+    touch.dispose();
+  });
+
+  it("ignores mouse pointers by default", () => {
+    const el = document.createElement("div");
+    const touch = createTouchInput(el, { buttons: { TouchFire: { x: 0, y: 0, width: 1, height: 1 } }, getRect: rect });
+    el.dispatchEvent(pointerEvent("pointerdown", { pointerId: 1, pointerType: "mouse", clientX: 10, clientY: 10 }));
+    expect(touch.isDown("TouchFire")).toBe(false);
+    touch.dispose();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { createScriptedInput } from "../../../packages/eris/src/eris/input/scripted";
+
+describe("createScriptedInput", () => {
+  it("applies script steps on the matching poll", () => {
+    const device = createScriptedInput([
+      { frame: 1, press: ["KeyA"], set: { GamepadLeftStickX: 0.5 } },
+      { frame: 3, release: ["KeyA", "GamepadLeftStickX"] }
+    ]);
+
+    device.poll(); // frame 0
+    expect(device.isDown("KeyA")).toBe(false);
+
+    device.poll(); // frame 1
+    expect(device.isDown("KeyA")).toBe(true);
+    expect(device.value("GamepadLeftStickX")).toBe(0.5);
+    expect(device.isDown("GamepadLeftStickX")).toBe(true);
+
+    device.poll(); // frame 2
+    device.poll(); // frame 3
+    expect(device.isDown("KeyA")).toBe(false);
+    expect(device.value("GamepadLeftStickX")).toBe(0);
+    expect(device.frame).toBe(4);
+  });
+
+  it("can be driven imperatively", () => {
+    const device = createScriptedInput();
+    device.press("Space", "KeyE");
+    expect(device.value("Space")).toBe(1);
+
+    device.release("Space");
+    expect(device.isDown("Space")).toBe(false);
+    expect(device.isDown("KeyE")).toBe(true);
+
+    device.clear();
+    expect(device.isDown("KeyE")).toBe(false);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { LEVEL_STATUS, type Level } from "../../../packages/eris/src/eris/level/LevelManager";
+import { createRapierPhysics, type RapierPhysicsModule } from "../../../packages/eris/src/eris/physics/RapierPhysicsModule";
+import type { BodyHandle, ColliderHandle } from "../../../packages/eris/src/eris/physics/types";
+import { createStateKey } from "../../../packages/eris/src/eris/world/World";
+
+const SCORE = createStateKey("arena.score", { default: 0 });
+
+function arena(created: { bodies: BodyHandle[]; colliders: ColliderHandle[] }): Level {
+  return {
+    name: "arena",
+    state: [SCORE],
+    systems: () => [{ name: "arena.tick", phase: "update", run() {} }],
+    async load(ctx) {
+      created.colliders.push(ctx.createCollider({ shape: "box", halfExtents: { x: 5, y: 0.1, z: 5 } }));
+      ctx.progress(0.5);
+      await Promise.resolve();
+      const body = ctx.createBody({ type: "dynamic", position: { x: 0, y: 1, z: 0 } });
+      ctx.createCollider({ shape: "ball", radius: 0.5 }, body);
+      created.bodies.push(body);
+      ctx.set("arena.spawn", { x: 0, y: 1, z: 0 });
+      ctx.world.setKey(SCORE, 10);
+    }
+  };
+}
+
+async function makeEngine(): Promise<{ engine: Engine; physics: RapierPhysicsModule }> {
+  const physics = createRapierPhysics();
+  const engine = new Engine({ physics });
+  await engine.init();
+  return { engine, physics };
+}
+
+describe("LevelManager", () => {
+  it("loads a level and unload removes exactly what it added", async () => {
+    const { engine, physics } = await makeEngine();
+    const outside = physics.createBody({ type: "fixed" });
+    engine.world.set("app.settings", { volume: 1 });
+    engine.registerSystem({ name: "app.system", phase: "update", run() {} });
+
+    const created = { bodies: [] as BodyHandle[], colliders: [] as ColliderHandle[] };
+    const progress: number[] = [];
+    const off = engine.world.subscribe(LEVEL_STATUS, (s) => progress.push(s.progress));
+
+    expect(await engine.levels.load(arena(created))).toBe(true);
+    expect(engine.levels.current).toBe("arena");
+    expect(engine.levels.status).toMatchObject({ phase: "ready", level: "arena", progress: 1, cover: 0 });
+    expect(engine.hasSystem("arena.tick")).toBe(true);
+    expect(physics.hasBody(created.bodies[0]!)).toBe(true);
+    expect(engine.world.getKey(SCORE)).toBe(10);
+    expect(engine.world.isDeclared("arena.score")).toBe(true);
+
+    engine.frame(1 / 60);
+    off();
+    // Change notifications are batched per frame: only the final status is seen.
+    expect(progress).toEqual([1]);
+
+    expect(await engine.levels.unload()).toBe(true);
+    expect(engine.levels.current).toBe(null);
+    expect(engine.levels.status.phase).toBe("idle");
+    expect(engine.hasSystem("arena.tick")).toBe(false);
+    expect(physics.hasBody(created.bodies[0]!)).toBe(false);
+    expect(physics.hasCollider(created.colliders[0]!)).toBe(false);
+    expect(engine.world.has("arena.spawn")).toBe(false);
+    expect(engine.world.getKey(SCORE)).toBe(0);
+
+    expect(physics.hasBody(outside)).toBe(true);
+    expect(engine.world.get("app.settings")).toEqual({ volume: 1 });
+    expect(engine.hasSystem("app.system")).toBe(true);
+  });
+
+  it("reports loading progress while a level loads", async () => {
+    const { engine } = await makeEngine();
+    let finish!: () => void;
+    const seen: number[] = [];
+
+    const loading = engine.levels.load({
+      name: "slow",
+      async load(ctx) {
+        ctx.progress(0.25);
+        seen.push(engine.levels.status.progress);
+        await new Promise<void>((resolve) => (finish = resolve));
+        ctx.progress(2);
+        seen.push(engine.levels.status.progress);
+      }
+    });
+
+    await new Promise((r) => setTimeout(r, 0));
+    expect(engine.levels.status.phase).toBe("loading");
+    finish();
+    expect(await loading).toBe(true);
+    expect(seen).toEqual([0.25, 1]);
+  });
+
+  it("runs fade transitions over frames and keeps fading while paused", async () => {
+    const { engine } = await makeEngine();
+    await engine.levels.load({ name: "a" });
+
+    const loading = engine.levels.load({ name: "b" }, { fadeOut: 0.1, fadeIn: 0.1 });
+    expect(engine.levels.status).toMatchObject({ phase: "fadingOut", cover: 0 });
+    expect(engine.levels.current).toBe("a");
+
+    engine.frame(0.05);
+    expect(engine.levels.status.cover).toBeCloseTo(0.5);
+    engine.pause();
+    engine.frame(0.05);
+    await new Promise((r) => setTimeout(r, 0));
+
+    // Fully covered: "a" is gone, "b" is loaded and fading in.
+    expect(engine.levels.current).toBe("b");
+    expect(engine.levels.status).toMatchObject({ phase: "fadingIn", cover: 1 });
+    expect(engine.hasSystem("eris.levels.transition")).toBe(true);
+
+    engine.frame(0.05);
+    expect(engine.levels.status.cover).toBeCloseTo(0.5);
+    engine.frame(0.05);
+    expect(await loading).toBe(true);
+    expect(engine.levels.status).toMatchObject({ phase: "ready", cover: 0 });
+    expect(engine.hasSystem("eris.levels.transition")).toBe(false);
+  });
+
+  it("tears down a superseded load without leaving content behind", async () => {
+    const { engine, physics } = await makeEngine();
+    let finish!: () => void;
+    let slowBody: BodyHandle | undefined;
+
+    const first = engine.levels.load({
+      name: "slow",
+      systems: () => [{ name: "slow.tick", phase: "update", run() {} }],
+      async load(ctx) {
+        slowBody = ctx.createBody({ type: "fixed" });
+        await new Promise<void>((resolve) => (finish = resolve));
+        expect(ctx.cancelled).toBe(true);
+      }
+    });
+    await new Promise((r) => setTimeout(r, 0));
+
+    const second = engine.levels.load({ name: "fast" });
+    finish();
+
+    expect(await first).toBe(false);
+    expect(await second).toBe(true);
+    expect(engine.levels.current).toBe("fast");
+    expect(engine.hasSystem("slow.tick")).toBe(false);
+    expect(physics.hasBody(slowBody!)).toBe(false);
+  });
+
+  it("rejects with phase error and cleans up when loading throws", async () => {
+    const { engine, physics } = await makeEngine();
+    let body: BodyHandle | undefined;
+
+    const failing = engine.levels.load({
+      name: "broken",
+      systems: () => [{ name: "broken.tick", phase: "update", run() {} }],
+      load(ctx) {
+        body = ctx.createBody({ type: "fixed" });
+        ctx.set("broken.flag", true);
+        throw new Error("missing asset");
+      }
+    });
+
+    await expect(failing).rejects.toThrow(/missing asset/);
+    expect(engine.levels.status).toMatchObject({ phase: "error", level: "broken", error: "missing asset" });
+    expect(engine.levels.current).toBe(null);
+    expect(engine.hasSystem("broken.tick")).toBe(false);
+    expect(physics.hasBody(body!)).toBe(false);
+    expect(engine.world.has("broken.flag")).toBe(false);
+  });
+
+  it("rejects with phase error when the engine fails to init or the level's systems conflict", async () => {
+    const broken = new Engine({ physics: { init: () => Promise.reject(new Error("wasm failed")), step() {} } });
+    await expect(broken.levels.load({ name: "never" })).rejects.toThrow(/wasm failed/);
+    expect(broken.levels.status).toMatchObject({ phase: "error", level: "never", error: "wasm failed" });
+
+    const { engine, physics } = await makeEngine();
+    engine.registerSystem({ name: "shared.tick", phase: "update", run() {} });
+    let body: BodyHandle | undefined;
+
+    const conflicting = engine.levels.load({
+      name: "clash",
+      state: [SCORE],
+      systems: () => [
+        { name: "clash.tick", phase: "update", run() {} },
+        { name: "shared.tick", phase: "update", run() {} }
+      ],
+      load(ctx) {
+        body = ctx.createBody({ type: "fixed" });
+        ctx.set("clash.flag", true);
+      }
+    });
+
+    await expect(conflicting).rejects.toThrow(/shared\.tick/);
+    expect(engine.levels.status).toMatchObject({ phase: "error", level: "clash" });
+    expect(engine.levels.current).toBe(null);
+    expect(engine.hasSystem("clash.tick")).toBe(false);
+    expect(engine.hasSystem("shared.tick")).toBe(true);
+    expect(physics.hasBody(body!)).toBe(false);
+    expect(engine.world.has("clash.flag")).toBe(false);
+    expect(engine.world.isDeclared(SCORE)).toBe(false);
+  });
+
+  it("restores keys that existed before the load and drops only the level's declarations", async () => {
+    const { engine } = await makeEngine();
+    const { world } = engine;
+    const CACHE = createStateKey<object>("arena.cache", { transient: true });
+    const SETTINGS = createStateKey("app.volume", { default: 1 });
+    world.declare([SETTINGS]);
+    world.set("arena.score", 3);
+    world.set("arena.spawn", "old");
+
+    await engine.levels.load({
+      name: "arena",
+      state: [SCORE, CACHE, SETTINGS],
+      load(ctx) {
+        ctx.set("arena.spawn", "new");
+        ctx.set(SETTINGS, 0.5);
+        ctx.world.setKey(SCORE, 10);
+        ctx.world.setKey(CACHE, {});
+      }
+    });
+    expect(world.isTransient(CACHE)).toBe(true);
+
+    await engine.levels.unload();
+    expect(world.get("arena.score")).toBe(3);
+    expect(world.get("arena.spawn")).toBe("old");
+    expect(world.getKey(SETTINGS)).toBe(1);
+    expect(world.has("app.volume")).toBe(false);
+    expect(world.has("arena.cache")).toBe(false);
+    expect(world.isDeclared(SCORE)).toBe(false);
+    expect(world.isDeclared(CACHE)).toBe(false);
+    expect(world.isTransient(CACHE)).toBe(false);
+    expect(world.isDeclared(SETTINGS)).toBe(true);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import {
+  createLoopbackPair,
+  type LoopbackOptions,
+  type NetTransport
+} from "../../../packages/eris/src/eris/net/transport";
+import {
+  RollbackNet,
+  type RollbackInputMessage
+} from "../../../packages/eris/src/eris/net/RollbackNet";
+
+type Input = { dx: number };
+type Positions = Record<string, number>;
+
+const players = ["a", "b"] as const;
+
+const SCRIPT_TICKS = 120;
+
+// Deterministic per-player input script; changes often enough that predictions go wrong,
+// then settles so the tail end can be predicted and both peers end up in the same state.
+function scriptedInput(player: string, tick: number): Input {
+  if (tick >= SCRIPT_TICKS) return { dx: 0 };
+  const period = player === "a" ? 7 : 11;
+  return { dx: Math.floor(tick / period) % 2 === 0 ? 1 : -1 };
+}
+
+/**
+ * With `viaIntent`, a `preFrame` system writes the local input to an "intent" key and
+ * `sampleInput` reads it back, like the README example.
+ */
+function makePeer(localPlayer: string, transport: NetTransport<RollbackInputMessage<Input>>, viaIntent = false) {
+  const net = new RollbackNet<Input>({
+    localPlayer,
+    players,
+    transport,
+    defaultInput: { dx: 0 },
+    sampleInput: (world, tick) => (viaIntent ? { ...world.get<Input>("intent")! } : scriptedInput(localPlayer, tick)),
+    applyInputs: (world, inputs) => {
+      const vel: Positions = {};
+      for (const [p, input] of inputs) vel[p] = input.dx;
+      world.set("vel", vel);
+    }
+  });
+
+  const engine = new Engine({ fixedDt: 1 / 60, net });
+  if (viaIntent) {
+    engine.registerSystem({
+      name: "intent",
+      phase: "preFrame",
+      run: (world) => world.set("intent", scriptedInput(localPlayer, world.tick))
+    });
+  }
+  engine.world.set<Positions>("pos", { a: 0, b: 0 });
+  engine.world.set<Positions>("trail", { a: 0, b: 0 });
+  engine.registerSystem({
+    name: "move",
+    phase: "fixed",
+    run: (world) => {
+      const pos = world.get<Positions>("pos")!;
+      const vel = world.get<Positions>("vel")!;
+      const trail = world.get<Positions>("trail")!;
+      for (const p of players) {
+        pos[p] = pos[p]! + vel[p]!;
+        // Order-sensitive accumulator: any wrong input in history changes it.
+        trail[p] = (trail[p]! * 31 + pos[p]! + 1000) % 1_000_003;
+      }
+    }
+  });
+
+  return { engine, net };
+}
+
+function referenceState(ticks: number) {
+  const pos: Positions = { a: 0, b: 0 };
+  const trail: Positions = { a: 0, b: 0 };
+  for (let t = 0; t < ticks; t += 1) {
+    for (const p of players) {
+      pos[p] = pos[p]! + scriptedInput(p, t).dx;
+      trail[p] = (trail[p]! * 31 + pos[p]! + 1000) % 1_000_003;
+    }
+  }
+  return { pos, trail };
+}
+
+async function runPair(opts: LoopbackOptions, viaIntent = false) {
+  const [ta, tb] = createLoopbackPair<RollbackInputMessage<Input>>(opts);
+  const a = makePeer("a", ta, viaIntent);
+  const b = makePeer("b", tb, viaIntent);
+  await a.engine.init();
+  await b.engine.init();
+
+  // Run past the end of the script so every late input has arrived and been corrected.
+  for (let i = 0; i < SCRIPT_TICKS + 30; i += 1) {
+    a.engine.frame(1 / 60);
+    b.engine.frame(1 / 60);
+  }
+  return { a, b };
+}
+
+describe("RollbackNet", () => {
+  it("rejects a localPlayer that is not in players", () => {
+    const [t] = createLoopbackPair<RollbackInputMessage<Input>>();
+    expect(
+      () =>
+        new RollbackNet<Input>({
+          localPlayer: "c",
+          players,
+          transport: t,
+          defaultInput: { dx: 0 },
+          sampleInput: () => ({ dx: 0 }),
+          applyInputs: () => {}
+        })
+    ).toThrow(/localPlayer "c"/);
+  });
+
+  it("registers its input system ahead of gameplay systems", () => {
+    const [t] = createLoopbackPair<RollbackInputMessage<Input>>();
+    const { engine } = makePeer("a", t);
+    expect(engine.getSystems("fixed").map((s) => s.name)).toEqual(["net.rollback.inputs", "move"]);
+  });
+
+  it("converges both peers to the same state as a local simulation under latency and jitter", async () => {
+    const { a, b } = await runPair({ latency: 0.05, jitter: 0.03, seed: 11 });
+    const expected = referenceState(a.engine.world.tick);
+
+    expect(b.engine.world.tick).toBe(a.engine.world.tick);
+    expect(a.engine.world.get("pos")).toEqual(expected.pos);
+    expect(a.engine.world.get("trail")).toEqual(expected.trail);
+    expect(b.engine.world.get("pos")).toEqual(expected.pos);
+    expect(b.engine.world.get("trail")).toEqual(expected.trail);
+
+    expect(a.net.confirmedTick).toBeGreaterThan(SCRIPT_TICKS);
+    expect(a.net.stats.rollbacks).toBeGreaterThan(0);
+    expect(b.net.stats.rollbacks).toBeGreaterThan(0);
+    expect(a.net.stats.maxRollbackDepth).toBeGreaterThanOrEqual(3);
+    expect(a.net.stats.predictedTicks).toBeGreaterThan(0);
+    expect(a.net.stats.missedRollbacks).toBe(0);
+  });
+
+  it("samples intent written in preFrame before a rollback restores it", async () => {
+    const { a, b } = await runPair({ latency: 0.05, jitter: 0.03, seed: 11 }, true);
+    const expected = referenceState(a.engine.world.tick);
+
+    expect(a.net.stats.rollbacks).toBeGreaterThan(0);
+    expect(a.engine.world.get("trail")).toEqual(expected.trail);
+    expect(b.engine.world.get("trail")).toEqual(expected.trail);
+  });
+
+  it("survives packet loss thanks to redundant input messages", async () => {
+    const { a, b } = await runPair({ latency: 0.03, jitter: 0.02, loss: 0.3, seed: 5 });
+    const expected = referenceState(a.engine.world.tick);
+
+    expect(a.engine.world.get("trail")).toEqual(expected.trail);
+    expect(b.engine.world.get("trail")).toEqual(expected.trail);
+    expect(a.net.stats.missedRollbacks + b.net.stats.missedRollbacks).toBe(0);
+  });
+
+  it("leaves the world clock untouched when resimulating", async () => {
+    const { a } = await runPair({ latency: 0.05, seed: 2 });
+    expect(a.engine.world.now).toBeCloseTo((SCRIPT_TICKS + 30) / 60, 9);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { applyDelta, diffState } from "../../../packages/eris/src/eris/net/delta";
+
+describe("state deltas", () => {
+  it("returns null for identical states", () => {
+    expect(diffState({ a: 1, b: { c: [1, 2] } }, { a: 1, b: { c: [1, 2] } })).toBeNull();
+  });
+
+  it("only carries what changed, recursing into plain objects", () => {
+    const base = {
+      score: 1,
+      entities: { e1: { x: 0, y: 0 }, e2: { x: 5, y: 5 }, e3: { x: 9, y: 9 } },
+      tags: ["a"]
+    };
+    const next = {
+      score: 1,
+      entities: { e1: { x: 1, y: 0 }, e2: { x: 5, y: 5 }, e4: { x: 2, y: 2 } },
+      tags: ["a", "b"],
+      mode: "play"
+    };
+
+    const delta = diffState(base, next);
+    expect(delta).toEqual({
+      set: { tags: ["a", "b"], mode: "play" },
+      patch: { entities: { set: { e4: { x: 2, y: 2 } }, patch: { e1: { set: { x: 1 } } }, del: ["e3"] } }
+    });
+    expect(applyDelta(base, delta)).toEqual(next);
+  });
+
+  it("treats keys named like Object.prototype members as ordinary keys", () => {
+    const base = { valueOf: 1 };
+    const next = { toString: "x", constructor: { a: 1 } };
+
+    const delta = diffState(base, next);
+    expect(delta).toEqual({ set: { toString: "x", constructor: { a: 1 } }, del: ["valueOf"] });
+    expect(applyDelta(base, delta)).toEqual(next);
+    expect(diffState(next, next)).toBeNull();
+  });
+
+  it("does not mutate the base state", () => {
+    const base = { entities: { e1: { x: 0 } } };
+    const next = { entities: { e1: { x: 1 } } };
+    applyDelta(base, diffState(base, next));
+    expect(base).toEqual({ entities: { e1: { x: 0 } } });
+  });
+
+  it("applies a full snapshot against an empty base", () => {
+    const state = { a: 1, b: { c: true } };
+    expect(applyDelta({}, diffState({}, state))).toEqual(state);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { createLoopbackPair, type LoopbackOptions } from "../../../packages/eris/src/eris/net/transport";
+import { ServerNet } from "../../../packages/eris/src/eris/net/ServerNet";
+import { ClientNet, lerpPlainData } from "../../../packages/eris/src/eris/net/ClientNet";
+import type { ClientMessage, ServerMessage } from "../../../packages/eris/src/eris/net/protocol";
+
+type Entities = Record<string, { x: number }>;
+
+const dt = 1 / 60;
+
+async function setup(link: LoopbackOptions = {}, interpolationDelay = 0.1) {
+  const [serverSide, clientSide] = createLoopbackPair<ServerMessage | ClientMessage>(link);
+
+  const serverNet = new ServerNet({ replicate: ["entities", "match"] });
+  const server = new Engine({ fixedDt: dt, net: serverNet });
+  server.world.set<Entities>("entities", { e1: { x: 0 }, e2: { x: 100 } });
+  server.world.set("match", { phase: "warmup" });
+  server.world.set("server.secret", 42);
+  server.registerSystem({
+    name: "move",
+    phase: "fixed",
+    run: (world) => {
+      // e1 moves 60 units per second; e2 stays still.
+      world.get<Entities>("entities")!.e1!.x += 1;
+    }
+  });
+  serverNet.addClient("c1", serverSide);
+
+  const clientNet = new ClientNet({
+    transport: clientSide,
+    interpolate: { entities: lerpPlainData },
+    interpolationDelay
+  });
+  const client = new Engine({ fixedDt: dt, net: clientNet });
+
+  await server.init();
+  await client.init();
+
+  const step = (frames: number) => {
+    for (let i = 0; i < frames; i += 1) {
+      server.frame(dt);
+      client.frame(dt);
+    }
+  };
+
+  return { server, serverNet, client, clientNet, step };
+}
+
+describe("ServerNet / ClientNet", () => {
+  it("exposes explicit roles", () => {
+    const [t] = createLoopbackPair<ServerMessage | ClientMessage>();
+    expect(new ServerNet({ replicate: [] }).role).toBe("server");
+    expect(new ClientNet({ transport: t }).role).toBe("client");
+  });
+
+  it("replicates only the selected keys", async () => {
+    const { client, step } = await setup();
+    step(3);
+
+    expect(client.world.get("match")).toEqual({ phase: "warmup" });
+    expect(client.world.has("server.secret")).toBe(false);
+  });
+
+  it("switches to deltas once the client acks", async () => {
+    const { serverNet, clientNet, step } = await setup({ latency: 0.05 });
+    step(60);
+
+    expect(serverNet.stats.fullSnapshots).toBeGreaterThan(0);
+    expect(serverNet.stats.fullSnapshots).toBeLessThan(10);
+    expect(serverNet.stats.deltaSnapshots).toBeGreaterThan(45);
+    expect(serverNet.getAckedTick("c1")).toBeGreaterThan(40);
+    expect(clientNet.stats.dropped).toBe(0);
+  });
+
+  it("interpolates remote entities in renderApply, interpolationDelay behind the server", async () => {
+    const { server, client, step } = await setup({}, 0.1);
+    step(90);
+    // A half frame on the client lands between two server snapshots.
+    client.frame(dt / 2);
+
+    const serverX = server.world.get<Entities>("entities")!.e1!.x;
+    const clientX = client.world.get<Entities>("entities")!.e1!.x;
+
+    // Rendered at server time 1.5 + dt/2 - 0.1, and e1.x is 60 * time.
+    expect(serverX).toBe(90);
+    expect(clientX).toBeCloseTo(84.5, 6);
+    expect(client.world.get<Entities>("entities")!.e2).toEqual({ x: 100 });
+  });
+
+  it("applies non-interpolated keys immediately and propagates removals", async () => {
+    const { server, client, step } = await setup();
+    step(2);
+
+    server.world.set("match", { phase: "live" });
+    step(1);
+    expect(client.world.get("match")).toEqual({ phase: "live" });
+
+    server.world.delete("match");
+    step(1);
+    expect(client.world.has("match")).toBe(false);
+  });
+
+  it("recovers from packet loss in both directions", async () => {
+    const { server, client, clientNet, step } = await setup({ latency: 0.02, loss: 0.3, seed: 9 }, 0);
+    step(200);
+
+    // The newest decoded snapshot matches the server's state at that tick.
+    const latest = clientNet.latest!;
+    expect(latest.tick).toBeGreaterThan(190);
+    expect((latest.state.entities as Entities).e1!.x).toBe(latest.tick);
+    expect(server.world.tick).toBe(200);
+    expect(client.world.get<Entities>("entities")!.e1!.x).toBeGreaterThan(180);
+  });
+
+  it("rejects duplicate client ids", () => {
+    const [t] = createLoopbackPair<ServerMessage | ClientMessage>();
+    const server = new ServerNet({ replicate: [] });
+    server.addClient("c1", t);
+    expect(() => server.addClient("c1", t)).toThrow(/already connected/);
+    expect(server.removeClient("c1")).toBe(true);
+    expect(server.getClientIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createLoopbackPair } from "../../../packages/eris/src/eris/net/transport";
+
+describe("createLoopbackPair", () => {
+  it("delivers messages in both directions after the configured latency", () => {
+    const [a, b] = createLoopbackPair<{ n: number }>({ latency: 0.1 });
+
+    a.poll(1);
+    a.send({ n: 1 });
+    expect(b.poll(1.05)).toEqual([]);
+    expect(b.poll(1.1)).toEqual([{ n: 1 }]);
+    expect(b.poll(2)).toEqual([]);
+
+    b.send({ n: 2 });
+    expect(a.poll(2.2)).toEqual([{ n: 2 }]);
+  });
+
+  it("clones messages on send", () => {
+    const [a, b] = createLoopbackPair<{ list: number[] }>();
+    const msg = { list: [1] };
+    a.send(msg);
+    msg.list.push(2);
+
+    const [received] = b.poll(0);
+    expect(received).toEqual({ list: [1] });
+    expect(received).not.toBe(msg);
+  });
+
+  it("drops messages according to loss, reproducibly per seed", () => {
+    const deliveredCount = (seed: number) => {
+      const [a, b] = createLoopbackPair<number>({ loss: 0.5, seed });
+      for (let i = 0; i < 200; i += 1) a.send(i);
+      return b.poll(0).length;
+    };
+
+    const count = deliveredCount(7);
+    expect(count).toBeGreaterThan(50);
+    expect(count).toBeLessThan(150);
+    expect(deliveredCount(7)).toBe(count);
+  });
+
+  it("returns jittered messages ordered by arrival time", () => {
+    const [a, b] = createLoopbackPair<number>({ latency: 0.05, jitter: 0.1, seed: 3 });
+    for (let i = 0; i < 20; i += 1) a.send(i);
+
+    const received = b.poll(1);
+    expect(received).toHaveLength(20);
+    expect([...received].sort((x, y) => x - y)).toEqual([...Array(20).keys()]);
+  });
+
+  it("stops delivering once either side is closed", () => {
+    const [a, b] = createLoopbackPair<number>();
+    a.send(1);
+    b.close?.();
+    a.send(2);
+    expect(b.poll(1)).toEqual([]);
+  });
+
+  it("validates options", () => {
+    expect(() => createLoopbackPair({ loss: 2 })).toThrow(/Loopback.loss/);
+    expect(() => createLoopbackPair({ latency: -1 })).toThrow(/Loopback.latency/);
+  });
+});
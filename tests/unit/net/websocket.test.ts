@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { WebSocket, WebSocketServer } from "ws";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { createWebSocketTransport, type WebSocketLike } from "../../../packages/eris/src/eris/net/websocket";
+import { ServerNet } from "../../../packages/eris/src/eris/net/ServerNet";
+import { ClientNet } from "../../../packages/eris/src/eris/net/ClientNet";
+import type { ClientMessage, ServerMessage } from "../../../packages/eris/src/eris/net/protocol";
+
+type Msg = ServerMessage | ClientMessage;
+
+let wss: WebSocketServer | null = null;
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => (wss ? wss.close(() => resolve()) : resolve()));
+  wss = null;
+});
+
+async function listen(): Promise<number> {
+  wss = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise<void>((resolve) => wss!.once("listening", () => resolve()));
+  return (wss.address() as { port: number }).port;
+}
+
+async function until(check: () => boolean, what: string): Promise<void> {
+  for (let i = 0; i < 200; i += 1) {
+    if (check()) return;
+    await new Promise((r) => setTimeout(r, 5));
+  }
+  throw new Error(`timed out waiting for ${what}`);
+}
+
+describe("createWebSocketTransport", () => {
+  it("buffers sends until open and JSON-encodes messages both ways", async () => {
+    const port = await listen();
+    const received: unknown[] = [];
+    wss!.on("connection", (socket) => {
+      socket.on("message", (data) => {
+        received.push(JSON.parse(String(data)));
+        socket.send(JSON.stringify({ type: "ack", tick: 7 }));
+      });
+    });
+
+    const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+    const transport = createWebSocketTransport<Msg>(socket);
+    transport.send({ type: "ack", tick: 1 }); // still connecting
+
+    await until(() => received.length === 1, "server receive");
+    expect(received).toEqual([{ type: "ack", tick: 1 }]);
+
+    const replies: Msg[] = [];
+    await until(() => replies.push(...transport.poll(0)) > 0, "client receive");
+    expect(replies).toEqual([{ type: "ack", tick: 7 }]);
+
+    transport.close?.();
+    transport.send({ type: "ack", tick: 2 });
+    expect(transport.poll(0)).toEqual([]);
+  });
+
+  it("drops frames that fail to decode and reports them", () => {
+    const listeners: ((event: { data: unknown }) => void)[] = [];
+    const socket: WebSocketLike = {
+      readyState: 1,
+      send() {},
+      close() {},
+      addEventListener(type: string, listener: (event: { data: unknown }) => void) {
+        if (type === "message") listeners.push(listener);
+      }
+    };
+    const errors: string[] = [];
+    const transport = createWebSocketTransport<Msg>(socket, { onError: (_e, data) => errors.push(data) });
+
+    const receive = listeners[0]!;
+    expect(() => receive({ data: "not json {" })).not.toThrow();
+    receive({ data: JSON.stringify({ type: "ack", tick: 3 }) });
+
+    expect(errors).toEqual(["not json {"]);
+    expect(transport.poll(0)).toEqual([{ type: "ack", tick: 3 }]);
+  });
+
+  it("drives a ServerNet and ClientNet against a local server", async () => {
+    const port = await listen();
+
+    const serverNet = new ServerNet({ replicate: ["score"] });
+    const server = new Engine({ fixedDt: 1 / 60, net: serverNet });
+    server.world.set("score", 0);
+    server.registerSystem({
+      name: "score",
+      phase: "fixed",
+      run: (world) => world.set("score", world.get<number>("score")! + 1)
+    });
+    await server.init();
+
+    wss!.on("connection", (socket) => serverNet.addClient("c1", createWebSocketTransport<Msg>(socket)));
+
+    const clientNet = new ClientNet({
+      transport: createWebSocketTransport<Msg>(new WebSocket(`ws://127.0.0.1:${port}`))
+    });
+    const client = new Engine({ fixedDt: 1 / 60, net: clientNet });
+    await client.init();
+
+    await until(() => serverNet.getClientIds().length === 1, "connection");
+
+    const pump = async (frames: number) => {
+      for (let i = 0; i < frames; i += 1) {
+        server.frame(1 / 60);
+        client.frame(1 / 60);
+        await new Promise((r) => setTimeout(r, 1));
+      }
+    };
+    await pump(30);
+    await until(() => {
+      server.frame(1 / 60);
+      client.frame(1 / 60);
+      return client.world.get<number>("score") !== undefined && serverNet.stats.deltaSnapshots > 0;
+    }, "deltas");
+
+    const score = client.world.get<number>("score")!;
+    expect(score).toBeGreaterThan(0);
+    expect(score).toBeLessThanOrEqual(server.world.get<number>("score")!);
+    expect(serverNet.getAckedTick("c1")).not.toBeNull();
+
+    serverNet.removeClient("c1");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { createEngine, createHeadlessRunner } from "react-three-eris";
+import {
+  CharacterController,
+  createCharacterControllerSystem,
+  type CharacterIntent,
+  type CharacterState
+} from "../../../packages/eris/src/eris/physics/CharacterController";
+import { RapierPhysicsModule } from "../../../packages/eris/src/eris/physics/RapierPhysicsModule";
+import type { BodyHandle } from "../../../packages/eris/src/eris/physics/types";
+
+const dt = 1 / 60;
+
+/** Ground at y = 0, a 0.2 step at x = 2..3, a 1.0 wall at x = -3 and a player capsule standing at the origin. */
+async function makeScene() {
+  const physics = new RapierPhysicsModule();
+  await physics.init();
+
+  physics.createCollider({ shape: "box", halfExtents: { x: 20, y: 0.5, z: 20 }, position: { x: 0, y: -0.5, z: 0 } });
+  physics.createCollider({ shape: "box", halfExtents: { x: 0.5, y: 0.1, z: 5 }, position: { x: 2.5, y: 0.1, z: 0 } });
+  physics.createCollider({ shape: "box", halfExtents: { x: 0.5, y: 0.5, z: 5 }, position: { x: -3.5, y: 0.5, z: 0 } });
+
+  const body = physics.createBody({ type: "kinematicPosition", position: { x: 0, y: 0.8, z: 0 } });
+  physics.createCollider({ shape: "capsule", halfHeight: 0.45, radius: 0.25 }, body);
+  physics.step(dt);
+
+  const controller = new CharacterController(physics);
+  let state: CharacterState | undefined;
+  const run = (ticks: number, intent: CharacterIntent) => {
+    for (let i = 0; i < ticks; i += 1) {
+      state = controller.move(body, intent, state, dt);
+      physics.step(dt);
+    }
+    return state!;
+  };
+  return { physics, body, run };
+}
+
+describe("CharacterController (real rapier)", () => {
+  it("falls onto the ground and reports grounded", async () => {
+    const { physics, body, run } = await makeScene();
+
+    const s = run(60, { x: 0, z: 0 });
+    expect(s.grounded).toBe(true);
+    expect(s.velocity.y).toBeCloseTo(0, 3);
+    // Capsule bottom rests on y = 0 (plus the offset).
+    expect(physics.getPosition(body).y).toBeCloseTo(0.7, 1);
+  });
+
+  it("climbs low steps but is stopped by walls", async () => {
+    const { physics, body, run } = await makeScene();
+    run(30, { x: 0, z: 0 });
+
+    // Onto the middle of the step.
+    run(30, { x: 1, z: 0 });
+    expect(physics.getPosition(body).x).toBeGreaterThan(2.1);
+    expect(physics.getPosition(body).x).toBeLessThan(2.9);
+    expect(physics.getPosition(body).y).toBeGreaterThan(0.85);
+
+    const s = run(120, { x: -1, z: 0 });
+    expect(physics.getPosition(body).x).toBeGreaterThan(-3.0);
+    expect(physics.getPosition(body).x).toBeLessThan(-2.6);
+    expect(Math.abs(s.velocity.x)).toBeLessThan(0.05);
+    expect(s.hits.length).toBeGreaterThan(0);
+  });
+
+  it("jumps only from the ground and lands again", async () => {
+    const { physics, body, run } = await makeScene();
+    run(30, { x: 0, z: 0 });
+    const groundY = physics.getPosition(body).y;
+
+    let s = run(1, { x: 0, z: 0, jump: true });
+    expect(s.grounded).toBe(false);
+    expect(s.velocity.y).toBeGreaterThan(5);
+
+    s = run(20, { x: 0, z: 0, jump: true });
+    expect(physics.getPosition(body).y).toBeGreaterThan(groundY + 0.5);
+
+    s = run(60, { x: 0, z: 0 });
+    expect(s.grounded).toBe(true);
+    expect(physics.getPosition(body).y).toBeCloseTo(groundY, 2);
+  });
+
+  it("runs as a fixed system writing plain-data state", async () => {
+    const physics = new RapierPhysicsModule();
+    const engine = createEngine({ fixedDt: dt, physics });
+    engine.registerSystem(
+      createCharacterControllerSystem({ bodyKey: "player.body", intentKey: "player.intent", stateKey: "player.character", speed: 3 })
+    );
+    await engine.init();
+
+    physics.createCollider({ shape: "box", halfExtents: { x: 20, y: 0.5, z: 20 }, position: { x: 0, y: -0.5, z: 0 } });
+    const body: BodyHandle = physics.createBody({ type: "kinematicPosition", position: { x: 0, y: 0.71, z: 0 } });
+    physics.createCollider({ shape: "ball", radius: 0.7 }, body);
+    engine.world.set("player.body", body);
+    engine.world.set("player.intent", { x: 0, z: 1 });
+
+    createHeadlessRunner(engine).runTicks(31);
+    const state = engine.world.get<CharacterState>("player.character")!;
+    expect(state.grounded).toBe(true);
+    expect(state.velocity.z).toBeCloseTo(3, 1);
+    expect(physics.getPosition(body).z).toBeCloseTo(1.5, 1);
+    expect(() => engine.world.snapshot()).not.toThrow();
+  });
+});
@@ -5,5 +5,16 @@ describe("NoopPhysics", () => {
   it("does nothing", () => {
     expect(() => NoopPhysics.step(1 / 60)).not.toThrow();
   });
+
+  it("answers queries as an empty world", () => {
+    const q = NoopPhysics.queries!;
+    const o = { x: 0, y: 0, z: 0 };
+    expect(q.castRay(o, { x: 0, y: -1, z: 0 }, 10)).toBeNull();
+    expect(q.castRayAll(o, { x: 0, y: -1, z: 0 }, 10)).toEqual([]);
+    expect(q.castShape({ shape: { shape: "ball", radius: 1 }, position: o, direction: { x: 1, y: 0, z: 0 }, maxDistance: 1 })).toBeNull();
+    expect(q.overlapPoint(o)).toEqual([]);
+    expect(q.overlapAabb(o, o)).toEqual([]);
+    expect(NoopPhysics.events).toEqual({ contacts: [], forces: [], sensors: [] });
+  });
 });
 
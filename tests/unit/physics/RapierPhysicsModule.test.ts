@@ -41,3 +41,121 @@ describe("RapierPhysicsModule", () => {
   });
 });
 
+
+describe("RapierPhysicsModule snapshots (real rapier)", () => {
+  it("restores body state and keeps handles valid", async () => {
+    const { World } = await import("../../../packages/eris/src/eris/world/World");
+    const { NoopNet } = await import("../../../packages/eris/src/eris/net/NoopNet");
+
+    const physics = new RapierPhysicsModule();
+    await physics.init();
+    const RAPIER: any = physics.rapier;
+    const rw: any = physics.world;
+
+    const rb = rw.createRigidBody(RAPIER.RigidBodyDesc.dynamic().setTranslation(0, 10, 0));
+    rw.createCollider(RAPIER.ColliderDesc.ball(0.5), rb);
+
+    const world = new World({ fixedDt: 1 / 60, physics, net: NoopNet });
+    world.set("ball", rb);
+    world.registerSerializer("ball", physics.rigidBodySerializer());
+
+    for (let i = 0; i < 10; i += 1) physics.step(1 / 60);
+    const snap = world.snapshot();
+    const yAtSnapshot = rb.translation().y;
+
+    for (let i = 0; i < 30; i += 1) physics.step(1 / 60);
+    expect(rb.translation().y).toBeLessThan(yAtSnapshot);
+
+    world.restore(snap);
+    const restored: any = world.get("ball");
+    expect(physics.world).not.toBe(rw);
+    expect(restored.handle).toBe(rb.handle);
+    expect(restored.translation().y).toBeCloseTo(yAtSnapshot, 6);
+  });
+
+  it("rigidBodySerializer throws a clear error without a physics world", () => {
+    const physics = new RapierPhysicsModule();
+    const serializer = physics.rigidBodySerializer();
+    expect(() => serializer.deserialize(0, null as never, undefined)).toThrow(/not initialized/);
+  });
+});
+
+describe("RapierPhysicsModule typed API (real rapier)", () => {
+  it("creates bodies and colliders from descriptors", async () => {
+    const physics = new RapierPhysicsModule();
+    expect(physics.ready).toBe(false);
+    expect(() => physics.createBody({ type: "dynamic" })).toThrow(/not initialized/);
+    await physics.init();
+
+    const ground = physics.createCollider({ shape: "box", halfExtents: { x: 10, y: 0.5, z: 10 }, position: { x: 0, y: -0.5, z: 0 } });
+    const ball = physics.createBody({ type: "dynamic", position: { x: 0, y: 2, z: 0 }, linearDamping: 0.1, ccd: true });
+    const ballCollider = physics.createCollider({ shape: "ball", radius: 0.5, restitution: 0.3, density: 2 }, ball);
+    const mover = physics.createBody({ type: "kinematicPosition", position: { x: 5, y: 0, z: 0 } });
+    physics.createCollider({ shape: "capsule", halfHeight: 0.5, radius: 0.25, sensor: true }, mover);
+    physics.createCollider({ shape: "trimesh", vertices: [0, 0, 0, 1, 0, 0, 0, 0, 1], indices: [0, 1, 2] });
+    physics.createCollider({
+      shape: "heightfield",
+      rows: 1,
+      cols: 1,
+      heights: [0, 0, 0, 0],
+      scale: { x: 4, y: 1, z: 4 },
+      position: { x: 20, y: 0, z: 0 }
+    });
+
+    expect(physics.getBodyType(ball)).toBe("dynamic");
+    expect(physics.getBodyType(mover)).toBe("kinematicPosition");
+    expect(physics.getColliderBody(ballCollider)).toBe(ball);
+    expect(physics.getColliderBody(ground)).toBeNull();
+    expect(physics.getPosition(ball)).toEqual({ x: 0, y: 2, z: 0 });
+
+    for (let i = 0; i < 30; i += 1) physics.step(1 / 60);
+    expect(physics.getPosition(ball).y).toBeLessThan(2);
+    expect(physics.getLinearVelocity(ball).y).toBeLessThan(0);
+
+    physics.setNextKinematicPosition(mover, { x: 6, y: 0, z: 0 });
+    physics.step(1 / 60);
+    expect(physics.getPosition(mover).x).toBeCloseTo(6, 5);
+
+    physics.setPosition(ball, { x: 1, y: 5, z: 1 });
+    physics.setLinearVelocity(ball, { x: 0, y: 0, z: 0 });
+    physics.applyImpulse(ball, { x: 0, y: 10, z: 0 });
+    expect(physics.getPosition(ball)).toEqual({ x: 1, y: 5, z: 1 });
+    expect(physics.getLinearVelocity(ball).y).toBeGreaterThan(0);
+
+    physics.removeBody(ball);
+    expect(physics.hasBody(ball)).toBe(false);
+    expect(physics.hasCollider(ballCollider)).toBe(false);
+    expect(() => physics.getPosition(ball)).toThrow(/no body with handle/);
+    physics.removeBody(ball); // unknown handles are ignored
+  });
+
+  it("rejects malformed shapes", async () => {
+    const physics = new RapierPhysicsModule();
+    await physics.init();
+
+    expect(() => physics.createCollider({ shape: "trimesh", vertices: [0, 0], indices: [0, 1, 2] })).toThrow(/multiple of 3/);
+    expect(() =>
+      physics.createCollider({ shape: "heightfield", rows: 2, cols: 2, heights: [0, 0, 0], scale: { x: 1, y: 1, z: 1 } })
+    ).toThrow(/needs 9 heights/);
+  });
+
+  it("keeps handles valid across world snapshots without serializers", async () => {
+    const { World } = await import("../../../packages/eris/src/eris/world/World");
+    const { NoopNet } = await import("../../../packages/eris/src/eris/net/NoopNet");
+
+    const physics = new RapierPhysicsModule();
+    await physics.init();
+    const world = new World({ fixedDt: 1 / 60, physics, net: NoopNet, seed: 1 });
+
+    const body = physics.createBody({ type: "dynamic", position: { x: 0, y: 10, z: 0 } });
+    physics.createCollider({ shape: "ball", radius: 0.5 }, body);
+    world.set("ball", body);
+
+    const snap = world.snapshot();
+    for (let i = 0; i < 30; i += 1) physics.step(1 / 60);
+    expect(physics.getPosition(body).y).toBeLessThan(10);
+
+    world.restore(snap);
+    expect(physics.getPosition(world.get("ball")!).y).toBeCloseTo(10, 6);
+  });
+});
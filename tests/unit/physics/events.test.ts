@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { RapierPhysicsModule } from "../../../packages/eris/src/eris/physics/RapierPhysicsModule";
+import { otherCollider, type SensorEvent } from "../../../packages/eris/src/eris/physics/events";
+
+/** Ground with events at y = 0, a sensor slab at y = 2..3 and a ball dropped through it from y = 5. */
+async function makeScene() {
+  const physics = new RapierPhysicsModule();
+  await physics.init();
+
+  const ground = physics.createCollider({
+    shape: "box",
+    halfExtents: { x: 5, y: 0.5, z: 5 },
+    position: { x: 0, y: -0.5, z: 0 },
+    events: true,
+    entity: "ground"
+  });
+  const zone = physics.createCollider({
+    shape: "box",
+    halfExtents: { x: 5, y: 0.5, z: 5 },
+    position: { x: 0, y: 2.5, z: 0 },
+    sensor: true,
+    entity: "zone"
+  });
+  const ball = physics.createBody({ type: "dynamic", position: { x: 0, y: 5, z: 0 }, entity: "ball" });
+  const ballCollider = physics.createCollider({ shape: "ball", radius: 0.25 }, ball);
+
+  return { physics, ground, zone, ball, ballCollider };
+}
+
+describe("RapierPhysicsModule events (real rapier)", () => {
+  it("reports sensor enter/stay/exit and contact start with forces, one step at a time", async () => {
+    const { physics, ground, zone, ball, ballCollider } = await makeScene();
+
+    const sensorTypes: SensorEvent["type"][] = [];
+    let landed = false;
+    for (let i = 0; i < 240 && !landed; i += 1) {
+      physics.step(1 / 60);
+      for (const e of physics.events.sensors) {
+        expect(e).toMatchObject({ sensor: zone, other: ballCollider, sensorEntity: "zone", otherBody: ball, otherEntity: "ball" });
+        sensorTypes.push(e.type);
+      }
+      for (const e of physics.events.contacts) {
+        expect(e.type).toBe("start");
+        expect(otherCollider(e, ground)).toBe(ballCollider);
+        expect([e.entity1, e.entity2].sort()).toEqual(["ball", "ground"]);
+        expect(e.force?.totalMagnitude).toBeGreaterThan(0);
+        landed = true;
+      }
+    }
+
+    expect(landed).toBe(true);
+    expect(sensorTypes[0]).toBe("enter");
+    expect(sensorTypes.at(-1)).toBe("exit");
+    expect(sensorTypes.filter((t) => t === "stay").length).toBe(sensorTypes.length - 2);
+    expect(sensorTypes.length).toBeGreaterThan(2);
+
+    // Resting on the ground: forces every step, no new contact events.
+    physics.step(1 / 60);
+    expect(physics.events.contacts).toEqual([]);
+    expect(physics.events.forces.length).toBe(1);
+
+    // Removal ends the contact on the next step, still naming the removed body.
+    physics.removeBody(ball);
+    physics.step(1 / 60);
+    expect(physics.events.contacts).toMatchObject([{ type: "end", force: null }]);
+    expect([physics.events.contacts[0]!.entity1, physics.events.contacts[0]!.entity2].sort()).toEqual(["ball", "ground"]);
+  });
+
+  it("restores sensor overlaps with physics snapshots", async () => {
+    const { physics } = await makeScene();
+
+    while (!physics.events.sensors.some((e) => e.type === "enter")) physics.step(1 / 60);
+    const snap = physics.snapshot();
+
+    while (!physics.events.sensors.some((e) => e.type === "exit")) physics.step(1 / 60);
+    physics.restore(snap);
+    expect(physics.events.sensors).toEqual([]);
+
+    physics.step(1 / 60);
+    expect(physics.events.sensors.map((e) => e.type)).toEqual(["stay"]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { createCollisionLayers, interactionGroups } from "../../../packages/eris/src/eris/physics/layers";
+import { RapierPhysicsModule } from "../../../packages/eris/src/eris/physics/RapierPhysicsModule";
+
+const config = {
+  layers: ["ball", "table", "flipper", "sensor", "player"],
+  collisions: { ball: ["table", "flipper", "sensor"], player: ["*"] }
+} as const;
+
+describe("CollisionLayers", () => {
+  it("builds a symmetric matrix from named layers", () => {
+    const layers = createCollisionLayers(config);
+
+    expect(layers.bit("ball")).toBe(1);
+    expect(layers.bit("player")).toBe(16);
+    expect(layers.collides("table", "ball")).toBe(true);
+    expect(layers.collides("table", "flipper")).toBe(false);
+    expect(layers.collidesWith("player")).toEqual(["ball", "table", "flipper", "sensor", "player"]);
+    expect(layers.collidesWith("sensor")).toEqual(["ball", "player"]);
+
+    expect(layers.groups("table")).toBe(interactionGroups(0b00010, 0b10001));
+    expect(layers.groups(["ball", "sensor"])).toBe(interactionGroups(0b01001, 0b11111));
+    expect(layers.only("table")).toBe(0xffff0002);
+  });
+
+  it("rejects invalid layer sets", () => {
+    const many = Array.from({ length: 17 }, (_, i) => `l${i}`);
+    expect(() => createCollisionLayers({ layers: many })).toThrow(/at most 16 layers/);
+    expect(() => createCollisionLayers({ layers: ["a", "a"] })).toThrow(/duplicate layer "a"/);
+    expect(() => createCollisionLayers({ layers: ["a", ""] })).toThrow(/invalid layer name/);
+    expect(() => createCollisionLayers({ layers: ["a"], collisions: { a: ["b" as "a"] } })).toThrow(/unknown layer "b"/);
+    expect(() => createCollisionLayers(config).groups("wall" as "ball")).toThrow(/unknown layer "wall"/);
+  });
+});
+
+describe("RapierPhysicsModule layers (real rapier)", () => {
+  it("applies layers to colliders and query filters", async () => {
+    const physics = new RapierPhysicsModule({ layers: config });
+    await physics.init();
+
+    physics.createCollider({ shape: "box", halfExtents: { x: 5, y: 0.5, z: 5 }, position: { x: 0, y: -0.5, z: 0 }, layer: "table" });
+    const plate = physics.createBody({ type: "dynamic", position: { x: 0, y: 1, z: 0 }, entity: "plate" });
+    physics.createCollider({ shape: "box", halfExtents: { x: 0.5, y: 0.1, z: 0.5 }, layer: "flipper" }, plate);
+
+    for (let i = 0; i < 90; i += 1) physics.step(1 / 60);
+    // Flippers and tables don't collide: the plate fell through.
+    expect(physics.getPosition(plate).y).toBeLessThan(-1);
+
+    const hit = physics.queries.castRay({ x: 0, y: 5, z: 0 }, { x: 0, y: -1, z: 0 }, 100, { layers: "flipper" });
+    expect(hit?.entity).toBe("plate");
+    expect(physics.queries.castRay({ x: 0, y: 5, z: 0 }, { x: 0, y: -1, z: 0 }, 100, { layers: ["table"] })?.distance).toBeCloseTo(5, 4);
+    expect(() => physics.queries.castRay({ x: 0, y: 5, z: 0 }, { x: 0, y: -1, z: 0 }, 1, { layers: "table", groups: 1 })).toThrow(/either layers or groups/);
+
+    expect(() => physics.createCollider({ shape: "ball", radius: 1, layer: "table", collisionGroups: 1 })).toThrow(/either layer or collisionGroups/);
+    expect(() => physics.createCollider({ shape: "ball", radius: 1, layer: "wall" })).toThrow(/unknown layer "wall"/);
+
+    const plain = new RapierPhysicsModule();
+    await plain.init();
+    expect(() => plain.createCollider({ shape: "ball", radius: 1, layer: "table" })).toThrow(/no collision layers configured/);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { RapierPhysicsModule } from "../../../packages/eris/src/eris/physics/RapierPhysicsModule";
+
+const down = { x: 0, y: -1, z: 0 };
+
+/** Ground at y = 0, a crate on it at x = 3 and a sensor volume at x = -3, stepped once so queries see them. */
+async function makeScene() {
+  const physics = new RapierPhysicsModule();
+  await physics.init();
+
+  const ground = physics.createCollider({
+    shape: "box",
+    halfExtents: { x: 10, y: 0.5, z: 10 },
+    position: { x: 0, y: -0.5, z: 0 },
+    entity: "ground",
+    collisionGroups: (0x0001 << 16) | 0xffff
+  });
+  const crate = physics.createBody({ type: "fixed", position: { x: 3, y: 0.5, z: 0 }, entity: 42 });
+  const crateCollider = physics.createCollider({ shape: "box", halfExtents: { x: 0.5, y: 0.5, z: 0.5 }, collisionGroups: (0x0002 << 16) | 0xffff }, crate);
+  const trigger = physics.createCollider({
+    shape: "box",
+    halfExtents: { x: 1, y: 1, z: 1 },
+    position: { x: -3, y: 1, z: 0 },
+    sensor: true,
+    entity: "trigger"
+  });
+
+  physics.step(1 / 60);
+  return { physics, q: physics.queries, ground, crate, crateCollider, trigger };
+}
+
+describe("RapierPhysicsModule queries (real rapier)", () => {
+  it("casts rays and maps hits back to entities", async () => {
+    const { q, ground, crate, crateCollider } = await makeScene();
+
+    const floor = q.castRay({ x: 0, y: 5, z: 0 }, down, 100)!;
+    expect(floor).toMatchObject({ collider: ground, body: null, entity: "ground" });
+    expect(floor.distance).toBeCloseTo(5, 4);
+    expect(floor.point.y).toBeCloseTo(0, 4);
+    expect(floor.normal.y).toBeCloseTo(1, 4);
+
+    // Direction is normalized; the collider inherits its body's entity.
+    const top = q.castRay({ x: 3, y: 5, z: 0 }, { x: 0, y: -10, z: 0 }, 100)!;
+    expect(top).toMatchObject({ collider: crateCollider, body: crate, entity: 42 });
+    expect(top.distance).toBeCloseTo(4, 4);
+
+    expect(q.castRay({ x: 0, y: 5, z: 0 }, down, 2)).toBeNull();
+    expect(() => q.castRay({ x: 0, y: 5, z: 0 }, { x: 0, y: 0, z: 0 }, 1)).toThrow(/non-zero/);
+
+    const all = q.castRayAll({ x: 3, y: 5, z: 0 }, down, 100);
+    expect(all.map((h) => h.entity)).toEqual([42, "ground"]);
+    expect(all[0]!.distance).toBeLessThan(all[1]!.distance);
+  });
+
+  it("filters by groups, exclusions, sensors and predicate", async () => {
+    const { q, crate, crateCollider } = await makeScene();
+    const from = { x: 3, y: 5, z: 0 };
+
+    // Only interact with group 1 (the ground).
+    expect(q.castRay(from, down, 100, { groups: (0xffff << 16) | 0x0001 })!.entity).toBe("ground");
+    expect(q.castRay(from, down, 100, { excludeBody: crate })!.entity).toBe("ground");
+    expect(q.castRay(from, down, 100, { excludeCollider: crateCollider })!.entity).toBe("ground");
+    expect(q.castRay(from, down, 100, { predicate: (t) => t.entity !== 42 })!.entity).toBe("ground");
+
+    const inTrigger = { x: -3, y: 1, z: 0 };
+    expect(q.overlapPoint(inTrigger).map((t) => t.entity)).toEqual(["trigger"]);
+    expect(q.overlapPoint(inTrigger, { includeSensors: false })).toEqual([]);
+  });
+
+  it("casts shapes and tests AABB overlaps", async () => {
+    const { q, crate } = await makeScene();
+
+    const hit = q.castShape({ shape: { shape: "ball", radius: 0.5 }, position: { x: 3, y: 5, z: 0 }, direction: down, maxDistance: 100 })!;
+    expect(hit.body).toBe(crate);
+    expect(hit.distance).toBeCloseTo(3.5, 3);
+    expect(hit.point.y).toBeCloseTo(1, 3);
+    expect(hit.normal.y).toBeCloseTo(1, 3);
+
+    const found = q.overlapAabb({ x: 2, y: -0.2, z: -1 }, { x: 4, y: 2, z: 1 }).map((t) => t.entity);
+    expect(found.sort()).toEqual([42, "ground"].sort());
+    expect(q.overlapAabb({ x: 2, y: 2, z: -1 }, { x: 4, y: 3, z: 1 })).toEqual([]);
+  });
+
+  it("keeps entity tags across snapshots and removal", async () => {
+    const { physics, q, crate } = await makeScene();
+    const snap = physics.snapshot();
+
+    physics.removeBody(crate);
+    physics.step(1 / 60);
+    expect(q.castRay({ x: 3, y: 5, z: 0 }, down, 100)!.entity).toBe("ground");
+
+    physics.restore(snap);
+    physics.step(1 / 60);
+    expect(q.castRay({ x: 3, y: 5, z: 0 }, down, 100)!.entity).toBe(42);
+  });
+});
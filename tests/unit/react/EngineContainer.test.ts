@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { act, createElement, StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { EngineContainer } from "../../../packages/eris/src/eris/react/EngineContainer";
+import { useEngineStatus } from "../../../packages/eris/src/eris/react/EngineContext";
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("EngineContainer", () => {
+  it("disposes engines on retry and unmount, and survives StrictMode remounts", async () => {
+    const created: Engine[] = [];
+    const createEngine = () => {
+      const engine = new Engine();
+      created.push(engine);
+      return engine;
+    };
+    let retry = () => {};
+
+    function Probe() {
+      retry = useEngineStatus().retry;
+      return null;
+    }
+
+    const root = createRoot(document.createElement("div"));
+    await act(async () => {
+      root.render(createElement(StrictMode, null, createElement(EngineContainer, { createEngine, children: () => createElement(Probe) })));
+    });
+
+    // Every initialized engine but the one in use has been disposed. (StrictMode also calls the
+    // state initializer twice; the extra engine is never initialized, so it holds nothing.)
+    const live = created.filter((e) => !e.disposed && e.ready);
+    expect(live).toHaveLength(1);
+    expect(live[0]!.ready).toBe(true);
+
+    await act(async () => retry());
+    expect(live[0]!.disposed).toBe(true);
+    const next = created.filter((e) => !e.disposed && e.ready);
+    expect(next).toHaveLength(1);
+    expect(next[0]!.ready).toBe(true);
+
+    await act(async () => root.unmount());
+    expect(next[0]!.disposed).toBe(true);
+  });
+});
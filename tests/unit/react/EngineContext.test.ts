@@ -0,0 +1,113 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { act, createElement } from "react";
+import { createRoot } from "react-dom/client";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { EngineContainer } from "../../../packages/eris/src/eris/react/EngineContainer";
+import { EngineProvider, useEngine, useEngineStatus } from "../../../packages/eris/src/eris/react/EngineContext";
+import { useTick } from "../../../packages/eris/src/eris/react/useTick";
+import { shallowEqual, useWorldState } from "../../../packages/eris/src/eris/react/useWorldState";
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+async function render(element: ReturnType<typeof createElement>) {
+  const root = createRoot(document.createElement("div"));
+  await act(async () => {
+    root.render(element);
+  });
+  return root;
+}
+
+describe("engine context", () => {
+  it("useEngine throws outside a provider", async () => {
+    function Probe() {
+      useEngine();
+      return null;
+    }
+
+    // React reports the render error before rethrowing it.
+    const onError = (e: ErrorEvent) => e.preventDefault();
+    window.addEventListener("error", onError);
+    await expect(render(createElement(Probe))).rejects.toThrow(/useEngine: no engine in context/);
+    window.removeEventListener("error", onError);
+  });
+
+  it("EngineContainer provides the engine and its status", async () => {
+    const engine = new Engine();
+    const seen: string[] = [];
+
+    function Probe() {
+      const { status } = useEngineStatus();
+      seen.push(status);
+      expect(useEngine()).toBe(engine);
+      return null;
+    }
+
+    const root = await render(
+      createElement(EngineContainer, {
+        createEngine: () => engine,
+        loading: createElement(Probe),
+        children: () => createElement(Probe)
+      })
+    );
+
+    expect(seen[0]).toBe("initializing");
+    expect(seen[seen.length - 1]).toBe("ready");
+    await act(async () => root.unmount());
+  });
+
+  it("useWorldState re-renders only when the selection changes", async () => {
+    const engine = new Engine({ fixedDt: 0.1, maxFrameDt: 1 });
+    engine.world.set("game", { score: 0, charge: 0 });
+    const renders: number[] = [];
+
+    function Score() {
+      const view = useWorldState<{ score: number; charge: number }, { score: number }>("game", {
+        select: (g) => ({ score: g?.score ?? 0 }),
+        equals: shallowEqual
+      });
+      renders.push(view.score);
+      return null;
+    }
+
+    const root = await render(createElement(EngineProvider, { engine }, createElement(Score)));
+    expect(engine.ready).toBe(true);
+    expect(renders).toEqual([0]);
+
+    await act(async () => {
+      engine.world.set("game", { score: 0, charge: 0.5 });
+      engine.frame(0.1);
+    });
+    expect(renders).toEqual([0]);
+
+    await act(async () => {
+      engine.world.set("game", { score: 100, charge: 0.5 });
+      engine.frame(0.1);
+    });
+    expect(renders).toEqual([0, 100]);
+    await act(async () => root.unmount());
+  });
+
+  it("useTick runs the latest callback in its phase while mounted", async () => {
+    const engine = new Engine({ fixedDt: 0.1, maxFrameDt: 1 });
+    await engine.init();
+    const calls: string[] = [];
+
+    function Ticker(props: { label: string }) {
+      useTick((_world, _dt, ctx) => calls.push(`${props.label}:${ctx?.phase}`), { phase: "late" });
+      return null;
+    }
+
+    const root = await render(createElement(EngineProvider, { engine }, createElement(Ticker, { label: "a" })));
+    engine.frame(0.1);
+    await act(async () => {
+      root.render(createElement(EngineProvider, { engine }, createElement(Ticker, { label: "b" })));
+    });
+    engine.frame(0.1);
+    expect(calls).toEqual(["a:late", "b:late"]);
+
+    await act(async () => root.unmount());
+    engine.frame(0.1);
+    expect(calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,186 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from "vitest";
+import { act, createElement, StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { createRapierPhysics } from "../../../packages/eris/src/eris/physics/RapierPhysicsModule";
+import type { BodyHandle } from "../../../packages/eris/src/eris/physics/types";
+import { useErisBody } from "../../../packages/eris/src/eris/react/ErisBody";
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+function makeTarget() {
+  return {
+    position: { x: 0, y: 0, z: 0, set(x: number, y: number, z: number) { Object.assign(this, { x, y, z }); } },
+    quaternion: { set: vi.fn() }
+  };
+}
+
+describe("useErisBody", () => {
+  it("creates the body once physics is ready, draws it and removes it on unmount", async () => {
+    const physics = createRapierPhysics();
+    const engine = new Engine({ fixedDt: 1 / 60, physics });
+    const target = makeTarget();
+    const onCreate = vi.fn();
+    let handle: BodyHandle | null = null;
+
+    function Probe() {
+      handle = useErisBody(
+        engine,
+        {
+          type: "dynamic",
+          position: { x: 1, y: 5, z: 0 },
+          collider: [{ shape: "ball", radius: 0.5 }, { shape: "box", halfExtents: { x: 0.1, y: 0.1, z: 0.1 } }],
+          stateKey: "probe.body",
+          onCreate
+        },
+        { current: target }
+      );
+      return null;
+    }
+
+    const root = createRoot(document.createElement("div"));
+    await act(async () => {
+      root.render(createElement(StrictMode, null, createElement(Probe)));
+    });
+    expect(onCreate).not.toHaveBeenCalled();
+    await act(async () => {
+      await engine.init();
+    });
+
+    // StrictMode's first mount is torn down before init resolves: one body, not two.
+    expect(onCreate).toHaveBeenCalledTimes(1);
+    const [body, colliders] = onCreate.mock.calls[0];
+    expect(handle).toBe(body);
+    expect(colliders).toHaveLength(2);
+    expect(engine.world.get("probe.body")).toBe(body);
+    expect(engine.hasSystem("eris.bodies.interpolate.apply")).toBe(true);
+
+    engine.frame(1 / 60);
+    expect(target.position.x).toBeCloseTo(1, 6);
+    expect(target.position.y).toBeLessThan(5);
+
+    await act(async () => {
+      root.unmount();
+    });
+
+    expect(physics.hasBody(body)).toBe(false);
+    expect(engine.world.has("probe.body")).toBe(false);
+    expect(engine.hasSystem("eris.bodies.interpolate.apply")).toBe(false);
+  });
+
+  it("creates nothing without Rapier physics", async () => {
+    const engine = new Engine();
+    const onCreate = vi.fn();
+
+    function Probe() {
+      useErisBody(engine, { type: "fixed", collider: { shape: "ball", radius: 1 }, onCreate });
+      return null;
+    }
+
+    const root = createRoot(document.createElement("div"));
+    await act(async () => {
+      root.render(createElement(Probe));
+    });
+    expect(engine.ready).toBe(true);
+    expect(onCreate).not.toHaveBeenCalled();
+
+    await act(async () => {
+      root.unmount();
+    });
+  });
+
+  it("creates nothing when init fails, and releases the body when onCreate throws", async () => {
+    const rejected = vi.fn();
+    process.on("unhandledRejection", rejected);
+    const failing = new Engine({
+      physics: { init: () => Promise.reject(new Error("wasm")), step() {} }
+    });
+    const onCreate = vi.fn();
+
+    function Failing() {
+      useErisBody(failing, { type: "fixed", onCreate });
+      return null;
+    }
+
+    const root = createRoot(document.createElement("div"));
+    await act(async () => {
+      root.render(createElement(Failing));
+    });
+    await expect(failing.init()).rejects.toThrow("wasm");
+    await new Promise((r) => setTimeout(r, 0));
+    process.off("unhandledRejection", rejected);
+    expect(rejected).not.toHaveBeenCalled();
+    expect(onCreate).not.toHaveBeenCalled();
+    await act(async () => {
+      root.unmount();
+    });
+
+    const physics = createRapierPhysics();
+    const engine = new Engine({ physics });
+    await engine.init();
+    let created: BodyHandle | null = null;
+    function Throwing() {
+      useErisBody(engine, {
+        type: "fixed",
+        stateKey: "probe.body",
+        onCreate: (body) => {
+          created = body;
+          throw new Error("boom");
+        }
+      });
+      return null;
+    }
+
+    const other = createRoot(document.createElement("div"));
+    let error: unknown = null;
+    try {
+      await act(async () => {
+        other.render(createElement(Throwing));
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toEqual(new Error("boom"));
+    expect(created).not.toBeNull();
+    expect(physics.hasBody(created!)).toBe(false);
+    expect(engine.world.has("probe.body")).toBe(false);
+  });
+
+  it("releases the body when one of its colliders fails to build", async () => {
+    const physics = createRapierPhysics();
+    const engine = new Engine({ physics });
+    await engine.init();
+    const createBody = vi.spyOn(physics, "createBody");
+    const onCreate = vi.fn();
+
+    function BadCollider() {
+      useErisBody(engine, {
+        type: "fixed",
+        stateKey: "probe.body",
+        collider: [
+          { shape: "ball", radius: 1 },
+          { shape: "trimesh", vertices: [0, 0], indices: [0, 1, 2] }
+        ],
+        onCreate
+      });
+      return null;
+    }
+
+    const root = createRoot(document.createElement("div"));
+    let error: unknown = null;
+    try {
+      await act(async () => {
+        root.render(createElement(BadCollider));
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(String(error)).toMatch(/trimesh vertices/);
+    expect(createBody).toHaveBeenCalledTimes(1);
+    const body = createBody.mock.results[0].value as BodyHandle;
+    expect(physics.hasBody(body)).toBe(false);
+    expect(engine.world.has("probe.body")).toBe(false);
+    expect(onCreate).not.toHaveBeenCalled();
+  });
+});
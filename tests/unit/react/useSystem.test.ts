@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from "vitest";
+import { act, createElement, StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { useSystem } from "../../../packages/eris/src/eris/react/useSystem";
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("useSystem", () => {
+  it("registers on mount and unregisters on unmount (StrictMode-safe)", async () => {
+    const engine = new Engine();
+    const dispose = vi.fn();
+    const factory = () => [{ name: "hook.a", phase: "update" as const, run() {}, dispose }];
+
+    function Probe() {
+      useSystem(engine, factory);
+      return null;
+    }
+
+    const root = createRoot(document.createElement("div"));
+    await act(async () => {
+      root.render(createElement(StrictMode, null, createElement(Probe)));
+    });
+
+    // StrictMode mounts, unmounts and remounts effects: the first instance is disposed.
+    expect(engine.hasSystem("hook.a")).toBe(true);
+    expect(dispose).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      root.unmount();
+    });
+
+    expect(engine.hasSystem("hook.a")).toBe(false);
+    expect(dispose).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { createEngine, type BodyHandle } from "react-three-eris";
+import { PoseInterpolator, type PoseSource } from "../../../packages/eris/src/eris/render/PoseInterpolator";
+
+const body = 1 as BodyHandle;
+
+function makeSource() {
+  const pose = { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0, w: 1 } };
+  const source: PoseSource & { pose: typeof pose } = {
+    pose,
+    getPosition: () => pose.position,
+    getRotation: () => pose.rotation
+  };
+  return source;
+}
+
+function yaw(angle: number) {
+  return { x: 0, y: Math.sin(angle / 2), z: 0, w: Math.cos(angle / 2) };
+}
+
+describe("PoseInterpolator", () => {
+  it("blends position and rotation between the last two captured ticks", () => {
+    const source = makeSource();
+    const interp = new PoseInterpolator();
+    const mesh = new THREE.Object3D();
+    interp.track(body, mesh);
+
+    interp.capture(source);
+    source.pose.position = { x: 1, y: 0, z: 0 };
+    source.pose.rotation = yaw(Math.PI / 2);
+    interp.capture(source);
+
+    interp.apply(source, 0.5);
+    expect(mesh.position.x).toBeCloseTo(0.5, 6);
+    const e = new THREE.Euler().setFromQuaternion(mesh.quaternion);
+    expect(e.y).toBeCloseTo(Math.PI / 4, 6);
+
+    interp.apply(source, 1);
+    expect(mesh.position.x).toBeCloseTo(1, 6);
+  });
+
+  it("skips interpolation on teleports, detected or explicit", () => {
+    const source = makeSource();
+    const interp = new PoseInterpolator({ teleportDistance: 1 });
+    const mesh = new THREE.Object3D();
+    interp.track(body, mesh);
+    interp.capture(source);
+
+    source.pose.position = { x: 5, y: 0, z: 0 };
+    interp.capture(source);
+    interp.apply(source, 0);
+    expect(mesh.position.x).toBe(5);
+
+    source.pose.position = { x: 5.5, y: 0, z: 0 };
+    interp.teleport(body);
+    interp.capture(source);
+    interp.apply(source, 0);
+    expect(mesh.position.x).toBe(5.5);
+  });
+
+  it("shows uncaptured bodies at their current pose and skips missing ones", () => {
+    const source = makeSource();
+    source.pose.position = { x: 2, y: 3, z: 4 };
+    const interp = new PoseInterpolator();
+    const mesh = new THREE.Object3D();
+    interp.track(body, mesh);
+
+    interp.apply(source, 0.3);
+    expect(mesh.position.toArray()).toEqual([2, 3, 4]);
+
+    const gone = new THREE.Object3D();
+    interp.track(2 as BodyHandle, gone);
+    interp.capture({ ...source, hasBody: (b) => b === body });
+    interp.apply({ ...source, hasBody: (b) => b === body }, 1);
+    expect(gone.position.toArray()).toEqual([0, 0, 0]);
+  });
+
+  it("captures after each fixed tick and applies with the frame's alpha", async () => {
+    let x = 0;
+    const physics = {
+      step() {
+        x += 1;
+      },
+      getPosition: () => ({ x, y: 0, z: 0 }),
+      getRotation: () => ({ x: 0, y: 0, z: 0, w: 1 })
+    };
+    const engine = createEngine({ fixedDt: 0.1, maxFrameDt: 10, physics });
+    const interp = new PoseInterpolator();
+    engine.registerSystems(interp.systems());
+    const mesh = new THREE.Object3D();
+    interp.track(body, mesh);
+    await engine.init();
+
+    engine.frame(0.25); // two ticks (x: 1, 2), alpha 0.5
+    expect(mesh.position.x).toBeCloseTo(1.5, 6);
+  });
+});
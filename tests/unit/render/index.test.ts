@@ -1,8 +1,10 @@
 import { describe, expect, it } from "vitest";
 
 describe("render/index", () => {
-  it("is importable (placeholder module)", async () => {
-    await expect(import("../../../packages/eris/src/eris/render/index")).resolves.toBeTruthy();
+  it("is importable and exposes the pose interpolator", async () => {
+    const mod = await import("../../../packages/eris/src/eris/render/index");
+    expect(mod).toBeTruthy();
+    expect(typeof mod.PoseInterpolator).toBe("function");
   });
 });
 
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import {
+  createEngine,
+  createReplayPlayer,
+  createReplayRecorder,
+  parseReplay,
+  runReplay,
+  serializeReplay,
+  stableStringify,
+  worldChecksum,
+  type Engine,
+  type ReplayFile
+} from "react-three-eris";
+
+/** A tiny deterministic "game": a body driven by a recorded input axis, the world clock and RNG. */
+async function makeGame(seed = 7): Promise<Engine> {
+  const engine = createEngine({ fixedDt: 0.1, maxFrameDt: 10, seed });
+  engine.registerSystem({
+    name: "game.move",
+    phase: "fixed",
+    run(world, dt) {
+      const input = world.get<number>("input.x") ?? 0;
+      const pos = world.get<{ x: number; t: number }>("pos") ?? { x: 0, t: 0 };
+      const wobble = world.random.stream("game.wobble").range(-0.01, 0.01);
+      world.set("pos", { x: pos.x + input * dt + wobble, t: world.now });
+    }
+  });
+  await engine.init();
+  return engine;
+}
+
+function record(engine: Engine, inputs: number[], checksumInterval = 2): ReplayFile {
+  const recorder = createReplayRecorder(engine, { keys: ["input.x"], checksumInterval });
+  for (const x of inputs) {
+    if (x === 0) engine.world.delete("input.x");
+    else engine.world.set("input.x", x);
+    engine.stepTicks(1);
+  }
+  return recorder.stop();
+}
+
+describe("replay", () => {
+  it("records only changes and plays them back with matching checksums", async () => {
+    const rec = await makeGame();
+    const replay = record(rec, [1, 1, 1, -1, -1, 0, 0, 2]);
+
+    expect(replay.startTick).toBe(0);
+    expect(replay.endTick).toBe(8);
+    expect(replay.seed).toBe(7);
+    expect(replay.ticks.map((t) => t.set?.["input.x"])).toEqual([1, undefined, undefined, -1, undefined, undefined, undefined, 2]);
+    expect(replay.ticks[5]!.del).toEqual(["input.x"]);
+    expect(replay.checksums.map((c) => c.tick)).toEqual([1, 3, 5, 7]);
+
+    // A different seed: the player rewinds `world.random` to the recorded state.
+    const play = await makeGame(99);
+    const result = runReplay(play, parseReplay(serializeReplay(replay)));
+
+    expect(result).toEqual({ ticks: 8, verified: 4, divergence: null });
+    expect(play.world.get("pos")).toEqual(rec.world.get("pos"));
+    expect(play.world.tick).toBe(8);
+    expect(play.hasSystem("replay.playback")).toBe(false);
+  });
+
+  it("reports the first tick where the simulation diverged", async () => {
+    const replay = record(await makeGame(), [1, 1, 1, 1, 1, 1]);
+    replay.ticks.push({ tick: 2, set: { "input.x": 3 } });
+
+    const play = await makeGame();
+    const seen: number[] = [];
+    const result = runReplay(play, replay, { onDivergence: (d) => seen.push(d.tick) });
+
+    expect(result.divergence?.tick).toBe(3);
+    expect(result.divergence?.expected).not.toBe(result.divergence?.actual);
+    expect(seen).toEqual([3]);
+  });
+
+  it("overwrites live input and world time during playback", async () => {
+    const rec = await makeGame();
+    rec.stepTicks(3);
+    const replay = record(rec, [1, 1]);
+
+    const play = await makeGame();
+    play.stepTicks(3);
+    // Live input that must be ignored.
+    play.registerSystem({ name: "live", phase: "preFrame", run: (world) => world.set("input.x", 50) });
+
+    const player = createReplayPlayer(play, replay);
+    play.stepFrame(0.25); // one frame running both ticks
+    expect(player.finished).toBe(true);
+    expect(player.divergence).toBeNull();
+    expect(play.world.get("pos")).toEqual(rec.world.get("pos"));
+    player.dispose();
+  });
+
+  it("restores the initial snapshot when one was recorded", async () => {
+    const rec = await makeGame();
+    rec.world.set("input.x", 2);
+    rec.stepTicks(4);
+
+    const recorder = createReplayRecorder(rec, { keys: ["input.x"], snapshot: true, checksumInterval: 1 });
+    rec.stepTicks(3);
+    const replay = recorder.stop();
+
+    const play = await makeGame();
+    expect(runReplay(play, replay).divergence).toBeNull();
+    expect(play.world.get("pos")).toEqual(rec.world.get("pos"));
+  });
+
+  it("rejects mismatched replays", async () => {
+    const replay = record(await makeGame(), [1]);
+    const play = await makeGame();
+
+    expect(() => createReplayPlayer(createEngine({ fixedDt: 0.2 }), replay)).toThrow(/fixedDt/);
+    play.stepTicks(1);
+    expect(() => createReplayPlayer(play, replay)).toThrow(/starts at tick 0/);
+    expect(() => parseReplay(serializeReplay({ ...replay, version: 99 }))).toThrow(/Unsupported replay version/);
+    expect(() => parseReplay("{}")).toThrow(/not an eris replay/);
+  });
+
+  it("records after the net.inputs group and supports several recorders per engine", async () => {
+    const engine = await makeGame();
+    engine.registerSystem({
+      name: "net.fake",
+      phase: "fixed",
+      order: 5,
+      groups: ["net.inputs"],
+      run: (world) => world.set("input.x", 3)
+    });
+
+    const a = createReplayRecorder(engine, { keys: ["input.x"] });
+    const b = createReplayRecorder(engine, { keys: ["input.x"], systemName: "replay.b" });
+    expect(engine.hasSystem("replay.b.record")).toBe(true);
+
+    engine.stepTicks(1);
+    expect(a.stop().ticks[0]!.set).toEqual({ "input.x": 3 });
+    expect(b.stop().ticks[0]!.set).toEqual({ "input.x": 3 });
+  });
+
+  it("serializes binary and collection values", () => {
+    const replay: ReplayFile = {
+      format: "eris.replay",
+      version: 1,
+      fixedDt: 0.1,
+      startTick: 0,
+      endTick: 1,
+      keys: ["a"],
+      ticks: [{ tick: 0, set: { a: { bytes: new Uint8Array([1, 2, 255]), m: new Map([["k", 1]]), s: new Set([3]) } } }],
+      checksums: []
+    };
+    const parsed = parseReplay(serializeReplay(replay));
+    expect(parsed.ticks[0]!.set!.a).toEqual(replay.ticks[0]!.set!.a);
+  });
+
+  it("checksums are independent of key and property order", async () => {
+    const a = createEngine({ seed: 1 });
+    const b = createEngine({ seed: 1 });
+    a.world.set("x", { p: 1, q: [1, 2] });
+    a.world.set("y", new Map([["m", 1], ["n", 2]]));
+    b.world.set("y", new Map([["n", 2], ["m", 1]]));
+    b.world.set("x", { q: [1, 2], p: 1 });
+
+    expect(worldChecksum(a.world)).toBe(worldChecksum(b.world));
+    b.world.set("x", { q: [2, 1], p: 1 });
+    expect(worldChecksum(a.world)).not.toBe(worldChecksum(b.world));
+    b.world.set("x", { q: [1, 2], p: 1 });
+    b.world.random.stream("s").float();
+    expect(worldChecksum(a.world)).not.toBe(worldChecksum(b.world));
+    expect(stableStringify(-0)).not.toBe(stableStringify(0));
+  });
+
+  it("checksums cover world entities", () => {
+    const a = createEngine({ seed: 1 });
+    const b = createEngine({ seed: 1 });
+    a.world.entities.spawn({ kind: "coin", data: { value: 1 } });
+    b.world.entities.spawn({ kind: "coin", data: { value: 1 } });
+    expect(worldChecksum(a.world)).toBe(worldChecksum(b.world));
+
+    b.world.entities.spawn({ kind: "coin", data: { value: 2 } });
+    expect(worldChecksum(a.world)).not.toBe(worldChecksum(b.world));
+  });
+});
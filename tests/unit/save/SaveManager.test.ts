@@ -0,0 +1,179 @@
+import * as fs from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { createSaveManager, SAVE_FORMAT, type SaveFile } from "../../../packages/eris/src/eris/save/SaveManager";
+import {
+  createFileStorage,
+  createLocalStorage,
+  createMemoryStorage,
+  type SaveStorage,
+  type StorageLike
+} from "../../../packages/eris/src/eris/save/storage";
+import { NoopNet } from "../../../packages/eris/src/eris/net/NoopNet";
+import { NoopPhysics } from "../../../packages/eris/src/eris/physics/NoopPhysics";
+import { World, createStateKey } from "../../../packages/eris/src/eris/world/World";
+
+const HIGH_SCORE = createStateKey("game.highScore", {
+  default: 0,
+  validate: (v) => typeof v === "number" && v >= 0
+});
+
+function makeWorld(): World {
+  return new World({ fixedDt: 1 / 60, physics: NoopPhysics, net: NoopNet });
+}
+
+function fakeLocalStorage(): StorageLike {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (i) => [...items.keys()][i] ?? null,
+    getItem: (k) => items.get(k) ?? null,
+    setItem: (k, v) => void items.set(k, v),
+    removeItem: (k) => void items.delete(k)
+  };
+}
+
+describe("SaveManager", () => {
+  it("saves selected keys to a slot and loads them into another world", async () => {
+    const storage = createMemoryStorage();
+    const world = makeWorld();
+    const saves = createSaveManager(world, { storage, version: 1, keys: [HIGH_SCORE, "player.position", "player.name"] });
+
+    world.setKey(HIGH_SCORE, 1200);
+    world.set("player.position", { x: 1, y: 0.5, z: -2 });
+    world.set("player.inventory", new Set(["key"]));
+
+    const file = await saves.save("slot-1", { label: "Cave" });
+    expect(file).toMatchObject({ format: SAVE_FORMAT, version: 1, meta: { label: "Cave" } });
+    expect(Object.keys(file.state)).toEqual(["game.highScore", "player.position"]);
+    expect(await saves.list()).toEqual(["slot-1"]);
+
+    const fresh = makeWorld();
+    fresh.set("player.name", "kept");
+    const loader = createSaveManager(fresh, { storage, version: 1, keys: [HIGH_SCORE, "player.position", "player.name"] });
+    expect(fresh.getKey(HIGH_SCORE)).toBe(0);
+
+    const loaded = await loader.load("slot-1");
+    expect(loaded).toMatchObject({ version: 1 });
+    expect(fresh.getKey(HIGH_SCORE)).toBe(1200);
+    expect(fresh.get("player.position")).toEqual({ x: 1, y: 0.5, z: -2 });
+    // The world gets copies: changing them leaves the returned save alone.
+    fresh.get<{ x: number }>("player.position")!.x = 9;
+    expect(loaded!.state["player.position"]).toEqual({ x: 1, y: 0.5, z: -2 });
+    expect(fresh.get("player.name")).toBe("kept");
+    expect(fresh.has("player.inventory")).toBe(false);
+
+    expect(await loader.load("empty")).toBe(null);
+    await loader.delete("slot-1");
+    expect(await loader.list()).toEqual([]);
+  });
+
+  it("migrates older saves one version at a time", async () => {
+    const storage = createMemoryStorage();
+    const oldWorld = makeWorld();
+    oldWorld.set("player.pos", [3, 1, 4]);
+    await createSaveManager(oldWorld, { storage, version: 1, keys: ["player.pos"] }).save("old");
+
+    const world = makeWorld();
+    const seen: number[] = [];
+    const saves = createSaveManager(world, {
+      storage,
+      version: 3,
+      keys: ["player.position", "player.facing"],
+      migrations: {
+        // v1 -> v2: tuples became objects under a new key.
+        1: (state, file) => {
+          seen.push(file.version);
+          const [x, y, z] = state["player.pos"] as number[];
+          return { "player.position": { x, y, z } };
+        },
+        // v2 -> v3: facing was added.
+        2: (state, file) => {
+          seen.push(file.version);
+          return { ...state, "player.facing": 0 };
+        }
+      }
+    });
+
+    const file = (await saves.load("old")) as SaveFile;
+    expect(seen).toEqual([1, 2]);
+    expect(file.version).toBe(3);
+    expect(world.get("player.position")).toEqual({ x: 3, y: 1, z: 4 });
+    expect(world.get("player.facing")).toBe(0);
+  });
+
+  it("rejects newer saves, missing migrations, corrupt data and bad slot names", async () => {
+    const storage = createMemoryStorage({ junk: "{not json" });
+    await createSaveManager(makeWorld(), { storage, version: 5, keys: [] }).save("future");
+    await createSaveManager(makeWorld(), { storage, version: 1, keys: [] }).save("ancient");
+
+    const saves = createSaveManager(makeWorld(), { storage, version: 3, keys: [], migrations: { 2: (s) => s } });
+    await expect(saves.load("future")).rejects.toThrow(/version 5, newer than 3/);
+    await expect(saves.load("ancient")).rejects.toThrow(/no migration from version 1/);
+    await expect(saves.load("junk")).rejects.toThrow(/slot "junk" is not an eris save/);
+    await expect(saves.save("../escape")).rejects.toThrow(/invalid slot name/);
+    expect(() => saves.addMigration(3, (s) => s)).toThrow(/no version 3 to migrate from/);
+  });
+
+  it("applies nothing when a loaded value fails validation", async () => {
+    const storage = createMemoryStorage();
+    const writer = makeWorld();
+    writer.set("game.highScore", -5);
+    writer.set("game.level", 4);
+    await createSaveManager(writer, { storage, version: 1, keys: ["game.level", "game.highScore"] }).save("bad");
+
+    const world = makeWorld();
+    world.set("game.level", 1);
+    const saves = createSaveManager(world, { storage, version: 1, keys: ["game.level", HIGH_SCORE] });
+
+    await expect(saves.load("bad")).rejects.toThrow(/World.set: invalid value for state "game.highScore"/);
+    expect(world.get("game.level")).toBe(1);
+    expect(world.has("game.highScore")).toBe(false);
+  });
+
+  it("refuses to save values that are not plain data", async () => {
+    const world = makeWorld();
+    world.set("game.callback", () => {});
+    const saves = createSaveManager(world, { storage: createMemoryStorage(), version: 1, keys: ["game.callback"] });
+
+    await expect(saves.save("a")).rejects.toThrow(/state "game.callback" is not plain data/);
+  });
+});
+
+describe("save storages", () => {
+  async function roundTrip(storage: SaveStorage): Promise<void> {
+    expect(await storage.read("a")).toBe(null);
+    await storage.write("b", "2");
+    await storage.write("a", "1");
+    await storage.write("a", "one");
+    expect(await storage.read("a")).toBe("one");
+    expect(await storage.list()).toEqual(["a", "b"]);
+    await storage.remove("a");
+    await storage.remove("a");
+    expect(await storage.read("a")).toBe(null);
+    expect(await storage.list()).toEqual(["b"]);
+  }
+
+  it("localStorage keeps slots under its prefix", async () => {
+    const local = fakeLocalStorage();
+    local.setItem("other.app", "x");
+    await roundTrip(createLocalStorage({ prefix: "game.", storage: local }));
+    expect(local.getItem("game.b")).toBe("2");
+    expect(local.getItem("other.app")).toBe("x");
+  });
+
+  it("files live in a directory created on the first write", async () => {
+    const base = await fs.mkdtemp(join(tmpdir(), "eris-saves-"));
+    try {
+      const storage = createFileStorage({ dir: join(base, "saves"), fs });
+      expect(await storage.list()).toEqual([]);
+      await roundTrip(storage);
+      expect(await fs.readdir(join(base, "saves"))).toEqual(["b.json"]);
+    } finally {
+      await fs.rm(base, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
-import { World } from "../../../packages/eris/src/eris/world/World";
+import { World, createStateKey } from "../../../packages/eris/src/eris/world/World";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
 import { NoopPhysics } from "../../../packages/eris/src/eris/physics/NoopPhysics";
 import { NoopNet } from "../../../packages/eris/src/eris/net/NoopNet";
 
@@ -15,5 +16,66 @@ describe("World", () => {
     world.delete("x");
     expect(world.has("x")).toBe(false);
   });
-});
 
+  it("batches change notifications per key until flushChanges", async () => {
+    const engine = new Engine();
+    const world = engine.world;
+    const seen: [unknown, string][] = [];
+    const off = world.subscribe<number>("score", (value, key) => seen.push([value, key]));
+
+    world.set("score", 1);
+    world.set("score", 2);
+    world.set("other", 3);
+    expect(seen).toEqual([]);
+
+    await engine.init();
+    engine.frame(1 / 60);
+    expect(seen).toEqual([[2, "score"]]);
+
+    // Restores report the keys they replace or delete.
+    const snap = world.snapshot();
+    world.delete("score");
+    world.flushChanges();
+    world.restore(snap);
+    world.flushChanges();
+    expect(seen.slice(1)).toEqual([
+      [undefined, "score"],
+      [2, "score"]
+    ]);
+
+    off();
+    world.set("score", 5);
+    world.flushChanges();
+    expect(seen).toHaveLength(3);
+  });
+
+  it("applies declared defaults, validators and strict namespaces", () => {
+    const world = new World({ fixedDt: 1 / 60, physics: NoopPhysics, net: NoopNet });
+    const left = createStateKey("game.intent.left", { default: false });
+    const lives = createStateKey("game.lives", { default: 3, validate: (v) => Number.isInteger(v) });
+    const mesh = createStateKey<object>("game.mesh", { transient: true });
+
+    expect(world.getKey(left)).toBe(false);
+    world.declare([left, lives, mesh], { strict: true });
+
+    expect(world.get("game.lives")).toBe(3);
+    expect(world.has("game.lives")).toBe(false);
+    expect(() => world.setKey(lives, 2.5)).toThrow(/invalid value for state "game.lives"/);
+    expect(world.isTransient(mesh)).toBe(true);
+
+    expect(() => world.get("game.intent.lef")).toThrow(/undeclared state "game.intent.lef" \(did you mean "game.intent.left"\?\)/);
+    expect(() => world.set("game.score", 1)).toThrow(/World.set: undeclared state "game.score"/);
+    // Other namespaces stay open.
+    world.set("player.body", 1);
+    expect(world.get("player.body")).toBe(1);
+
+    // The namespace opens again once none of its keys are declared.
+    world.undeclare([lives, mesh]);
+    expect(world.isTransient(mesh)).toBe(false);
+    expect(() => world.get("game.lives")).toThrow(/undeclared state "game.lives"/);
+    world.undeclare(["game.intent.left"]);
+    expect(world.get("game.lives")).toBe(undefined);
+    world.set("game.lives", 2.5);
+    expect(world.get("game.lives")).toBe(2.5);
+  });
+});
@@ -0,0 +1,294 @@
+import { describe, expect, it, vi } from "vitest";
+import { Engine } from "../../../packages/eris/src/eris/engine/Engine";
+import { RollbackNet, type RollbackInputMessage } from "../../../packages/eris/src/eris/net/RollbackNet";
+import { createLoopbackPair, type NetTransport } from "../../../packages/eris/src/eris/net/transport";
+import { createRapierPhysics, type RapierPhysicsModule } from "../../../packages/eris/src/eris/physics/RapierPhysicsModule";
+import type { Entity } from "../../../packages/eris/src/eris/world/entities";
+
+async function makeEngine(): Promise<{ engine: Engine; physics: RapierPhysicsModule }> {
+  const physics = createRapierPhysics({ gravity: { x: 0, y: 0, z: 0 } });
+  const engine = new Engine({ fixedDt: 1 / 60, physics });
+  await engine.init();
+  return { engine, physics };
+}
+
+function makeObject() {
+  const position = { x: 0, y: 0, z: 0 };
+  return {
+    visible: true,
+    position: { ...position, set(x: number, y: number, z: number) { Object.assign(this, { x, y, z }); } },
+    quaternion: { set() {} }
+  };
+}
+
+describe("WorldEntities", () => {
+  it("defers spawns and despawns made during a phase to the end of that phase", async () => {
+    const engine = new Engine({ fixedDt: 1 });
+    await engine.init();
+    const { entities } = engine.world;
+    const seen: Record<string, number[]> = { fixed: [], postPhysicsFixed: [] };
+    let spawned: Entity | undefined;
+
+    engine.registerSystems([
+      {
+        name: "spawner",
+        phase: "fixed",
+        run(world) {
+          spawned = world.entities.spawn({ kind: "shot" });
+          for (const e of world.entities.list()) world.entities.despawn(e);
+        }
+      },
+      {
+        name: "fixed.watch",
+        phase: "fixed",
+        after: ["spawner"],
+        run: (world) => seen.fixed!.push(...world.entities.list().map((e) => e.id))
+      },
+      {
+        name: "post.watch",
+        phase: "postPhysicsFixed",
+        run: (world) => seen.postPhysicsFixed!.push(...world.entities.list().map((e) => e.id))
+      }
+    ]);
+
+    // Outside of phases, spawns apply immediately.
+    const first = entities.spawn({ kind: "shot", data: { damage: 2 } });
+    expect(first.alive).toBe(true);
+    expect(entities.get(first.id)?.data).toEqual({ damage: 2 });
+
+    engine.stepTicks(1);
+    expect(seen.fixed).toEqual([first.id]);
+    expect(seen.postPhysicsFixed).toEqual([spawned!.id]);
+    expect(first.alive).toBe(false);
+    expect(spawned!.id).toBe(first.id + 1);
+
+    // A spawn despawned before it was applied never becomes alive.
+    engine.setSystemEnabled("spawner", false);
+    engine.registerSystem({
+      name: "cancel",
+      phase: "update",
+      run(world) {
+        const e = world.entities.spawn();
+        expect(world.entities.despawn(e)).toBe(true);
+        expect(world.entities.despawn(e)).toBe(false);
+      }
+    });
+    engine.stepTicks(1);
+    expect(entities.list().map((e) => e.id)).toEqual([spawned!.id]);
+    expect(entities.spawn().id).toBe(spawned!.id + 2);
+  });
+
+  it("runs the despawn chain, then removes the body and its render binding", async () => {
+    const { engine, physics } = await makeEngine();
+    const { entities } = engine.world;
+    const calls: string[] = [];
+    entities.onDespawn((e) => calls.push(`first:${e.id}:${physics.hasBody(e.body!)}`));
+    const off = entities.onDespawn(() => calls.push("removed"));
+    entities.onDespawn(() => calls.push("last"));
+    off();
+
+    const object = makeObject();
+    const e = entities.spawn({
+      body: { type: "dynamic", position: { x: 1, y: 2, z: 3 } },
+      colliders: [{ shape: "ball", radius: 0.5 }],
+      object,
+      onDespawn: () => calls.push("own")
+    });
+    const body = e.body!;
+    const collider = physics.createCollider({ shape: "ball", radius: 0.1 }, body);
+    expect(physics.getEntity(collider)).toBe(e.id);
+    expect(entities.interpolator.isTracking(body)).toBe(true);
+
+    engine.frame(1 / 60);
+    expect(object.position).toMatchObject({ x: 1, y: 2, z: 3 });
+
+    expect(entities.despawn(e.id)).toBe(true);
+    expect(calls).toEqual(["own", "last", `first:${e.id}:true`]);
+    expect(physics.hasBody(body)).toBe(false);
+    expect(entities.interpolator.isTracking(body)).toBe(false);
+    expect(entities.has(e.id)).toBe(false);
+    expect(entities.despawn(e.id)).toBe(false);
+  });
+
+  it("removes the body when one of the spawn's colliders fails to build", async () => {
+    const { engine, physics } = await makeEngine();
+    const { entities } = engine.world;
+    const createBody = vi.spyOn(physics, "createBody");
+
+    expect(() =>
+      entities.spawn({
+        body: { type: "fixed" },
+        colliders: [{ shape: "ball", radius: 0.5 }, { shape: "trimesh", vertices: [0, 0], indices: [0, 1, 2] }]
+      })
+    ).toThrow(/trimesh vertices/);
+
+    const body = createBody.mock.results[0]!.value;
+    expect(physics.hasBody(body)).toBe(false);
+    expect(entities.count).toBe(0);
+  });
+
+  it("pools despawned entities of a kind and reuses their bodies under new ids", async () => {
+    const { engine, physics } = await makeEngine();
+    const { entities } = engine.world;
+    const resets: number[] = [];
+    entities.definePool<{ n: number }>("ball", { max: 1, reset: (e) => resets.push(e.id) });
+
+    const spawnBall = (x: number, n: number) =>
+      entities.spawn({
+        kind: "ball",
+        data: { n },
+        object: makeObject(),
+        body: { type: "dynamic", position: { x, y: 0, z: 0 }, linearVelocity: { x: 1, y: 0, z: 0 } },
+        colliders: [{ shape: "ball", radius: 0.2 }]
+      });
+
+    const a = spawnBall(0, 1);
+    const b = spawnBall(5, 2);
+    const aBody = a.body!;
+    const aObject = a.object as ReturnType<typeof makeObject>;
+    entities.despawn(a);
+    entities.despawn(b);
+
+    expect(entities.pooled("ball")).toBe(1);
+    expect(physics.hasBody(aBody)).toBe(true);
+    expect(physics.isBodyEnabled(aBody)).toBe(false);
+    expect(aObject.visible).toBe(false);
+    expect(physics.hasBody(b.body!)).toBe(false);
+
+    const c = entities.spawn({ kind: "ball", data: { n: 3 }, body: { type: "dynamic", position: { x: 9, y: 1, z: 0 } } });
+    expect(c.id).toBeGreaterThan(b.id);
+    expect(c.body).toBe(aBody);
+    expect(c.object).toBe(aObject);
+    expect(c.data).toEqual({ n: 3 });
+    expect(aObject.visible).toBe(true);
+    expect(resets).toEqual([c.id]);
+    expect(physics.isBodyEnabled(aBody)).toBe(true);
+    expect(physics.getPosition(aBody)).toMatchObject({ x: 9, y: 1, z: 0 });
+    expect(physics.getLinearVelocity(aBody)).toEqual({ x: 0, y: 0, z: 0 });
+    expect(entities.pooled("ball")).toBe(0);
+  });
+
+  it("despawns everything when the engine is disposed", async () => {
+    const { engine, physics } = await makeEngine();
+    const { entities } = engine.world;
+    entities.definePool("ball");
+    const despawned: number[] = [];
+    entities.onDespawn((e) => despawned.push(e.id));
+
+    const a = entities.spawn({ kind: "ball", body: { type: "dynamic" } });
+    const b = entities.spawn({ body: { type: "fixed" } });
+    const parked = entities.spawn({ kind: "ball", body: { type: "dynamic" } });
+    entities.despawn(parked);
+    despawned.length = 0;
+
+    engine.dispose();
+    expect(despawned).toEqual([b.id, a.id]);
+    expect(entities.count).toBe(0);
+    expect(entities.pooled("ball")).toBe(0);
+    expect(physics.ready).toBe(false);
+  });
+
+  it("restores the alive set, pools and next id with a world snapshot", async () => {
+    const { engine, physics } = await makeEngine();
+    const { world } = engine;
+    const { entities } = world;
+    entities.definePool("ball");
+    const events: string[] = [];
+    entities.onSpawn((e) => events.push(`spawn:${e.id}`));
+    entities.onDespawn((e) => events.push(`despawn:${e.id}`));
+
+    const object = makeObject();
+    const kept = entities.spawn({ kind: "ball", data: { hits: 1 }, body: { type: "dynamic" }, object });
+    const gone = entities.spawn({ data: { hits: 0 }, body: { type: "fixed" } });
+    const snapshot = world.snapshot();
+
+    (kept.data as { hits: number }).hits = 5;
+    entities.despawn(kept);
+    entities.despawn(gone);
+    const later = entities.spawn({ kind: "ball", body: { type: "dynamic", position: { x: 4, y: 0, z: 0 } } });
+    expect(later.body).toBe(kept.body);
+    events.length = 0;
+
+    world.restore(snapshot);
+    expect(events).toEqual([`despawn:${later.id}`, `spawn:${kept.id}`, `spawn:${gone.id}`]);
+    expect(entities.list()).toEqual([kept, gone]);
+    expect(kept.alive && gone.alive && !later.alive).toBe(true);
+    expect(kept.data).toEqual({ hits: 1 });
+    expect(kept.object).toBe(object);
+    expect(object.visible).toBe(true);
+    expect(entities.interpolator.isTracking(kept.body!)).toBe(true);
+    expect(physics.hasBody(gone.body!)).toBe(true);
+    expect(physics.isBodyEnabled(kept.body!)).toBe(true);
+    expect(entities.pooled("ball")).toBe(0);
+    // Ids handed out after the snapshot are given out again.
+    expect(entities.spawn().id).toBe(later.id);
+
+    entities.spawn({ data: { fn: () => {} } });
+    expect(() => world.snapshot()).toThrow(/data of entity \d+ is not plain data/);
+  });
+
+  it("keeps entities and bodies in sync through rollbacks that spawn and despawn", async () => {
+    type Input = { fire: number };
+    const players = ["a", "b"] as const;
+    const fire = (player: string, tick: number) => (tick < 90 && tick % (player === "a" ? 7 : 11) < 2 ? 1 : 0);
+
+    function makePeer(localPlayer: string, transport: NetTransport<RollbackInputMessage<Input>>) {
+      const net = new RollbackNet<Input>({
+        localPlayer,
+        players,
+        transport,
+        defaultInput: { fire: 0 },
+        sampleInput: (_world, tick) => ({ fire: fire(localPlayer, tick) }),
+        applyInputs: (world, inputs) => {
+          for (const [p, input] of inputs) {
+            if (!input.fire) continue;
+            world.entities.spawn({
+              kind: "shot",
+              data: { owner: p, age: 0 },
+              body: { type: "dynamic", position: { x: p === "a" ? -1 : 1, y: 0, z: 0 }, linearVelocity: { x: 0, y: 0, z: 1 } },
+              colliders: [{ shape: "ball", radius: 0.1 }]
+            });
+          }
+        }
+      });
+      const physics = createRapierPhysics({ gravity: { x: 0, y: 0, z: 0 } });
+      const engine = new Engine({ fixedDt: 1 / 60, physics, net });
+      engine.world.entities.definePool("shot", { max: 4 });
+      engine.registerSystem({
+        name: "shots.age",
+        phase: "fixed",
+        run: (world) => {
+          for (const shot of world.entities.list<{ age: number }>("shot")) {
+            shot.data.age += 1;
+            if (shot.data.age >= 10) world.entities.despawn(shot);
+          }
+        }
+      });
+      return { engine, net, physics };
+    }
+
+    const [ta, tb] = createLoopbackPair<RollbackInputMessage<Input>>({ latency: 0.05, jitter: 0.02, seed: 3 });
+    const peers = [makePeer("a", ta), makePeer("b", tb)];
+    for (const { engine } of peers) await engine.init();
+
+    for (let i = 0; i < 130; i += 1) {
+      for (const { engine, physics } of peers) {
+        engine.frame(1 / 60);
+        const { entities } = engine.world;
+        for (const shot of entities.list()) {
+          expect(physics.hasBody(shot.body!)).toBe(true);
+          expect(physics.isBodyEnabled(shot.body!)).toBe(true);
+        }
+        expect(physics.world!.bodies.len()).toBe(entities.count + entities.pooled("shot"));
+      }
+    }
+
+    let fired = 0;
+    for (let t = 0; t < 90; t += 1) fired += fire("a", t) + fire("b", t);
+    for (const { engine, net } of peers) {
+      expect(net.stats.rollbacks).toBeGreaterThan(0);
+      expect(engine.world.entities.count).toBe(0);
+      expect(engine.world.entities.getState().nextId).toBe(fired + 1);
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from "vitest";
+import { World } from "../../../packages/eris/src/eris/world/World";
+import { NoopPhysics } from "../../../packages/eris/src/eris/physics/NoopPhysics";
+import { NoopNet } from "../../../packages/eris/src/eris/net/NoopNet";
+import { isPlainData, WORLD_SNAPSHOT_VERSION } from "../../../packages/eris/src/eris/world/snapshot";
+import type { PhysicsModule } from "../../../packages/eris/src/eris/physics/PhysicsModule";
+
+function makeWorld(physics: PhysicsModule = NoopPhysics) {
+  return new World({ fixedDt: 1 / 60, physics, net: NoopNet });
+}
+
+class Mesh {
+  position = { x: 0, y: 0, z: 0 };
+}
+
+describe("World snapshots", () => {
+  it("round-trips plain state, tick and clock", () => {
+    const world = makeWorld();
+    world.set("score", 10);
+    world.set("game", { mode: "inPlay", list: [1, 2, 3] });
+    world.tick = 42;
+    world.now = 0.7;
+
+    const snap = world.snapshot();
+    expect(snap.version).toBe(WORLD_SNAPSHOT_VERSION);
+    expect(structuredClone(snap)).toEqual(snap);
+
+    world.set("score", 99);
+    world.get<{ list: number[] }>("game")!.list.push(4);
+    world.set("added.later", true);
+    world.tick = 50;
+    world.now = 1;
+
+    world.restore(snap);
+    expect(world.get("score")).toBe(10);
+    expect(world.get("game")).toEqual({ mode: "inPlay", list: [1, 2, 3] });
+    expect(world.has("added.later")).toBe(false);
+    expect(world.tick).toBe(42);
+    expect(world.now).toBe(0.7);
+
+    // Restored values don't alias the snapshot.
+    world.get<{ list: number[] }>("game")!.list.push(5);
+    world.restore(snap);
+    expect(world.get("game")).toEqual({ mode: "inPlay", list: [1, 2, 3] });
+  });
+
+  it("deletes keys added after the snapshot even when they shadow Object.prototype names", () => {
+    const world = makeWorld();
+    const snap = world.snapshot();
+    world.set("toString", 1);
+    world.set("constructor", 2);
+
+    world.restore(snap);
+    expect(world.has("toString")).toBe(false);
+    expect(world.has("constructor")).toBe(false);
+  });
+
+  it("rejects live objects unless they are transient or have a serializer", () => {
+    const world = makeWorld();
+    const mesh = new Mesh();
+    world.set("mesh", mesh);
+
+    expect(() => world.snapshot()).toThrow(/"mesh" is not plain data/);
+
+    world.markTransient("mesh");
+    const snap = world.snapshot();
+    expect(snap.state).not.toHaveProperty("mesh");
+
+    world.restore(snap);
+    expect(world.get("mesh")).toBe(mesh);
+  });
+
+  it("uses registered serializers", () => {
+    const world = makeWorld();
+    const registry = new Map<number, { id: number; hp: number }>([[7, { id: 7, hp: 3 }]]);
+    world.set("player", registry.get(7));
+    world.registerSerializer<{ id: number; hp: number }, number>("player", {
+      serialize: (p) => p.id,
+      deserialize: (id) => registry.get(id)!
+    });
+
+    const snap = world.snapshot();
+    expect(snap.state.player).toBe(7);
+
+    world.set("player", { id: 0, hp: 0 });
+    world.restore(snap);
+    expect(world.get("player")).toBe(registry.get(7));
+  });
+
+  it("restores physics before state and rejects unknown versions", () => {
+    const order: string[] = [];
+    const physics: PhysicsModule = {
+      step() {},
+      snapshot: () => "physics-state",
+      restore: vi.fn((data) => void order.push(`physics:${data}`))
+    };
+    const world = makeWorld(physics);
+    world.set("body", 1);
+    world.registerSerializer("body", {
+      serialize: (v) => v,
+      deserialize: (v) => {
+        order.push("state");
+        return v;
+      }
+    });
+
+    const snap = world.snapshot();
+    expect(snap.physics).toBe("physics-state");
+
+    world.restore(snap);
+    expect(order).toEqual(["physics:physics-state", "state"]);
+
+    expect(() => world.restore({ ...snap, version: 999 })).toThrow(/version/);
+  });
+
+  it("isPlainData accepts data and rejects class instances / functions", () => {
+    expect(isPlainData({ a: [1, "x", null, { b: new Float32Array(2) }], m: new Map([["k", 1]]) })).toBe(true);
+    expect(isPlainData({ mesh: new Mesh() })).toBe(false);
+    expect(isPlainData({ fn: () => 1 })).toBe(false);
+  });
+});